@@ -0,0 +1,320 @@
+import express from 'express';
+import { Server } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ScreenshotWorkflow } from '../workflows/ScreenshotWorkflow.js';
+import {
+  STREAM_MESSAGE_TYPES,
+  StreamMessage,
+  StreamMessageType,
+} from './WorkflowEventStream.js';
+
+export interface ControlApiConfig {
+  /** 0 picks a free port, see getPort() */
+  port: number;
+  host: string;
+  /**
+   * When set, every request must send "Authorization: Bearer <token>"
+   */
+  token?: string;
+  /** Root of final/ (baselines) and diffs/ (default: ./output) */
+  outputDir: string;
+  /** Interval of the comment lines that keep idle event streams open */
+  keepAliveMs: number;
+}
+
+/**
+ * The parts of the workflow the API drives
+ */
+export type ControlledWorkflow = Pick<
+  ScreenshotWorkflow,
+  | 'getStatus'
+  | 'getWorkflowMetrics'
+  | 'getHistory'
+  | 'triggerManualRun'
+  | 'pause'
+  | 'resume'
+  | 'getEventStream'
+>;
+
+export interface BaselineEntry {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * REST API for controlling a running workflow and browsing its output
+ */
+export class ControlApiServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private config: ControlApiConfig;
+  /** Open /events responses, ended on stop() so the server can close */
+  private readonly streams = new Set<express.Response>();
+
+  constructor(
+    private readonly workflow: ControlledWorkflow,
+    config: Partial<ControlApiConfig> = {}
+  ) {
+    this.config = {
+      port: 8080,
+      host: 'localhost',
+      outputDir: './output',
+      keepAliveMs: 15000,
+      ...config,
+    };
+
+    this.app = express();
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  private setupMiddleware(): void {
+    const { token } = this.config;
+    if (!token) {
+      return;
+    }
+
+    this.app.use((req, res, next) => {
+      if (this.isAuthorized(req.headers.authorization, token)) {
+        next();
+        return;
+      }
+
+      res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer')
+        .json({ error: 'Missing or invalid bearer token' });
+    });
+  }
+
+  private setupRoutes(): void {
+    this.app.get('/status', (req, res) => {
+      void this.sendStatus(res);
+    });
+
+    this.app.get('/history', (req, res) => {
+      const limit = Number(req.query.limit);
+      const history = this.workflow.getHistory();
+      res.json(
+        Number.isInteger(limit) && limit > 0 ? history.slice(-limit) : history
+      );
+    });
+
+    // Commands are rejected with 409 when the workflow is in the wrong state
+    this.app.post('/trigger', (req, res) => {
+      this.runCommand(res, () => this.workflow.triggerManualRun(), {
+        triggered: true,
+      });
+    });
+
+    this.app.post('/pause', (req, res) => {
+      this.runCommand(res, () => this.workflow.pause(), { paused: true });
+    });
+
+    this.app.post('/resume', (req, res) => {
+      this.runCommand(res, () => this.workflow.resume(), { paused: false });
+    });
+
+    this.app.get('/events', (req, res) => {
+      this.streamEvents(req, res);
+    });
+
+    this.app.get('/baselines', (req, res) => {
+      void this.sendBaselines(res);
+    });
+
+    this.app.get('/diffs/:name', (req, res) => {
+      const { name } = req.params;
+      if (name !== path.basename(name)) {
+        res.status(400).json({ error: `Invalid file name: ${name}` });
+        return;
+      }
+
+      res.sendFile(
+        name,
+        {
+          root: path.resolve(this.config.outputDir, 'diffs'),
+          dotfiles: 'deny',
+        },
+        error => {
+          if (error && !res.headersSent) {
+            res.status(404).json({ error: `Diff not found: ${name}` });
+          }
+        }
+      );
+    });
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.config.port, this.config.host, () => {
+        resolve();
+      });
+      this.server = server;
+
+      server.on('error', (error: Error) => {
+        this.server = null;
+        reject(new Error(`Control API failed to start: ${error.message}`));
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.streams.forEach(res => res.end());
+    this.streams.clear();
+
+    return new Promise(resolve => {
+      if (this.server) {
+        this.server.close(() => resolve());
+        this.server = null;
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  /** The port actually listened on, once started */
+  getPort(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  getConfig(): ControlApiConfig {
+    return { ...this.config };
+  }
+
+  getApp(): express.Application {
+    return this.app;
+  }
+
+  private isAuthorized(header: string | undefined, token: string): boolean {
+    const match = /^Bearer (.+)$/i.exec(header ?? '');
+    if (!match) {
+      return false;
+    }
+
+    const given = Buffer.from(match[1]);
+    const expected = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private async sendStatus(res: express.Response): Promise<void> {
+    try {
+      res.json({
+        ...this.workflow.getStatus(),
+        metrics: await this.workflow.getWorkflowMetrics(),
+      });
+    } catch (error) {
+      this.sendError(res, 500, error);
+    }
+  }
+
+  private async sendBaselines(res: express.Response): Promise<void> {
+    try {
+      res.json(
+        await this.listImages(path.join(this.config.outputDir, 'final'))
+      );
+    } catch (error) {
+      this.sendError(res, 500, error);
+    }
+  }
+
+  /**
+   * Server-Sent Events feed of the workflow's event stream. ?types=a,b limits
+   * it to those message types; a reconnecting client's Last-Event-ID header
+   * replays the buffered messages it missed.
+   */
+  private streamEvents(req: express.Request, res: express.Response): void {
+    const requested =
+      typeof req.query.types === 'string' ? req.query.types : '';
+    const types = this.parseStreamTypes(requested);
+    if (!types) {
+      res.status(400).json({ error: `Unknown event type in: ${requested}` });
+      return;
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+    this.streams.add(res);
+
+    const send = (message: StreamMessage): void => {
+      if (types.includes(message.type)) {
+        res.write(
+          `id: ${message.id}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`
+        );
+      }
+    };
+
+    const lastEventId = Number(req.headers['last-event-id']);
+    const unsubscribe = this.workflow
+      .getEventStream()
+      .subscribe(send, Number.isInteger(lastEventId) ? lastEventId : undefined);
+    const keepAlive = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, this.config.keepAliveMs);
+
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+      this.streams.delete(res);
+    });
+  }
+
+  private parseStreamTypes(value: string): StreamMessageType[] | null {
+    if (value === '') {
+      return STREAM_MESSAGE_TYPES;
+    }
+
+    const names = value.split(',');
+    const types = STREAM_MESSAGE_TYPES.filter(type => names.includes(type));
+    return types.length === names.length ? types : null;
+  }
+
+  private runCommand(
+    res: express.Response,
+    command: () => void,
+    body: Record<string, unknown>
+  ): void {
+    try {
+      command();
+      res.json(body);
+    } catch (error) {
+      this.sendError(res, 409, error);
+    }
+  }
+
+  private sendError(
+    res: express.Response,
+    status: number,
+    error: unknown
+  ): void {
+    res.status(status).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  private async listImages(dirPath: string): Promise<BaselineEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(dirPath);
+    } catch {
+      // No baselines captured yet
+      return [];
+    }
+
+    const images = files.filter(file => /\.(png|jpg|jpeg|webp)$/i.test(file));
+    const entries: BaselineEntry[] = [];
+    for (const name of images.sort()) {
+      const stats = await fs.stat(path.join(dirPath, name));
+      entries.push({ name, size: stats.size, modifiedAt: stats.mtime });
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,155 @@
+import { Event } from '../state-machine/Event.js';
+import {
+  StateMachineObserver,
+  TransitionTiming,
+} from '../state-machine/StateMachineObserver.js';
+import { ScreenshotResult } from '../screenshot/ScreenshotService.js';
+import { ChangeDetectionResult } from '../monitoring/ChangeDetector.js';
+import { QualityReport } from '../screenshot/QualityValidator.js';
+
+/**
+ * Payload of each stream message type
+ */
+export interface StreamPayloads {
+  transition: {
+    from: string;
+    to: string;
+    event: Event;
+    timing: TransitionTiming;
+  };
+  /** Every event a state returned or was dispatched, handled or not */
+  event: { event: Event; state: string; handled: boolean };
+  screenshot: ScreenshotResult;
+  change: ChangeDetectionResult;
+  quality: QualityReport;
+  lifecycle: {
+    status: 'paused' | 'resumed' | 'terminal' | 'error';
+    state: string | null;
+    error?: string;
+  };
+}
+
+export type StreamMessageType = keyof StreamPayloads;
+
+export type StreamMessage = {
+  [K in StreamMessageType]: {
+    /** Increases by one per message, used as the SSE event id */
+    id: number;
+    type: K;
+    timestamp: Date;
+    data: StreamPayloads[K];
+  };
+}[StreamMessageType];
+
+export type StreamListener = (message: StreamMessage) => void;
+
+export const STREAM_MESSAGE_TYPES: StreamMessageType[] = [
+  'transition',
+  'event',
+  'screenshot',
+  'change',
+  'quality',
+  'lifecycle',
+];
+
+/**
+ * Live feed of workflow activity. Transitions and lifecycle changes come
+ * from the observer returned by createObserver(); states publish their
+ * captures, comparisons and quality reports through
+ * StateContext.eventStream. The most recent messages are kept so clients
+ * that reconnect can catch up on what they missed.
+ */
+export class WorkflowEventStream {
+  private readonly listeners = new Set<StreamListener>();
+  private readonly recent: StreamMessage[] = [];
+  private nextId = 1;
+
+  constructor(private readonly bufferSize = 100) {}
+
+  publish<K extends StreamMessageType>(type: K, data: StreamPayloads[K]): void {
+    const message = {
+      id: this.nextId++,
+      type,
+      timestamp: new Date(),
+      data,
+    } as StreamMessage;
+
+    this.recent.push(message);
+    if (this.recent.length > this.bufferSize) {
+      this.recent.shift();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch {
+        // A failing client must not stop the others or the workflow
+      }
+    }
+  }
+
+  publishScreenshots(screenshots: ScreenshotResult[]): void {
+    screenshots.forEach(screenshot => this.publish('screenshot', screenshot));
+  }
+
+  publishChanges(results: ChangeDetectionResult[]): void {
+    results.forEach(result => this.publish('change', result));
+  }
+
+  publishQualityReports(reports: QualityReport[]): void {
+    reports.forEach(report => this.publish('quality', report));
+  }
+
+  /**
+   * Listen for new messages. With afterId, buffered messages newer than it
+   * are replayed first.
+   */
+  subscribe(listener: StreamListener, afterId?: number): () => void {
+    if (afterId !== undefined) {
+      this.recent
+        .filter(message => message.id > afterId)
+        .forEach(message => listener(message));
+    }
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getRecentMessages(): StreamMessage[] {
+    return [...this.recent];
+  }
+
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+
+  createObserver(): StateMachineObserver {
+    return {
+      onTransition: ({ from, to, event, timing }): void => {
+        this.publish('event', { event, state: from, handled: true });
+        this.publish('transition', { from, to, event, timing });
+      },
+      onEventUnhandled: (event, state): void => {
+        this.publish('event', { event, state, handled: false });
+      },
+      onPause: (state): void => {
+        this.publish('lifecycle', { status: 'paused', state });
+      },
+      onResume: (state): void => {
+        this.publish('lifecycle', { status: 'resumed', state });
+      },
+      onTerminal: (state): void => {
+        this.publish('lifecycle', { status: 'terminal', state });
+      },
+      onError: (error, state): void => {
+        this.publish('lifecycle', {
+          status: 'error',
+          state,
+          error: error.message,
+        });
+      },
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { StateFactory } from '../workflows/StateFactory.js';
 import { WorkflowBuilder } from '../workflows/WorkflowBuilder.js';
+import { WorkflowGraphAnalysis } from '../workflows/WorkflowGraph.js';
 import { WorkflowMode } from '../types/WorkflowMode.js';
 
 export class WorkflowValidator {
@@ -9,9 +10,11 @@ export class WorkflowValidator {
   static async validateAll(): Promise<{
     isValid: boolean;
     configurationErrors: string[];
-    workflowErrors: { mode: WorkflowMode; errors: string[] }[];
+    workflowErrors: { mode: WorkflowMode | string; errors: string[] }[];
+    workflowWarnings: { mode: WorkflowMode | string; warnings: string[] }[];
     summary: Array<{
-      mode: WorkflowMode;
+      mode: WorkflowMode | string;
+      description?: string;
       initialState: string;
       completionState: string;
       stateCount: number;
@@ -21,9 +24,14 @@ export class WorkflowValidator {
     const result = {
       isValid: true,
       configurationErrors: [] as string[],
-      workflowErrors: [] as { mode: WorkflowMode; errors: string[] }[],
+      workflowErrors: [] as { mode: WorkflowMode | string; errors: string[] }[],
+      workflowWarnings: [] as {
+        mode: WorkflowMode | string;
+        warnings: string[];
+      }[],
       summary: [] as Array<{
-        mode: WorkflowMode;
+        mode: WorkflowMode | string;
+        description?: string;
         initialState: string;
         completionState: string;
         stateCount: number;
@@ -47,11 +55,17 @@ export class WorkflowValidator {
         const workflowValidation = await WorkflowBuilder.validateWorkflowFlow(
           workflow.mode
         );
-        if (!workflowValidation.isValid) {
+        const graphAnalysis = await this.analyzeGraph(workflow.mode);
+        const errors = [...workflowValidation.errors, ...graphAnalysis.errors];
+
+        if (errors.length > 0) {
           result.isValid = false;
-          result.workflowErrors.push({
+          result.workflowErrors.push({ mode: workflow.mode, errors });
+        }
+        if (graphAnalysis.warnings.length > 0) {
+          result.workflowWarnings.push({
             mode: workflow.mode,
-            errors: workflowValidation.errors,
+            warnings: graphAnalysis.warnings,
           });
         }
       }
@@ -100,6 +114,18 @@ export class WorkflowValidator {
       process.stdout.write('\n');
     }
 
+    // Print workflow-specific warnings
+    if (results.workflowWarnings.length > 0) {
+      process.stdout.write('⚠️  Workflow Warnings:\n');
+      results.workflowWarnings.forEach(({ mode, warnings }) => {
+        process.stdout.write(`   Mode: ${mode}\n`);
+        warnings.forEach(warning => {
+          process.stdout.write(`     ⚠️  ${warning}\n`);
+        });
+      });
+      process.stdout.write('\n');
+    }
+
     // Print summary
     process.stdout.write('📊 Workflow Summary:\n');
     results.summary.forEach(workflow => {
@@ -107,6 +133,9 @@ export class WorkflowValidator {
         ? '❌'
         : '✅';
       process.stdout.write(`   ${status} ${workflow.mode}:\n`);
+      if (workflow.description) {
+        process.stdout.write(`      ${workflow.description}\n`);
+      }
       process.stdout.write(`      Initial: ${workflow.initialState}\n`);
       process.stdout.write(`      Completion: ${workflow.completionState}\n`);
       process.stdout.write(
@@ -118,11 +147,13 @@ export class WorkflowValidator {
   /**
    * Validate a specific workflow mode
    */
-  static async validateMode(mode: WorkflowMode): Promise<{
+  static async validateMode(mode: WorkflowMode | string): Promise<{
     isValid: boolean;
     errors: string[];
+    warnings: string[];
     summary?: {
-      mode: WorkflowMode;
+      mode: WorkflowMode | string;
+      description?: string;
       initialState: string;
       completionState: string;
       stateCount: number;
@@ -131,11 +162,14 @@ export class WorkflowValidator {
   }> {
     try {
       const validation = await WorkflowBuilder.validateWorkflowFlow(mode);
+      const graphAnalysis = await this.analyzeGraph(mode);
       const summary = await WorkflowBuilder.getWorkflowSummary(mode);
+      const errors = [...validation.errors, ...graphAnalysis.errors];
 
       return {
-        isValid: validation.isValid,
-        errors: validation.errors,
+        isValid: errors.length === 0,
+        errors,
+        warnings: graphAnalysis.warnings,
         summary,
       };
     } catch (error) {
@@ -144,7 +178,19 @@ export class WorkflowValidator {
         errors: [
           `Mode validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         ],
+        warnings: [],
       };
     }
   }
+
+  /**
+   * Analyze the transition graph of a mode for unreachable states, dead
+   * ends, transitions leaving the workflow and unhandled events
+   */
+  static async analyzeGraph(
+    mode: WorkflowMode | string
+  ): Promise<WorkflowGraphAnalysis> {
+    const graph = await WorkflowBuilder.buildGraph(mode);
+    return graph.analyze();
+  }
 }
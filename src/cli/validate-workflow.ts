@@ -1,22 +1,92 @@
 #!/usr/bin/env node
 
+import { promises as fs } from 'fs';
+import path from 'path';
 import { WorkflowValidator } from './WorkflowValidator.js';
-import { isValidWorkflowMode } from '../types/WorkflowMode.js';
+import { StateFactory } from '../workflows/StateFactory.js';
+import { WorkflowBuilder } from '../workflows/WorkflowBuilder.js';
+import {
+  DIAGRAM_FILE_EXTENSIONS,
+  DIAGRAM_FORMATS,
+  WorkflowDiagram,
+  isDiagramFormat,
+} from '../workflows/WorkflowDiagram.js';
+
+const DEFAULT_DIAGRAM_DIR = './output/diagrams';
+
+/**
+ * export [mode] [--format=mermaid|dot|scxml] [--output=dir]
+ *
+ * A single mode without --output is printed to stdout; otherwise one file
+ * per mode is written to the output directory.
+ */
+async function exportDiagrams(args: string[]): Promise<void> {
+  const formatArg =
+    args.find(arg => arg.startsWith('--format='))?.split('=')[1] ?? 'mermaid';
+  const outputArg = args
+    .find(arg => arg.startsWith('--output='))
+    ?.split('=')[1];
+  const modeArg = args.find(arg => !arg.startsWith('--'));
+
+  if (!isDiagramFormat(formatArg)) {
+    process.stderr.write(
+      `❌ Invalid diagram format: ${formatArg}. Available formats: ${DIAGRAM_FORMATS.join(', ')}\n`
+    );
+    process.exit(1);
+  }
+
+  if (modeArg !== undefined && !(await StateFactory.hasMode(modeArg))) {
+    process.stderr.write(`❌ Invalid workflow mode: ${modeArg}\n`);
+    process.exit(1);
+  }
+
+  if (modeArg && !outputArg) {
+    const graph = await WorkflowBuilder.buildGraph(modeArg);
+    process.stdout.write(WorkflowDiagram.render(graph, formatArg, modeArg));
+    return;
+  }
+
+  const modes = modeArg ? [modeArg] : await StateFactory.getAvailableModes();
+  const outputDir = outputArg ?? DEFAULT_DIAGRAM_DIR;
+  await fs.mkdir(outputDir, { recursive: true });
+
+  for (const workflowMode of modes) {
+    const graph = await WorkflowBuilder.buildGraph(workflowMode);
+    const filePath = path.join(
+      outputDir,
+      `${workflowMode}.${DIAGRAM_FILE_EXTENSIONS[formatArg]}`
+    );
+
+    await fs.writeFile(
+      filePath,
+      WorkflowDiagram.render(graph, formatArg, workflowMode),
+      'utf8'
+    );
+    process.stdout.write(
+      `📄 Exported ${workflowMode} workflow to ${filePath}\n`
+    );
+  }
+}
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
   try {
-    if (args.length > 0) {
+    if (args[0] === 'export') {
+      await exportDiagrams(args.slice(1));
+    } else if (args.length > 0) {
       // Validate specific mode
-      const modeArg = args[0];
-      if (!isValidWorkflowMode(modeArg)) {
-        process.stderr.write(`❌ Invalid workflow mode: ${modeArg}\n`);
+      const mode = args[0];
+      if (!(await StateFactory.hasMode(mode))) {
+        process.stderr.write(`❌ Invalid workflow mode: ${mode}\n`);
         process.exit(1);
       }
-      const mode = modeArg;
       const result = await WorkflowValidator.validateMode(mode);
 
+      result.warnings.forEach(warning => {
+        process.stdout.write(`⚠️  ${warning}\n`);
+      });
+
       if (result.isValid) {
         process.stdout.write(`✅ Workflow mode '${mode}' is valid!\n`);
         if (result.summary) {
@@ -0,0 +1,34 @@
+import { StateContext } from '../state-machine/State.js';
+import { ScreenshotResult } from '../screenshot/ScreenshotService.js';
+
+export interface DistributionContext {
+  config: Record<string, unknown>;
+  logger: StateContext['logger'];
+}
+
+/**
+ * Somewhere approved screenshots are published to after the baselines have
+ * been updated, e.g. an asset store or a chat channel
+ */
+export interface DistributionTarget {
+  name: string;
+  distribute(
+    screenshots: ScreenshotResult[],
+    context: DistributionContext
+  ): Promise<void>;
+}
+
+export class DistributionRegistry {
+  private static targets = new Map<string, DistributionTarget>();
+
+  /**
+   * Register a new distribution target (for extensibility)
+   */
+  static register(target: DistributionTarget): void {
+    this.targets.set(target.name, target);
+  }
+
+  static getTargets(): DistributionTarget[] {
+    return [...this.targets.values()];
+  }
+}
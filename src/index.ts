@@ -1,16 +1,33 @@
 import { ScreenshotWorkflow, WorkflowConfig } from './workflows/ScreenshotWorkflow.js';
-import { WorkflowMode, isValidWorkflowMode, getAllWorkflowModeStrings } from './types/WorkflowMode.js';
+import { StateFactory } from './workflows/StateFactory.js';
+import { WorkflowMode } from './types/WorkflowMode.js';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel, Logger, isLogFormat, isLogLevel } from './logging/Logger.js';
+import { StructuredLogger } from './logging/StructuredLogger.js';
+import { MetricsServer } from './metrics/MetricsServer.js';
+import { ControlApiServer } from './api/ControlApiServer.js';
+import { Tracer } from './tracing/Tracer.js';
+import { OtlpJsonFileExporter } from './tracing/SpanExporters.js';
 import { promises as fs } from 'fs';
 
 interface CLIOptions {
-  mode: WorkflowMode;
+  mode: WorkflowMode | string;
   config?: string;
   verbose?: boolean;
+  logLevel?: LogLevel;
+  logFormat?: LogFormat;
+  resume?: boolean;
+  metricsPort?: number;
+  traceFile?: string;
+  apiPort?: number;
+  apiHost?: string;
   help?: boolean;
 }
 
 class ScreenshotAutomationCLI {
   private workflow: ScreenshotWorkflow | null = null;
+  private metricsServer: MetricsServer | null = null;
+  private controlApi: ControlApiServer | null = null;
+  private logger: Logger = new StructuredLogger();
 
   async run(args: string[]): Promise<void> {
     const options = this.parseArguments(args);
@@ -20,35 +37,57 @@ class ScreenshotAutomationCLI {
       return;
     }
 
+    // --verbose is shorthand for --log-level=debug
+    const logLevel = options.logLevel ?? (options.verbose ? 'debug' : 'info');
+    this.logger = new StructuredLogger({ level: logLevel, format: options.logFormat });
+
     try {
+      // Custom modes come from workflow-config.json, so check after parsing
+      await this.validateMode(options.mode);
+
       // Load configuration
       const config = await this.loadConfiguration(options.config);
 
       // Validate configuration
       const validation = this.validateConfig(config);
       if (!validation.isValid) {
-        console.error('❌ Configuration validation failed:');
-        validation.errors.forEach(error => console.error(`   - ${error}`));
+        this.logger.error('❌ Configuration validation failed', { errors: validation.errors });
         process.exit(1);
       }
 
       if (validation.warnings.length > 0) {
-        console.warn('⚠️  Configuration warnings:');
-        validation.warnings.forEach(warning => console.warn(`   - ${warning}`));
+        this.logger.warn('⚠️  Configuration warnings', { warnings: validation.warnings });
       }
 
       // Create workflow
-      this.workflow = new ScreenshotWorkflow(config);
+      const tracer = options.traceFile
+        ? new Tracer(new OtlpJsonFileExporter(options.traceFile), this.logger)
+        : undefined;
+      this.workflow = new ScreenshotWorkflow(config, { logLevel, logFormat: options.logFormat, tracer });
+      if (options.traceFile) {
+        this.logger.info(`🔍 Writing traces to ${options.traceFile}`);
+      }
       await this.workflow.initialize();
 
+      if (options.metricsPort !== undefined) {
+        await this.startMetricsServer(options.metricsPort);
+      }
+
+      if (options.apiPort !== undefined) {
+        await this.startControlApi(options);
+      }
+
       // Set up signal handlers
       this.setupSignalHandlers();
 
       // Execute based on mode
-      await this.executeMode(options.mode);
+      await this.executeMode(options.mode, options.resume ?? false);
+
+      // Let one-shot modes exit once they are done
+      await this.stopServers();
 
     } catch (error) {
-      console.error(`❌ Fatal error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error(`❌ Fatal error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       process.exit(1);
     }
   }
@@ -65,12 +104,10 @@ class ScreenshotAutomationCLI {
         case '--mode':
         case '-m':
           const mode = args[++i];
-          if (isValidWorkflowMode(mode)) {
-            options.mode = mode;
-          } else {
-            const validModes = getAllWorkflowModeStrings().join(', ');
-            throw new Error(`Invalid mode: ${mode}. Must be one of: ${validModes}`);
+          if (!mode) {
+            throw new Error('Missing value for --mode');
           }
+          options.mode = mode;
           break;
 
         case '--config':
@@ -83,6 +120,40 @@ class ScreenshotAutomationCLI {
           options.verbose = true;
           break;
 
+        case '--log-level':
+          options.logLevel = this.parseLogLevel(args[++i]);
+          break;
+
+        case '--log-format':
+          options.logFormat = this.parseLogFormat(args[++i]);
+          break;
+
+        case '--resume':
+          options.resume = true;
+          break;
+
+        case '--metrics-port':
+          options.metricsPort = this.parsePort(args[++i], 'metrics port');
+          break;
+
+        case '--api-port':
+          options.apiPort = this.parsePort(args[++i], 'API port');
+          break;
+
+        case '--api-host':
+          options.apiHost = args[++i];
+          if (!options.apiHost) {
+            throw new Error('Missing value for --api-host');
+          }
+          break;
+
+        case '--trace-file':
+          options.traceFile = args[++i];
+          if (!options.traceFile) {
+            throw new Error('Missing value for --trace-file');
+          }
+          break;
+
         case '--help':
         case '-h':
           options.help = true;
@@ -91,9 +162,21 @@ class ScreenshotAutomationCLI {
         default:
           if (arg.startsWith('--mode=')) {
             const mode = arg.split('=')[1];
-            if (isValidWorkflowMode(mode)) {
+            if (mode) {
               options.mode = mode;
             }
+          } else if (arg.startsWith('--log-level=')) {
+            options.logLevel = this.parseLogLevel(arg.split('=')[1]);
+          } else if (arg.startsWith('--log-format=')) {
+            options.logFormat = this.parseLogFormat(arg.split('=')[1]);
+          } else if (arg.startsWith('--metrics-port=')) {
+            options.metricsPort = this.parsePort(arg.split('=')[1], 'metrics port');
+          } else if (arg.startsWith('--trace-file=')) {
+            options.traceFile = arg.slice('--trace-file='.length);
+          } else if (arg.startsWith('--api-port=')) {
+            options.apiPort = this.parsePort(arg.split('=')[1], 'API port');
+          } else if (arg.startsWith('--api-host=')) {
+            options.apiHost = arg.split('=')[1];
           }
           break;
       }
@@ -102,6 +185,65 @@ class ScreenshotAutomationCLI {
     return options;
   }
 
+  private parseLogLevel(value: string | undefined): LogLevel {
+    if (!value || !isLogLevel(value)) {
+      throw new Error(`Invalid log level: ${value ?? ''}. Must be one of: ${LOG_LEVELS.join(', ')}`);
+    }
+    return value;
+  }
+
+  private parseLogFormat(value: string | undefined): LogFormat {
+    if (!value || !isLogFormat(value)) {
+      throw new Error(`Invalid log format: ${value ?? ''}. Must be one of: ${LOG_FORMATS.join(', ')}`);
+    }
+    return value;
+  }
+
+  private parsePort(value: string | undefined, name: string): number {
+    const port = Number(value);
+    if (!value || !Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid ${name}: ${value ?? ''}. Must be an integer between 0 and 65535`);
+    }
+    return port;
+  }
+
+  private async startMetricsServer(port: number): Promise<void> {
+    if (!this.workflow) return;
+
+    this.metricsServer = new MetricsServer(this.workflow.getMetrics().registry, { port });
+    await this.metricsServer.start();
+
+    const { host, path } = this.metricsServer.getConfig();
+    this.logger.info(`📈 Serving Prometheus metrics at http://${host}:${this.metricsServer.getPort()}${path}`);
+  }
+
+  private async startControlApi(options: CLIOptions): Promise<void> {
+    if (!this.workflow) return;
+
+    // Read from the environment so the token does not show up in process lists
+    const token = process.env.CONTROL_API_TOKEN || undefined;
+    this.controlApi = new ControlApiServer(this.workflow, { port: options.apiPort, host: options.apiHost, token });
+    await this.controlApi.start();
+
+    const { host } = this.controlApi.getConfig();
+    this.logger.info(`🛰️  Control API listening on http://${host}:${this.controlApi.getPort()}`);
+    if (!token) {
+      this.logger.warn('⚠️  CONTROL_API_TOKEN is not set - the control API accepts unauthenticated requests');
+    }
+  }
+
+  private async stopServers(): Promise<void> {
+    await this.controlApi?.stop();
+    await this.metricsServer?.stop();
+  }
+
+  private async validateMode(mode: string): Promise<void> {
+    if (!(await StateFactory.hasMode(mode))) {
+      const validModes = (await StateFactory.getAvailableModes()).join(', ');
+      throw new Error(`Invalid mode: ${mode}. Must be one of: ${validModes}`);
+    }
+  }
+
   private async loadConfiguration(configPath?: string): Promise<WorkflowConfig> {
     const defaultConfigPath = './config/demo-config.json';
     const finalConfigPath = configPath || defaultConfigPath;
@@ -110,7 +252,7 @@ class ScreenshotAutomationCLI {
       const configContent = await fs.readFile(finalConfigPath, 'utf8');
       const config = JSON.parse(configContent) as WorkflowConfig;
 
-      console.log(`📋 Loaded configuration from ${finalConfigPath}`);
+      this.logger.info(`📋 Loaded configuration from ${finalConfigPath}`);
       return config;
 
     } catch (error) {
@@ -126,130 +268,142 @@ class ScreenshotAutomationCLI {
     return tempWorkflow.validateConfiguration();
   }
 
-  private async executeMode(mode: WorkflowMode): Promise<void> {
+  private async executeMode(mode: WorkflowMode | string, resume: boolean): Promise<void> {
     if (!this.workflow) {
       throw new Error('Workflow not initialized');
     }
 
     switch (mode) {
       case WorkflowMode.MONITOR:
-        await this.runContinuousMonitoring();
+        await this.runContinuousMonitoring(resume);
         break;
 
       case WorkflowMode.TRIGGER:
-        await this.runManualTrigger();
+        await this.runManualTrigger(resume);
         break;
 
       case WorkflowMode.SCHEDULE:
-        await this.runScheduledExecution();
+        await this.runScheduledExecution(resume);
+        break;
+
+      default:
+        await this.runCustomMode(mode, resume);
         break;
     }
   }
 
-  private async runContinuousMonitoring(): Promise<void> {
+  private async runContinuousMonitoring(resume: boolean): Promise<void> {
     if (!this.workflow) return;
 
-    console.log('🔄 Starting continuous monitoring mode...');
-    console.log('   Press Ctrl+C to stop');
+    this.logger.info('🔄 Starting continuous monitoring mode... Press Ctrl+C to stop');
 
     try {
       // Initialize with monitor mode (default)
-      await this.workflow.initialize(WorkflowMode.MONITOR);
+      await this.workflow.initialize(WorkflowMode.MONITOR, undefined, { resume });
       await this.workflow.start();
     } catch (error) {
-      console.error(`Monitoring failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error(`Monitoring failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw error;
     }
   }
 
-  private async runManualTrigger(): Promise<void> {
+  private async runManualTrigger(resume: boolean): Promise<void> {
     if (!this.workflow) return;
 
-    console.log('🔧 Running manual trigger...');
+    this.logger.info('🔧 Running manual trigger...');
 
     try {
       // Initialize with trigger mode
-      await this.workflow.initialize(WorkflowMode.TRIGGER);
+      await this.workflow.initialize(WorkflowMode.TRIGGER, undefined, { resume });
 
       // Start the workflow - it will begin at CHANGE_DETECTION
       await this.workflow.start();
 
       // Wait for completion - the state machine will stop automatically after AUDIT_COMPLETE
-      await new Promise<void>((resolve) => {
-        const checkStatus = async () => {
-          const status = this.workflow?.getStatus();
-
-          // Check if state machine has stopped (not running anymore)
-          if (!status?.isRunning) {
-            console.log('✅ Manual trigger completed');
-            resolve();
-          } else {
-            setTimeout(checkStatus, 1000);
-          }
-        };
-
-        checkStatus();
-      });
+      await this.waitUntilStopped('✅ Manual trigger completed');
 
       // No need to explicitly stop - the state machine stops itself
 
     } catch (error) {
-      console.error(`Manual trigger failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error(`Manual trigger failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw error;
     }
   }
 
-  private async runScheduledExecution(): Promise<void> {
+  private async runScheduledExecution(resume: boolean): Promise<void> {
     if (!this.workflow) return;
 
-    console.log('📅 Running scheduled execution...');
-    console.log('   Will wait for schedule time, then run once and exit');
+    this.logger.info('📅 Running scheduled execution... Will wait for schedule time, then run once and exit');
 
     try {
       // Initialize with schedule mode
-      await this.workflow.initialize(WorkflowMode.SCHEDULE);
+      await this.workflow.initialize(WorkflowMode.SCHEDULE, undefined, { resume });
 
       // Start the workflow - it will begin at MONITORING, wait for schedule, then complete
       await this.workflow.start();
 
       // Wait for completion - the state machine will stop automatically after SCHEDULE_COMPLETE
-      await new Promise<void>((resolve) => {
-        const checkStatus = async () => {
-          const status = this.workflow?.getStatus();
-
-          // Check if state machine has stopped (not running anymore)
-          if (!status?.isRunning) {
-            console.log('✅ Scheduled execution completed');
-            resolve();
-          } else {
-            setTimeout(checkStatus, 1000);
-          }
-        };
-
-        checkStatus();
-      });
+      await this.waitUntilStopped('✅ Scheduled execution completed');
 
       // No need to explicitly stop - the state machine stops itself
 
     } catch (error) {
-      console.error(`Scheduled execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error(`Scheduled execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw error;
     }
   }
 
+  private async runCustomMode(mode: string, resume: boolean): Promise<void> {
+    if (!this.workflow) return;
+
+    this.logger.info(`▶️  Running custom '${mode}' mode...`);
+
+    try {
+      await this.workflow.initialize(mode, undefined, { resume });
+      await this.workflow.start();
+
+      // Wait until the mode reaches a state without transitions
+      await this.waitUntilStopped(`✅ '${mode}' mode completed`);
+
+    } catch (error) {
+      this.logger.error(`'${mode}' mode failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve once the workflow's state machine has stopped, which single-run
+   * modes do by themselves on reaching their completion state
+   */
+  private async waitUntilStopped(completedMessage: string): Promise<void> {
+    while (this.workflow?.getStatus().isRunning) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    this.logger.info(completedMessage);
+  }
+
   private setupSignalHandlers(): void {
+    let shuttingDown = false;
     const gracefulShutdown = async (signal: string) => {
-      console.log(`\n📤 Received ${signal}, shutting down gracefully...`);
+      if (shuttingDown) {
+        this.logger.warn(`⚠️  Received ${signal} again, exiting immediately`);
+        process.exit(1);
+      }
+      shuttingDown = true;
+
+      this.logger.info(`📤 Received ${signal}, shutting down gracefully... Press Ctrl+C again to exit immediately`);
 
       if (this.workflow) {
         try {
-          await this.workflow.stop();
-          console.log('✅ Workflow stopped successfully');
+          // Aborts in-flight page loads and waits instead of finishing the capture
+          await this.workflow.cancel(`Received ${signal}`);
+          this.logger.info('✅ Workflow stopped successfully');
         } catch (error) {
-          console.error(`Error stopping workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          this.logger.error(`Error stopping workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
       }
 
+      await this.stopServers();
       process.exit(0);
     };
 
@@ -257,7 +411,7 @@ class ScreenshotAutomationCLI {
     process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 
     process.on('uncaughtException', (error) => {
-      console.error('❌ Uncaught exception:', error);
+      this.logger.error('❌ Uncaught exception', { error });
       if (this.workflow) {
         this.workflow.stop().finally(() => process.exit(1));
       } else {
@@ -266,7 +420,7 @@ class ScreenshotAutomationCLI {
     });
 
     process.on('unhandledRejection', (reason) => {
-      console.error('❌ Unhandled rejection:', reason);
+      this.logger.error('❌ Unhandled rejection', { reason });
       if (this.workflow) {
         this.workflow.stop().finally(() => process.exit(1));
       } else {
@@ -286,20 +440,39 @@ USAGE:
   tsx src/index.ts [OPTIONS]        # Direct execution
 
 OPTIONS:
-  --mode, -m <mode>                 # Execution mode: 'monitor', 'trigger', 'schedule' (default: monitor)
+  --mode, -m <mode>                 # Execution mode: 'monitor', 'trigger', 'schedule' or a custom mode (default: monitor)
   --config, -c <path>               # Configuration file path (default: ./config/demo-config.json)
-  --verbose, -v                     # Enable verbose logging
+  --verbose, -v                     # Enable debug logging (same as --log-level=debug)
+  --log-level <level>               # Minimum level: debug, info, warn or error (default: info)
+  --log-format <format>             # 'text' lines or 'json' lines with cycleId and state fields (default: text)
+  --resume                          # Resume from the last snapshot of the selected mode
+  --metrics-port <port>             # Serve Prometheus metrics on http://0.0.0.0:<port>/metrics (off by default)
+  --trace-file <path>               # Append one OTLP/JSON trace per cycle to this file (off by default)
+  --api-port <port>                 # Serve the control API on this port (off by default)
+  --api-host <host>                 # Interface for the control API (default: localhost)
   --help, -h                        # Show this help message
 
+ENVIRONMENT:
+  CONTROL_API_TOKEN                 # Bearer token required by the control API
+
 MODES:
   monitor                           # Continuous monitoring with scheduled intervals
   trigger                           # Manual one-time trigger and exit
   schedule                          # Wait for schedule time, run once, then exit
+  baseline-only                     # Capture fresh baselines without comparing
+  audit-only                        # Quality audit of the existing baselines
+  diff-report                       # Report changes without promoting baselines
+  (further modes can be declared in src/workflows/config/workflow-config.json)
 
 EXAMPLES:
   tsx src/index.ts --mode=monitor   # Start continuous monitoring
   tsx src/index.ts --mode=trigger   # Run manual trigger once
   tsx src/index.ts --mode=schedule  # Wait for schedule, run once, and exit
+  tsx src/index.ts --mode=monitor --resume  # Continue an interrupted monitoring cycle
+  tsx src/index.ts --mode=trigger --log-format=json  # Machine-readable logs for a log shipper
+  tsx src/index.ts --mode=monitor --metrics-port=9464  # Monitor with a Prometheus scrape endpoint
+  tsx src/index.ts --mode=trigger --trace-file=output/traces.jsonl  # Find slow pages and viewports
+  CONTROL_API_TOKEN=secret tsx src/index.ts --mode=monitor --api-port=8080  # Monitor with a control API
 
 For more information, see README.md
     `);
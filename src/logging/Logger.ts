@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Ordered from most to least verbose */
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+];
+
+export type LogFormat = 'text' | 'json';
+
+export const LOG_FORMATS: readonly LogFormat[] = ['text', 'json'];
+
+/** Structured values attached to a log line, e.g. { cycleId, state } */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * The logger handed to states through StateContext. Fields are optional, so
+ * any object with these four methods can be plugged in.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LogRecord {
+  timestamp: Date;
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+}
+
+/**
+ * Destination for log records that passed the level filter
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+export function isLogFormat(value: string): value is LogFormat {
+  return (LOG_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Short random ID tying together the log lines of one workflow cycle
+ */
+export function createCorrelationId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/**
+ * Wrap any logger so every line carries fields computed at log time, e.g.
+ * the active state. Fields passed to the call win over computed ones.
+ */
+export function withLogContext(
+  logger: Logger,
+  context: () => LogFields
+): Logger {
+  const forward =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void =>
+      logger[level](message, { ...context(), ...fields });
+
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+  };
+}
@@ -0,0 +1,135 @@
+import {
+  LOG_LEVELS,
+  LogFields,
+  LogFormat,
+  LogLevel,
+  LogRecord,
+  LogSink,
+  Logger,
+} from './Logger.js';
+
+export interface StructuredLoggerOptions {
+  /** Records below this level are dropped (default: info) */
+  level?: LogLevel;
+  /** Used by the default sink (default: text) */
+  format?: LogFormat;
+  /** Replaces the default stdout/stderr sink */
+  sink?: LogSink;
+  /** Fields added to every record */
+  fields?: LogFields;
+}
+
+/**
+ * Writes records to stdout (debug, info) and stderr (warn, error), either as
+ * the classic "[INFO] timestamp - message" lines or as JSON lines
+ */
+export class StreamSink implements LogSink {
+  constructor(private readonly format: LogFormat = 'text') {}
+
+  write(record: LogRecord): void {
+    const stream =
+      record.level === 'warn' || record.level === 'error'
+        ? process.stderr
+        : process.stdout;
+    stream.write(`${this.formatRecord(record)}\n`);
+  }
+
+  formatRecord(record: LogRecord): string {
+    const fields = Object.entries(record.fields).filter(
+      ([, value]) => value !== undefined
+    );
+
+    if (this.format === 'json') {
+      return JSON.stringify({
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        message: record.message,
+        ...Object.fromEntries(
+          fields.map(([key, value]) => [key, serializeValue(value)])
+        ),
+      });
+    }
+
+    const suffix = fields.length
+      ? ` (${fields.map(([key, value]) => `${key}=${formatTextValue(value)}`).join(' ')})`
+      : '';
+    return `[${record.level.toUpperCase()}] ${record.timestamp.toISOString()} - ${record.message}${suffix}`;
+  }
+}
+
+/**
+ * Level-filtered logger that attaches structured fields to every record and
+ * hands it to a pluggable sink
+ */
+export class StructuredLogger implements Logger {
+  private readonly sink: LogSink;
+  private readonly minLevel: number;
+
+  constructor(private readonly options: StructuredLoggerOptions = {}) {
+    this.sink = options.sink ?? new StreamSink(options.format);
+    this.minLevel = LOG_LEVELS.indexOf(options.level ?? 'info');
+  }
+
+  /**
+   * A logger sharing this one's sink and level, with extra fields on every
+   * record
+   */
+  child(fields: LogFields): StructuredLogger {
+    return new StructuredLogger({
+      ...this.options,
+      sink: this.sink,
+      fields: { ...this.options.fields, ...fields },
+    });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.minLevel;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    this.sink.write({
+      timestamp: new Date(),
+      level,
+      message,
+      fields: { ...this.options.fields, ...fields },
+    });
+  }
+}
+
+function serializeValue(value: unknown): unknown {
+  return value instanceof Error
+    ? { name: value.name, message: value.message }
+    : value;
+}
+
+function formatTextValue(value: unknown): string {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+}
@@ -0,0 +1,248 @@
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Upper bounds in seconds, spanning quick states such as DISTRIBUTION up to
+ * a monitoring wait of an hour
+ */
+export const DEFAULT_DURATION_BUCKETS: readonly number[] = [
+  0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 3600,
+];
+
+export interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  /** Sample lines in Prometheus text format, without HELP and TYPE */
+  collect(): string[];
+}
+
+abstract class LabelledMetric<TValue> implements Metric {
+  abstract readonly type: MetricType;
+  protected readonly values = new Map<
+    string,
+    { labels: MetricLabels; value: TValue }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  abstract collect(): string[];
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  protected entry(
+    labels: MetricLabels,
+    initial: () => TValue
+  ): { labels: MetricLabels; value: TValue } {
+    const key = formatLabels(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends LabelledMetric<number> {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+    this.entry(labels, () => 0).value += value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  collect(): string[] {
+    return [...this.values.values()].map(({ labels, value }) =>
+      formatSample(this.name, labels, value)
+    );
+  }
+}
+
+export class Gauge extends LabelledMetric<number> {
+  readonly type = 'gauge';
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: MetricLabels = {}): number | undefined {
+    return this.values.get(formatLabels(labels))?.value;
+  }
+
+  collect(): string[] {
+    return [...this.values.values()].map(({ labels, value }) =>
+      formatSample(this.name, labels, value)
+    );
+  }
+}
+
+interface HistogramValue {
+  /** Per-bucket counts, not cumulative */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  readonly type = 'histogram';
+  private readonly buckets: readonly number[];
+
+  constructor(
+    name: string,
+    help: string,
+    buckets: readonly number[] = DEFAULT_DURATION_BUCKETS
+  ) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const entry = this.entry(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index !== -1) {
+      entry.buckets[index]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  get(labels: MetricLabels = {}): { sum: number; count: number } {
+    const entry = this.values.get(formatLabels(labels))?.value;
+    return { sum: entry?.sum ?? 0, count: entry?.count ?? 0 };
+  }
+
+  collect(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, value } of this.values.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += value.buckets[index];
+        lines.push(
+          formatSample(
+            `${this.name}_bucket`,
+            { ...labels, le: String(bound) },
+            cumulative
+          )
+        );
+      });
+      lines.push(
+        formatSample(
+          `${this.name}_bucket`,
+          { ...labels, le: '+Inf' },
+          value.count
+        ),
+        formatSample(`${this.name}_sum`, labels, value.sum),
+        formatSample(`${this.name}_count`, labels, value.count)
+      );
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Holds the metrics of one process and renders them in the Prometheus text
+ * exposition format (version 0.0.4)
+ */
+export class MetricsRegistry {
+  static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private readonly metrics = new Map<string, Metric>();
+
+  register<T extends Metric>(metric: T): T {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(metric.name)) {
+      throw new Error(`Invalid metric name: ${metric.name}`);
+    }
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    buckets?: readonly number[]
+  ): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  getMetric(name: string): Metric | undefined {
+    return this.metrics.get(name);
+  }
+
+  render(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(
+        `# HELP ${metric.name} ${escapeHelp(metric.help)}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.collect()
+      );
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map(key => `${key}="${escapeLabelValue(labels[key])}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return escapeHelp(value).replace(/"/g, '\\"');
+}
+
+function formatSample(
+  name: string,
+  labels: MetricLabels,
+  value: number
+): string {
+  return `${name}${formatLabels(labels)} ${formatNumber(value)}`;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
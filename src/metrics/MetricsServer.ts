@@ -0,0 +1,71 @@
+import express from 'express';
+import { Server } from 'http';
+import { MetricsRegistry } from './MetricsRegistry.js';
+
+export interface MetricsServerConfig {
+  /** 0 picks a free port, see getPort() */
+  port: number;
+  host: string;
+  path: string;
+}
+
+/**
+ * Serves a metrics registry for Prometheus to scrape
+ */
+export class MetricsServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private config: MetricsServerConfig;
+
+  constructor(
+    private readonly registry: MetricsRegistry,
+    config: Partial<MetricsServerConfig> = {}
+  ) {
+    this.config = {
+      port: 9464,
+      host: '0.0.0.0',
+      path: '/metrics',
+      ...config,
+    };
+
+    this.app = express();
+    this.app.get(this.config.path, (req, res) => {
+      res.type(MetricsRegistry.CONTENT_TYPE).send(this.registry.render());
+    });
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.config.port, this.config.host, () => {
+        resolve();
+      });
+      this.server = server;
+
+      server.on('error', (error: Error) => {
+        this.server = null;
+        reject(new Error(`Metrics server failed to start: ${error.message}`));
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (this.server) {
+        this.server.close(() => resolve());
+        this.server = null;
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  /** The port actually listened on, once started */
+  getPort(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  getConfig(): MetricsServerConfig {
+    return { ...this.config };
+  }
+}
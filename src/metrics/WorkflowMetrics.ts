@@ -0,0 +1,109 @@
+import { StateMachineObserver } from '../state-machine/StateMachineObserver.js';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+} from './MetricsRegistry.js';
+
+/**
+ * Workflow health metrics. States record their outcomes through
+ * StateContext.metrics; cycles and state durations come from the observer
+ * returned by createObserver().
+ */
+export class WorkflowMetrics {
+  private readonly cycles: Counter;
+  private readonly stateDuration: Histogram;
+  private readonly screenshotsCaptured: Counter;
+  private readonly imagesCompared: Counter;
+  private readonly changedImages: Counter;
+  private readonly qualityChecks: Counter;
+  private readonly qualityPassRate: Gauge;
+  private readonly syncFailures: Counter;
+  private readonly retries: Counter;
+
+  constructor(readonly registry: MetricsRegistry = new MetricsRegistry()) {
+    this.cycles = registry.counter(
+      'screenshot_workflow_cycles_total',
+      'Workflow cycles that reached the completion state of their mode'
+    );
+    this.stateDuration = registry.histogram(
+      'screenshot_workflow_state_duration_seconds',
+      'Time spent in a state, from entering it to the transition out of it'
+    );
+    this.screenshotsCaptured = registry.counter(
+      'screenshot_workflow_screenshots_captured_total',
+      'Screenshots captured by recipe execution'
+    );
+    this.imagesCompared = registry.counter(
+      'screenshot_workflow_images_compared_total',
+      'Screenshots compared against their baselines'
+    );
+    this.changedImages = registry.counter(
+      'screenshot_workflow_changed_images_total',
+      'Screenshots that differed from their baselines'
+    );
+    this.qualityChecks = registry.counter(
+      'screenshot_workflow_quality_checks_total',
+      'Screenshots audited for quality, by result'
+    );
+    this.qualityPassRate = registry.gauge(
+      'screenshot_workflow_quality_pass_ratio',
+      'Share of screenshots that passed the most recent quality audit'
+    );
+    this.syncFailures = registry.counter(
+      'screenshot_workflow_sync_failures_total',
+      'Failed attempts to update baselines and distribute screenshots'
+    );
+    this.retries = registry.counter(
+      'screenshot_workflow_retries_total',
+      'Retries scheduled by a state after a failed attempt'
+    );
+  }
+
+  recordScreenshotsCaptured(count: number): void {
+    this.screenshotsCaptured.inc({}, count);
+  }
+
+  recordChangeDetection(compared: number, changed: number): void {
+    this.imagesCompared.inc({}, compared);
+    this.changedImages.inc({}, changed);
+  }
+
+  recordQualityAudit(passed: number, failed: number): void {
+    this.qualityChecks.inc({ result: 'passed' }, passed);
+    this.qualityChecks.inc({ result: 'failed' }, failed);
+    if (passed + failed > 0) {
+      this.qualityPassRate.set(passed / (passed + failed));
+    }
+  }
+
+  recordSyncFailure(): void {
+    this.syncFailures.inc();
+  }
+
+  recordRetry(state: string): void {
+    this.retries.inc({ state });
+  }
+
+  /**
+   * Observer for one state machine running the given mode. A cycle counts as
+   * run when the machine transitions into the mode's completion state.
+   */
+  createObserver(mode: string, completionState: string): StateMachineObserver {
+    return {
+      onTransition: ({ from, timing }): void => {
+        this.stateDuration.observe(timing.timeInSourceMs / 1000, {
+          mode,
+          state: from,
+        });
+      },
+      onStateEnter: (state, event): void => {
+        // event is null when the machine starts in (or restores) the state
+        if (event && state === completionState) {
+          this.cycles.inc({ mode });
+        }
+      },
+    };
+  }
+}
@@ -3,6 +3,7 @@ import path from 'path';
 import sharp from 'sharp';
 import pixelmatch from 'pixelmatch';
 import { PNG } from 'pngjs';
+import { Span, traceActive } from '../tracing/Tracer.js';
 
 export interface ChangeDetectionOptions {
   threshold?: number;
@@ -43,6 +44,32 @@ export class ChangeDetector {
     baselinePath: string,
     currentPath: string,
     options: ChangeDetectionOptions = {}
+  ): Promise<ChangeDetectionResult> {
+    return traceActive(
+      'compareImages',
+      { 'image.baseline': baselinePath, 'image.current': currentPath },
+      async span => {
+        const result = await this.compareImageFiles(
+          baselinePath,
+          currentPath,
+          options,
+          span
+        );
+        span?.setAttributes({
+          'change.pixels': result.pixelDifference,
+          'change.percentage': result.percentageDifference,
+          'change.detected': result.hasChanged,
+        });
+        return result;
+      }
+    );
+  }
+
+  private async compareImageFiles(
+    baselinePath: string,
+    currentPath: string,
+    options: ChangeDetectionOptions,
+    span: Span | undefined
   ): Promise<ChangeDetectionResult> {
     const mergedOptions = { ...this.defaultOptions, ...options };
     const filename = path.basename(currentPath);
@@ -108,7 +135,9 @@ export class ChangeDetector {
         hasChanged,
         timestamp: new Date(),
       };
-    } catch {
+    } catch (error) {
+      // Unreadable images count as unchanged, but show up in the trace
+      span?.recordError(error);
       return {
         filename,
         baselinePath,
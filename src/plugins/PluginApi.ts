@@ -0,0 +1,36 @@
+import { BaseState } from '../state-machine/State.js';
+import { RecipeStepHandler } from '../screenshot/RecipeEngine.js';
+import { QualityCheckDefinition } from '../screenshot/QualityValidator.js';
+import { DistributionTarget } from '../distribution/DistributionRegistry.js';
+import { GuardDefinition } from '../workflows/GuardRegistry.js';
+
+/**
+ * Bumped whenever PluginApi changes incompatibly. Plugins declare the version
+ * they were written against and are rejected on a mismatch.
+ */
+export const PLUGIN_API_VERSION = 1;
+
+/**
+ * Registration hooks handed to each plugin's register() function
+ */
+export interface PluginApi {
+  readonly version: number;
+  /** Make a state class available to stateMapping in workflow-config.json */
+  registerState(className: string, StateClass: new () => BaseState): void;
+  /** Add a recipe step type; built-in types cannot be replaced */
+  registerRecipeStep(type: string, handler: RecipeStepHandler): void;
+  registerQualityCheck(check: QualityCheckDefinition): void;
+  registerDistributionTarget(target: DistributionTarget): void;
+  /** Add a named guard for declarative transitions */
+  registerGuard(name: string, definition: GuardDefinition): void;
+}
+
+/**
+ * Shape of a plugin module's default export
+ */
+export interface ScreenshotPlugin {
+  name: string;
+  /** The PLUGIN_API_VERSION the plugin was written against */
+  apiVersion: number;
+  register(api: PluginApi): void | Promise<void>;
+}
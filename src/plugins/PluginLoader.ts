@@ -0,0 +1,116 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  PLUGIN_API_VERSION,
+  PluginApi,
+  ScreenshotPlugin,
+} from './PluginApi.js';
+
+export interface LoadedPlugin {
+  name: string;
+  specifier: string;
+}
+
+/**
+ * Imports plugin modules and lets each register its extensions. A module is
+ * only loaded once per process, however often it is listed.
+ */
+export class PluginLoader {
+  private static loaded = new Map<string, LoadedPlugin>();
+
+  /**
+   * Load plugins in order. Relative specifiers are resolved against baseDir;
+   * anything else is imported as a package name.
+   */
+  static async load(
+    specifiers: string[],
+    api: PluginApi,
+    baseDir: string = process.cwd()
+  ): Promise<LoadedPlugin[]> {
+    const plugins: LoadedPlugin[] = [];
+
+    for (const specifier of specifiers) {
+      plugins.push(await this.loadPlugin(specifier, api, baseDir));
+    }
+
+    return plugins;
+  }
+
+  static getLoadedPlugins(): LoadedPlugin[] {
+    return [...this.loaded.values()];
+  }
+
+  /**
+   * Turn a file path into an importable URL; package names pass through
+   */
+  static resolveSpecifier(specifier: string, baseDir: string): string {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return pathToFileURL(path.resolve(baseDir, specifier)).href;
+    }
+    return specifier;
+  }
+
+  private static async loadPlugin(
+    specifier: string,
+    api: PluginApi,
+    baseDir: string
+  ): Promise<LoadedPlugin> {
+    const resolved = this.resolveSpecifier(specifier, baseDir);
+    const existing = this.loaded.get(resolved);
+    if (existing) {
+      return existing;
+    }
+
+    let plugin: ScreenshotPlugin;
+    try {
+      const module = (await import(resolved)) as { default?: unknown };
+      plugin = this.validatePlugin(module.default);
+    } catch (error) {
+      throw new Error(
+        `Failed to load plugin ${specifier}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const duplicate = [...this.loaded.values()].find(
+      loaded => loaded.name === plugin.name
+    );
+    if (duplicate) {
+      throw new Error(
+        `Plugin name ${plugin.name} from ${specifier} is already used by ${duplicate.specifier}`
+      );
+    }
+
+    try {
+      await plugin.register(api);
+    } catch (error) {
+      throw new Error(
+        `Plugin ${plugin.name} failed to register: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const loaded = { name: plugin.name, specifier };
+    this.loaded.set(resolved, loaded);
+    return loaded;
+  }
+
+  private static validatePlugin(candidate: unknown): ScreenshotPlugin {
+    const plugin = candidate as Partial<ScreenshotPlugin> | undefined;
+
+    if (!plugin || typeof plugin !== 'object') {
+      throw new Error('module has no default export');
+    }
+    if (typeof plugin.name !== 'string' || !plugin.name) {
+      throw new Error('plugin must have a name');
+    }
+    if (typeof plugin.register !== 'function') {
+      throw new Error(`plugin ${plugin.name} has no register() function`);
+    }
+    if (plugin.apiVersion !== PLUGIN_API_VERSION) {
+      throw new Error(
+        `plugin ${plugin.name} targets plugin API v${String(plugin.apiVersion)}, but v${PLUGIN_API_VERSION} is supported`
+      );
+    }
+
+    return plugin as ScreenshotPlugin;
+  }
+}
@@ -0,0 +1,207 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+
+export interface BrowserPoolOptions {
+  /** Pages in use at the same time (default: 4) */
+  concurrency: number;
+  /**
+   * Pages are closed and replaced after this many uses, which keeps memory
+   * held by long-lived pages in check (default: 50)
+   */
+  maxPageUses: number;
+  /** Starts the shared browser; defaults to a headless puppeteer launch */
+  launch: () => Promise<Browser>;
+}
+
+export interface BrowserPoolStats {
+  active: number;
+  idle: number;
+  waiting: number;
+  /** Browsers launched so far, including relaunches after crashes */
+  launches: number;
+  crashes: number;
+}
+
+const launchHeadless = (): Promise<Browser> =>
+  puppeteer.launch({
+    headless: 'new',
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  });
+
+/**
+ * One shared browser with a bounded set of reusable pages. The browser is
+ * launched on first use and relaunched when it crashes, so a pool can live
+ * as long as the workflow that owns it.
+ */
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions;
+  private browser: Promise<Browser> | null = null;
+  private readonly idle: Page[] = [];
+  private readonly uses = new Map<Page, number>();
+  private readonly waiting: Array<() => void> = [];
+  private active = 0;
+  private launches = 0;
+  private crashes = 0;
+  /** Bumped by close(), so launches and crashes of older browsers are ignored */
+  private generation = 0;
+
+  constructor(options: Partial<BrowserPoolOptions> = {}) {
+    this.options = {
+      concurrency: options.concurrency ?? 4,
+      maxPageUses: options.maxPageUses ?? 50,
+      launch: options.launch ?? launchHeadless,
+    };
+
+    if (
+      !Number.isInteger(this.options.concurrency) ||
+      this.options.concurrency < 1
+    ) {
+      throw new Error(
+        `Browser pool concurrency must be a positive integer, got ${this.options.concurrency}`
+      );
+    }
+  }
+
+  /**
+   * Run fn on a pooled page. When the browser crashes while fn is running,
+   * fn is retried once on a relaunched browser.
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    const crashes = this.crashes;
+    try {
+      return await this.runOnPage(fn);
+    } catch (error) {
+      if (this.crashes === crashes) {
+        throw error;
+      }
+      // The browser disconnected underneath fn; start over on a new one
+      return this.runOnPage(fn);
+    }
+  }
+
+  /**
+   * Close the browser and every page. The pool stays usable; the next
+   * withPage() launches a new browser.
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    this.generation++;
+    this.idle.length = 0;
+    this.uses.clear();
+
+    if (browser) {
+      const instance = await browser.catch(() => null);
+      await instance?.close();
+    }
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      active: this.active,
+      idle: this.idle.length,
+      waiting: this.waiting.length,
+      launches: this.launches,
+      crashes: this.crashes,
+    };
+  }
+
+  getConcurrency(): number {
+    return this.options.concurrency;
+  }
+
+  private async runOnPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    let page: Page | null = null;
+    try {
+      page = await this.takePage();
+      return await fn(page);
+    } finally {
+      if (page) {
+        await this.returnPage(page);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    while (this.active >= this.options.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private async takePage(): Promise<Page> {
+    let page = this.idle.pop();
+    while (page && page.isClosed()) {
+      this.uses.delete(page);
+      page = this.idle.pop();
+    }
+    if (page) {
+      return page;
+    }
+
+    const browser = await this.getBrowser();
+    const created = await browser.newPage();
+    this.uses.set(created, 0);
+    return created;
+  }
+
+  private async returnPage(page: Page): Promise<void> {
+    const uses = (this.uses.get(page) ?? 0) + 1;
+    if (page.isClosed() || !this.uses.has(page)) {
+      // Closed by an abort, or left over from a browser that has since gone
+      this.uses.delete(page);
+      return;
+    }
+
+    if (uses >= this.options.maxPageUses) {
+      this.uses.delete(page);
+      await page.close().catch(() => undefined);
+      return;
+    }
+
+    this.uses.set(page, uses);
+    this.idle.push(page);
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launching = this.launchBrowser(this.generation);
+      this.browser = launching;
+      // A failed launch is retried by the next caller
+      launching.catch(() => {
+        if (this.browser === launching) {
+          this.browser = null;
+        }
+      });
+    }
+    return this.browser;
+  }
+
+  private async launchBrowser(generation: number): Promise<Browser> {
+    const browser = await this.options.launch();
+    this.launches++;
+
+    if (generation !== this.generation) {
+      await browser.close();
+      throw new Error('Browser pool was closed');
+    }
+
+    browser.on('disconnected', () => {
+      // Browsers closed by close() belong to an older generation
+      if (generation === this.generation) {
+        this.crashes++;
+        this.browser = null;
+        this.idle.length = 0;
+        this.uses.clear();
+      }
+    });
+
+    return browser;
+  }
+}
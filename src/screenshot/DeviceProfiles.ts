@@ -0,0 +1,178 @@
+import type { Viewport } from './ScreenshotService.js';
+
+/**
+ * An entry of screenshots.viewports: a full viewport, or the name of a
+ * built-in profile, optionally followed by " landscape"
+ */
+export type ViewportEntry = Viewport | string;
+
+const IOS_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const IPAD_USER_AGENT =
+  'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_USER_AGENT =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+
+/**
+ * Built-in profiles, in portrait orientation. Sizes are in CSS pixels; the
+ * captured image is deviceScaleFactor times larger.
+ */
+export const DEVICE_PROFILES: Record<string, Viewport> = {
+  'iPhone SE': {
+    name: 'iPhone SE',
+    width: 375,
+    height: 667,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: IOS_USER_AGENT,
+  },
+  'iPhone 15': {
+    name: 'iPhone 15',
+    width: 393,
+    height: 852,
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: IOS_USER_AGENT,
+  },
+  'iPhone 15 Pro Max': {
+    name: 'iPhone 15 Pro Max',
+    width: 430,
+    height: 932,
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: IOS_USER_AGENT,
+  },
+  'Pixel 8': {
+    name: 'Pixel 8',
+    width: 412,
+    height: 915,
+    deviceScaleFactor: 2.625,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: ANDROID_USER_AGENT,
+  },
+  'iPad Mini': {
+    name: 'iPad Mini',
+    width: 768,
+    height: 1024,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: IPAD_USER_AGENT,
+  },
+  'iPad Pro 11': {
+    name: 'iPad Pro 11',
+    width: 834,
+    height: 1194,
+    deviceScaleFactor: 2,
+    isMobile: true,
+    hasTouch: true,
+    userAgent: IPAD_USER_AGENT,
+  },
+  'Desktop HD': {
+    name: 'Desktop HD',
+    width: 1920,
+    height: 1080,
+  },
+  /** A 1080p layout rendered at 2x, giving 3840x2160 images */
+  'Desktop 4K': {
+    name: 'Desktop 4K',
+    width: 1920,
+    height: 1080,
+    deviceScaleFactor: 2,
+  },
+};
+
+const LANDSCAPE_SUFFIX = / landscape$/i;
+
+/**
+ * Resolves viewport entries against the built-in device catalog
+ */
+export class DeviceProfiles {
+  static getProfileNames(): string[] {
+    return Object.keys(DEVICE_PROFILES);
+  }
+
+  /**
+   * Look up a profile by name, ignoring case. "<name> landscape" swaps its
+   * width and height.
+   */
+  static get(name: string): Viewport | undefined {
+    const landscape = LANDSCAPE_SUFFIX.test(name);
+    const baseName = name.replace(LANDSCAPE_SUFFIX, '').trim().toLowerCase();
+    const profile = Object.values(DEVICE_PROFILES).find(
+      candidate => candidate.name.toLowerCase() === baseName
+    );
+
+    if (!profile || !landscape) {
+      return profile ? { ...profile } : undefined;
+    }
+
+    return {
+      ...profile,
+      name: `${profile.name} landscape`,
+      width: profile.height,
+      height: profile.width,
+      isLandscape: true,
+    };
+  }
+
+  static resolve(entry: ViewportEntry): Viewport {
+    if (typeof entry !== 'string') {
+      return entry;
+    }
+
+    const profile = this.get(entry);
+    if (!profile) {
+      throw new Error(
+        `Unknown device profile: ${entry} (available: ${this.getProfileNames().join(', ')})`
+      );
+    }
+    return profile;
+  }
+
+  static resolveAll(entries: ViewportEntry[]): Viewport[] {
+    return entries.map(entry => this.resolve(entry));
+  }
+
+  /** Device pixels per CSS pixel of images captured with the viewport */
+  static getScaleFactor(viewport: Viewport): number {
+    return viewport.deviceScaleFactor ?? 1;
+  }
+
+  /**
+   * Configuration errors in screenshots.viewports
+   */
+  static validate(entries: ViewportEntry[]): string[] {
+    const errors: string[] = [];
+
+    entries.forEach((entry, index) => {
+      if (typeof entry === 'string') {
+        if (!this.get(entry)) {
+          errors.push(
+            `Viewport ${index}: unknown device profile '${entry}' (available: ${this.getProfileNames().join(', ')})`
+          );
+        }
+        return;
+      }
+
+      if (!(entry.width > 0) || !(entry.height > 0)) {
+        errors.push(`Viewport ${index}: width and height must be positive`);
+      }
+      if (
+        entry.deviceScaleFactor !== undefined &&
+        !(
+          Number.isFinite(entry.deviceScaleFactor) &&
+          entry.deviceScaleFactor > 0
+        )
+      ) {
+        errors.push(`Viewport ${index}: deviceScaleFactor must be positive`);
+      }
+    });
+
+    return errors;
+  }
+}
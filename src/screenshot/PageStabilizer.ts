@@ -0,0 +1,226 @@
+import { Page } from 'puppeteer';
+
+/**
+ * Steps that make repeated captures of the same page pixel-identical. Each
+ * one is on unless set to false.
+ */
+export interface StabilizationOptions {
+  /** Finish CSS animations and transitions at their end state */
+  disableAnimations?: boolean;
+  /**
+   * Pin Date and Date.now() before page scripts run: true uses
+   * DEFAULT_FROZEN_TIME, a string sets the instant (ISO 8601)
+   */
+  freezeTime?: boolean | string;
+  /** Make the text caret of focused inputs transparent */
+  hideCaret?: boolean;
+  /** Wait until document.fonts reports every web font as loaded */
+  waitForFonts?: boolean;
+}
+
+export type MaskStyle = 'blank' | 'blur';
+
+export interface MaskRule {
+  /** Every element matching one of these is masked */
+  selectors: string[];
+  /** blank covers the element with a solid box; blur blurs it (default: blank) */
+  style?: MaskStyle;
+  /** Fill of blank masks (default: #808080) */
+  color?: string;
+  /** Blur radius in CSS pixels (default: 16) */
+  blurRadius?: number;
+  /** Recipe filenames the rule applies to; every target when omitted */
+  targets?: string[];
+}
+
+export const DEFAULT_FROZEN_TIME = '2020-01-01T00:00:00.000Z';
+
+const MASK_STYLES: MaskStyle[] = ['blank', 'blur'];
+
+const STABILIZE_CSS = `
+*, *::before, *::after {
+  animation-duration: 0s !important;
+  animation-delay: 0s !important;
+  animation-iteration-count: 1 !important;
+  transition: none !important;
+  scroll-behavior: auto !important;
+}`;
+
+const HIDE_CARET_CSS = `
+*, *::before, *::after {
+  caret-color: transparent !important;
+}`;
+
+/**
+ * Prepares a page for a deterministic capture: freezes time, settles
+ * animations and fonts and masks dynamic content
+ */
+export class PageStabilizer {
+  /**
+   * Set up what has to be in place before navigation. Returns a function
+   * that undoes it, so a reused page starts clean for the next capture.
+   */
+  static async beforeNavigation(
+    page: Page,
+    options: StabilizationOptions
+  ): Promise<() => Promise<void>> {
+    if (options.freezeTime === false) {
+      return (): Promise<void> => Promise.resolve();
+    }
+
+    const frozenAt = new Date(
+      typeof options.freezeTime === 'string'
+        ? options.freezeTime
+        : DEFAULT_FROZEN_TIME
+    ).getTime();
+
+    const { identifier } = await page.evaluateOnNewDocument(
+      (timestamp: number) => {
+        const OriginalDate = Date;
+        class FrozenDate extends OriginalDate {
+          constructor(...args: unknown[]) {
+            if (args.length === 0) {
+              super(timestamp);
+            } else {
+              super(...(args as [string]));
+            }
+          }
+
+          static now(): number {
+            return timestamp;
+          }
+        }
+        window.Date = FrozenDate as DateConstructor;
+      },
+      frozenAt
+    );
+
+    return async (): Promise<void> => {
+      if (!page.isClosed()) {
+        await page.removeScriptToEvaluateOnNewDocument(identifier);
+      }
+    };
+  }
+
+  /**
+   * Settle the loaded page: stop animations, hide the caret and wait for
+   * web fonts
+   */
+  static async stabilize(
+    page: Page,
+    options: StabilizationOptions
+  ): Promise<void> {
+    const css = [
+      options.disableAnimations !== false ? STABILIZE_CSS : '',
+      options.hideCaret !== false ? HIDE_CARET_CSS : '',
+    ].join('');
+
+    if (css) {
+      await page.addStyleTag({ content: css });
+    }
+
+    if (options.waitForFonts !== false) {
+      await page.evaluate(() => document.fonts.ready.then(() => undefined));
+    }
+  }
+
+  /**
+   * Mask the elements matched by the rules that apply to filename. Returns
+   * the number of elements masked.
+   */
+  static async applyMasks(
+    page: Page,
+    rules: MaskRule[],
+    filename: string
+  ): Promise<number> {
+    const applicable = rules
+      .filter(rule => !rule.targets || rule.targets.includes(filename))
+      .map(rule => ({
+        selectors: rule.selectors,
+        style: rule.style ?? 'blank',
+        color: rule.color ?? '#808080',
+        blurRadius: rule.blurRadius ?? 16,
+      }));
+
+    if (applicable.length === 0) {
+      return 0;
+    }
+
+    return page.evaluate(masks => {
+      let masked = 0;
+      for (const mask of masks) {
+        const elements = document.querySelectorAll<HTMLElement>(
+          mask.selectors.join(',')
+        );
+
+        elements.forEach(element => {
+          masked++;
+          if (mask.style === 'blur') {
+            element.style.setProperty(
+              'filter',
+              `blur(${mask.blurRadius}px)`,
+              'important'
+            );
+            return;
+          }
+
+          // Covering the element also hides images, video and canvas
+          const box = element.getBoundingClientRect();
+          const cover = document.createElement('div');
+          cover.setAttribute('data-screenshot-mask', '');
+          cover.style.cssText = [
+            'position: absolute',
+            `left: ${box.left + window.scrollX}px`,
+            `top: ${box.top + window.scrollY}px`,
+            `width: ${box.width}px`,
+            `height: ${box.height}px`,
+            `background: ${mask.color}`,
+            'z-index: 2147483647',
+            'pointer-events: none',
+          ].join('; ');
+          document.body.appendChild(cover);
+        });
+      }
+      return masked;
+    }, applicable);
+  }
+
+  /**
+   * Configuration errors in the stabilization options and mask rules
+   */
+  static validate(
+    options: StabilizationOptions | undefined,
+    rules: MaskRule[] | undefined
+  ): string[] {
+    const errors: string[] = [];
+
+    if (
+      typeof options?.freezeTime === 'string' &&
+      Number.isNaN(new Date(options.freezeTime).getTime())
+    ) {
+      errors.push(`Invalid freezeTime: ${options.freezeTime}`);
+    }
+
+    (rules ?? []).forEach((rule, index) => {
+      if (
+        !rule.selectors?.length ||
+        rule.selectors.some(selector => !selector.trim())
+      ) {
+        errors.push(`Mask ${index} needs one or more non-empty selectors`);
+      }
+      if (rule.style !== undefined && !MASK_STYLES.includes(rule.style)) {
+        errors.push(
+          `Mask ${index} has unknown style '${String(rule.style)}' (expected ${MASK_STYLES.join(' or ')})`
+        );
+      }
+      if (
+        rule.blurRadius !== undefined &&
+        !(Number.isFinite(rule.blurRadius) && rule.blurRadius > 0)
+      ) {
+        errors.push(`Mask ${index} needs a positive blurRadius`);
+      }
+    });
+
+    return errors;
+  }
+}
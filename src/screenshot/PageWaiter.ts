@@ -0,0 +1,265 @@
+import { Page } from 'puppeteer';
+import { setTimeout as delay } from 'timers/promises';
+
+interface WaitTimeout {
+  /** Milliseconds before the wait fails (default: DEFAULT_WAIT_TIMEOUT_MS) */
+  timeout?: number;
+}
+
+/**
+ * A condition the page has to meet before it is captured
+ */
+export type WaitCondition =
+  | (WaitTimeout & {
+      type: 'selector';
+      selector: string;
+      /** default: visible */
+      state?: 'visible' | 'hidden';
+    })
+  | (WaitTimeout & {
+      type: 'networkIdle';
+      /** How long no requests may be in flight (default: 500) */
+      idleMs?: number;
+    })
+  | (WaitTimeout & {
+      type: 'function';
+      /** JavaScript expression evaluated in the page until it is truthy */
+      expression: string;
+      /** default: 100 */
+      pollingMs?: number;
+    })
+  | (WaitTimeout & { type: 'imagesLoaded' })
+  | (WaitTimeout & {
+      type: 'domStable';
+      /** How long the DOM must go without mutations (default: 500) */
+      stableMs?: number;
+    })
+  | { type: 'delay'; ms: number };
+
+export type WaitConditionType = WaitCondition['type'];
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+
+const WAIT_CONDITION_TYPES: WaitConditionType[] = [
+  'selector',
+  'networkIdle',
+  'function',
+  'imagesLoaded',
+  'domStable',
+  'delay',
+];
+
+export class WaitTimeoutError extends Error {
+  constructor(
+    public readonly condition: WaitCondition,
+    public readonly timeoutMs: number
+  ) {
+    super(
+      `Timed out after ${timeoutMs}ms waiting for ${PageWaiter.describe(condition)}`
+    );
+    this.name = 'WaitTimeoutError';
+  }
+}
+
+type DomStableWindow = Window & { __screenshotLastMutation?: number };
+
+/**
+ * Waits for the conditions configured for a capture target
+ */
+export class PageWaiter {
+  /**
+   * Wait for each condition in turn. A condition that does not hold within
+   * its timeout fails with a WaitTimeoutError.
+   */
+  static async waitFor(
+    page: Page,
+    conditions: WaitCondition[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (const condition of conditions) {
+      signal?.throwIfAborted();
+      await this.waitForCondition(page, condition, signal);
+    }
+  }
+
+  static describe(condition: WaitCondition): string {
+    switch (condition.type) {
+      case 'selector':
+        return `selector '${condition.selector}' to be ${condition.state ?? 'visible'}`;
+      case 'networkIdle':
+        return `the network to be idle for ${condition.idleMs ?? 500}ms`;
+      case 'function':
+        return `'${condition.expression}' to return true`;
+      case 'imagesLoaded':
+        return 'all images to load';
+      case 'domStable':
+        return `the DOM to be stable for ${condition.stableMs ?? 500}ms`;
+      case 'delay':
+        return `${condition.ms}ms`;
+    }
+  }
+
+  /**
+   * Configuration errors in a list of wait conditions
+   */
+  static validate(conditions: WaitCondition[]): string[] {
+    const errors: string[] = [];
+    const isPositive = (value: number | undefined): boolean =>
+      value === undefined || (Number.isFinite(value) && value > 0);
+
+    conditions.forEach((condition, index) => {
+      const prefix = `Wait condition ${index}`;
+      if (!WAIT_CONDITION_TYPES.includes(condition.type)) {
+        errors.push(
+          `${prefix} has unknown type '${String(condition.type)}' (expected one of ${WAIT_CONDITION_TYPES.join(', ')})`
+        );
+        return;
+      }
+
+      if ('timeout' in condition && !isPositive(condition.timeout)) {
+        errors.push(`${prefix} needs a positive timeout`);
+      }
+
+      switch (condition.type) {
+        case 'selector':
+          if (!condition.selector?.trim()) {
+            errors.push(`${prefix} needs a selector`);
+          }
+          if (
+            condition.state !== undefined &&
+            condition.state !== 'visible' &&
+            condition.state !== 'hidden'
+          ) {
+            errors.push(`${prefix} state must be 'visible' or 'hidden'`);
+          }
+          break;
+        case 'networkIdle':
+          if (!isPositive(condition.idleMs)) {
+            errors.push(`${prefix} needs a positive idleMs`);
+          }
+          break;
+        case 'function':
+          if (!condition.expression?.trim()) {
+            errors.push(`${prefix} needs an expression`);
+          }
+          if (!isPositive(condition.pollingMs)) {
+            errors.push(`${prefix} needs a positive pollingMs`);
+          }
+          break;
+        case 'domStable':
+          if (!isPositive(condition.stableMs)) {
+            errors.push(`${prefix} needs a positive stableMs`);
+          }
+          break;
+        case 'delay':
+          if (!(Number.isFinite(condition.ms) && condition.ms >= 0)) {
+            errors.push(`${prefix} needs a non-negative ms`);
+          }
+          break;
+        case 'imagesLoaded':
+          break;
+      }
+    });
+
+    return errors;
+  }
+
+  private static async waitForCondition(
+    page: Page,
+    condition: WaitCondition,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    if (condition.type === 'delay') {
+      await delay(condition.ms, undefined, { signal });
+      return;
+    }
+
+    const timeout = condition.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+    try {
+      switch (condition.type) {
+        case 'selector': {
+          const hidden = condition.state === 'hidden';
+          await page.waitForSelector(condition.selector, {
+            visible: !hidden,
+            hidden,
+            timeout,
+            signal,
+          });
+          break;
+        }
+
+        case 'networkIdle':
+          await page.waitForNetworkIdle({
+            idleTime: condition.idleMs ?? 500,
+            timeout,
+          });
+          break;
+
+        case 'function':
+          await page.waitForFunction(condition.expression, {
+            polling: condition.pollingMs ?? 100,
+            timeout,
+            signal,
+          });
+          break;
+
+        case 'imagesLoaded':
+          await page.waitForFunction(
+            () =>
+              Array.from(document.images).every(image => {
+                // Broken images are complete too, and must not hold up the
+                // capture until the timeout
+                if (image.complete) {
+                  return true;
+                }
+                // Lazy images outside the viewport do not load until
+                // scrolled to
+                const rect = image.getBoundingClientRect();
+                return (
+                  image.loading === 'lazy' &&
+                  (rect.bottom <= 0 ||
+                    rect.right <= 0 ||
+                    rect.top >= window.innerHeight ||
+                    rect.left >= window.innerWidth)
+                );
+              }),
+            { polling: 100, timeout, signal }
+          );
+          break;
+
+        case 'domStable':
+          await page.waitForFunction(
+            (stableMs: number) => {
+              // The observer is installed on the first poll and lives until
+              // the next navigation
+              const pageWindow = window as DomStableWindow;
+              if (pageWindow.__screenshotLastMutation === undefined) {
+                pageWindow.__screenshotLastMutation = performance.now();
+                new MutationObserver(() => {
+                  pageWindow.__screenshotLastMutation = performance.now();
+                }).observe(document, {
+                  subtree: true,
+                  childList: true,
+                  attributes: true,
+                  characterData: true,
+                });
+              }
+              return (
+                performance.now() - pageWindow.__screenshotLastMutation >=
+                stableMs
+              );
+            },
+            { polling: 100, timeout, signal },
+            condition.stableMs ?? 500
+          );
+          break;
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new WaitTimeoutError(condition, timeout);
+      }
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import sharp from 'sharp';
 import { ScreenshotResult } from './ScreenshotService.js';
+import { DeviceProfiles } from './DeviceProfiles.js';
 
 export interface QualityCheck {
   name: string;
@@ -29,7 +30,22 @@ export interface QualityConfig {
   qualityThreshold?: number; // 0-100
 }
 
+/**
+ * An additional check run on every screenshot after the built-in ones
+ */
+export interface QualityCheckDefinition {
+  name: string;
+  /** config is the caller's configuration merged over the defaults */
+  run(
+    screenshot: ScreenshotResult,
+    metadata: sharp.Metadata,
+    config: Required<QualityConfig>
+  ): QualityCheck | Promise<QualityCheck>;
+}
+
 export class QualityValidator {
+  private static customChecks = new Map<string, QualityCheckDefinition>();
+
   private readonly defaultConfig: Required<QualityConfig> = {
     minWidth: 320,
     maxWidth: 3840,
@@ -41,6 +57,17 @@ export class QualityValidator {
     qualityThreshold: 80,
   };
 
+  /**
+   * Register a new quality check (for extensibility)
+   */
+  static registerCheck(definition: QualityCheckDefinition): void {
+    this.customChecks.set(definition.name, definition);
+  }
+
+  static getRegisteredChecks(): string[] {
+    return [...this.customChecks.keys()];
+  }
+
   async validateScreenshot(
     screenshot: ScreenshotResult,
     config: QualityConfig = {}
@@ -63,13 +90,27 @@ export class QualityValidator {
 
       // Image metadata checks
       const metadata = await sharp(screenshot.path).metadata();
-      checks.push(...this.validateImageMetadata(metadata, mergedConfig));
+      checks.push(
+        ...this.validateImageMetadata(
+          metadata,
+          mergedConfig,
+          DeviceProfiles.getScaleFactor(screenshot.viewport),
+          screenshot.region ?? false
+        )
+      );
 
       // Format validation
       checks.push(this.validateFormat(screenshot.format, mergedConfig));
 
-      // Viewport validation
-      checks.push(this.validateViewport(screenshot, metadata, mergedConfig));
+      // Viewport validation; a region is as wide as its element, not the page
+      if (!screenshot.region) {
+        checks.push(this.validateViewport(screenshot, metadata, mergedConfig));
+      }
+
+      // Registered checks
+      checks.push(
+        ...(await this.runCustomChecks(screenshot, metadata, mergedConfig))
+      );
     } catch (error) {
       checks.push({
         name: 'File Access',
@@ -121,6 +162,28 @@ export class QualityValidator {
     return reports;
   }
 
+  private async runCustomChecks(
+    screenshot: ScreenshotResult,
+    metadata: sharp.Metadata,
+    config: Required<QualityConfig>
+  ): Promise<QualityCheck[]> {
+    const checks: QualityCheck[] = [];
+
+    for (const definition of QualityValidator.customChecks.values()) {
+      try {
+        checks.push(await definition.run(screenshot, metadata, config));
+      } catch (error) {
+        checks.push({
+          name: definition.name,
+          passed: false,
+          message: `Check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    return checks;
+  }
+
   private validateFileSize(
     size: number,
     config: Required<QualityConfig>
@@ -153,30 +216,40 @@ export class QualityValidator {
     };
   }
 
+  /**
+   * Limits are in CSS pixels, so images captured at a device scale factor
+   * are measured at 1x. Region captures are only held to the maximums.
+   */
   private validateImageMetadata(
     metadata: sharp.Metadata,
-    config: Required<QualityConfig>
+    config: Required<QualityConfig>,
+    scale: number,
+    region: boolean
   ): QualityCheck[] {
     const checks: QualityCheck[] = [];
+    const minWidth = region ? 0 : config.minWidth;
+    const minHeight = region ? 0 : config.minHeight;
+    const describe = (pixels: number): string =>
+      scale === 1
+        ? `${pixels}px`
+        : `${Math.round(pixels / scale)}px (${pixels}px at ${scale}x)`;
 
     // Width validation
     if (metadata.width) {
-      if (
-        metadata.width < config.minWidth ||
-        metadata.width > config.maxWidth
-      ) {
+      const width = metadata.width / scale;
+      if (width < minWidth || width > config.maxWidth) {
         checks.push({
           name: 'Image Width',
           passed: false,
-          message: `Invalid width: ${metadata.width}px`,
+          message: `Invalid width: ${describe(metadata.width)}`,
           value: metadata.width,
-          expected: `${config.minWidth}-${config.maxWidth}px`,
+          expected: `${minWidth}-${config.maxWidth}px`,
         });
       } else {
         checks.push({
           name: 'Image Width',
           passed: true,
-          message: `Width acceptable: ${metadata.width}px`,
+          message: `Width acceptable: ${describe(metadata.width)}`,
           value: metadata.width,
         });
       }
@@ -184,22 +257,20 @@ export class QualityValidator {
 
     // Height validation
     if (metadata.height) {
-      if (
-        metadata.height < config.minHeight ||
-        metadata.height > config.maxHeight
-      ) {
+      const height = metadata.height / scale;
+      if (height < minHeight || height > config.maxHeight) {
         checks.push({
           name: 'Image Height',
           passed: false,
-          message: `Invalid height: ${metadata.height}px`,
+          message: `Invalid height: ${describe(metadata.height)}`,
           value: metadata.height,
-          expected: `${config.minHeight}-${config.maxHeight}px`,
+          expected: `${minHeight}-${config.maxHeight}px`,
         });
       } else {
         checks.push({
           name: 'Image Height',
           passed: true,
-          message: `Height acceptable: ${metadata.height}px`,
+          message: `Height acceptable: ${describe(metadata.height)}`,
           value: metadata.height,
         });
       }
@@ -235,14 +306,17 @@ export class QualityValidator {
     metadata: sharp.Metadata,
     _config: Required<QualityConfig>
   ): QualityCheck {
-    const expectedWidth = screenshot.viewport.width;
+    // Images are deviceScaleFactor times the viewport's CSS size
+    const scale = DeviceProfiles.getScaleFactor(screenshot.viewport);
+    const expectedWidth = Math.round(screenshot.viewport.width * scale);
     const actualWidth = metadata.width;
+    const scaleNote = scale === 1 ? '' : ` at ${scale}x`;
 
-    if (actualWidth && Math.abs(actualWidth - expectedWidth) > 50) {
+    if (actualWidth && Math.abs(actualWidth - expectedWidth) > 50 * scale) {
       return {
         name: 'Viewport Match',
         passed: false,
-        message: `Viewport mismatch: expected ${expectedWidth}px, got ${actualWidth}px`,
+        message: `Viewport mismatch: expected ${expectedWidth}px${scaleNote}, got ${actualWidth}px`,
         value: actualWidth,
         expected: expectedWidth,
       };
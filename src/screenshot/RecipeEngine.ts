@@ -1,18 +1,58 @@
 import {
+  CaptureRegion,
   ScreenshotService,
   ScreenshotResult,
   ScreenshotOptions,
 } from './ScreenshotService.js';
+import { PageWaiter, WaitCondition } from './PageWaiter.js';
+import { DeviceProfiles } from './DeviceProfiles.js';
+import { setTimeout as delay } from 'timers/promises';
+
+export type BuiltInStepType = 'navigate' | 'click' | 'wait' | 'scroll';
 
 export interface RecipeStep {
-  type: 'navigate' | 'click' | 'wait' | 'scroll';
+  /**
+   * A BuiltInStepType or a type registered with
+   * RecipeEngine.registerStepType()
+   */
+  type: string;
   url?: string;
   filename?: string;
   selector?: string;
   duration?: number;
   position?: { x: number; y: number };
+  /** Navigate steps: capture these elements or this clip, not the full page */
+  capture?: CaptureRegion;
+  /** Navigate steps: replaces screenshots.waitFor for this page */
+  waitFor?: WaitCondition[];
+  /** Parameters for registered step types */
+  options?: Record<string, unknown>;
 }
 
+export interface RecipeStepContext {
+  screenshotService: ScreenshotService;
+  outputDir: string;
+  options: ScreenshotOptions;
+  useTimestamp: boolean;
+  /** Screenshots taken so far in this recipe; handlers append their own */
+  screenshots: ScreenshotResult[];
+  /** Aborted when the workflow is cancelled; long steps should honour it */
+  signal?: AbortSignal;
+}
+
+export interface RecipeStepHandler {
+  execute(step: RecipeStep, context: RecipeStepContext): Promise<void>;
+  /** Configuration errors for the step, reported by validateRecipe() */
+  validate?(step: RecipeStep): string[];
+}
+
+const BUILT_IN_STEP_TYPES: BuiltInStepType[] = [
+  'navigate',
+  'click',
+  'wait',
+  'scroll',
+];
+
 export interface Recipe {
   name: string;
   description?: string;
@@ -28,8 +68,26 @@ export interface RecipeExecutionResult {
 }
 
 export class RecipeEngine {
+  private static stepHandlers = new Map<string, RecipeStepHandler>();
+
   constructor(private readonly screenshotService: ScreenshotService) {}
 
+  /**
+   * Register a handler for a new step type (for extensibility). Built-in
+   * step types cannot be replaced.
+   */
+  static registerStepType(type: string, handler: RecipeStepHandler): void {
+    if (BUILT_IN_STEP_TYPES.includes(type as BuiltInStepType)) {
+      throw new Error(`Cannot replace built-in recipe step type: ${type}`);
+    }
+
+    this.stepHandlers.set(type, handler);
+  }
+
+  static getRegisteredStepTypes(): string[] {
+    return [...this.stepHandlers.keys()];
+  }
+
   async executeRecipe(
     recipe: Recipe,
     outputDir: string,
@@ -42,6 +100,7 @@ export class RecipeEngine {
 
     try {
       for (const step of recipe.steps) {
+        options.signal?.throwIfAborted();
         try {
           await this.executeStep(
             step,
@@ -51,6 +110,8 @@ export class RecipeEngine {
             useTimestamp
           );
         } catch (error) {
+          // Cancellation ends the recipe rather than failing a single step
+          options.signal?.throwIfAborted();
           const errorMessage = `Failed to execute step ${step.type}: ${error instanceof Error ? error.message : 'Unknown error'}`;
           errors.push(errorMessage);
           // Error logging handled by calling code
@@ -65,6 +126,7 @@ export class RecipeEngine {
         errors,
       };
     } catch (error) {
+      options.signal?.throwIfAborted();
       errors.push(
         `Recipe execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -88,6 +150,7 @@ export class RecipeEngine {
     const results: RecipeExecutionResult[] = [];
 
     for (const recipe of recipes) {
+      options.signal?.throwIfAborted();
       try {
         const result = await this.executeRecipe(
           recipe,
@@ -97,6 +160,7 @@ export class RecipeEngine {
         );
         results.push(result);
       } catch (error) {
+        options.signal?.throwIfAborted();
         results.push({
           recipe,
           screenshots: [],
@@ -126,34 +190,48 @@ export class RecipeEngine {
         }
 
         const isAccessible = await this.screenshotService.isUrlAccessible(
-          step.url
+          step.url,
+          options.signal
         );
         if (!isAccessible) {
           throw new Error(`URL ${step.url} is not accessible`);
         }
 
-        const viewports = options.viewports || [
-          { width: 1920, height: 1080, name: 'desktop' },
-          { width: 390, height: 844, name: 'mobile' },
-        ];
+        const viewports = DeviceProfiles.resolveAll(
+          options.viewports || [
+            { width: 1920, height: 1080, name: 'desktop' },
+            { width: 390, height: 844, name: 'mobile' },
+          ]
+        );
 
-        for (const viewport of viewports) {
-          const results = await this.screenshotService.captureScreenshot(
-            step.url,
-            step.filename,
-            outputDir,
-            viewport,
-            options,
-            useTimestamp
-          );
-          screenshots.push(...results);
-        }
+        // Viewports are captured side by side, as far as the browser pool
+        // allows
+        const url = step.url;
+        const filename = step.filename;
+        const captureOptions = {
+          ...options,
+          capture: step.capture ?? options.capture,
+          waitFor: step.waitFor ?? options.waitFor,
+        };
+        const results = await Promise.all(
+          viewports.map(viewport =>
+            this.screenshotService.captureScreenshot(
+              url,
+              filename,
+              outputDir,
+              viewport,
+              captureOptions,
+              useTimestamp
+            )
+          )
+        );
+        screenshots.push(...results.flat());
         break;
       }
 
       case 'wait': {
         if (step.duration) {
-          await new Promise(resolve => setTimeout(resolve, step.duration));
+          await delay(step.duration, undefined, { signal: options.signal });
         }
         break;
       }
@@ -164,8 +242,21 @@ export class RecipeEngine {
         break;
       }
 
-      default:
-        throw new Error(`Unknown step type: ${String(step.type)}`);
+      default: {
+        const handler = RecipeEngine.stepHandlers.get(step.type);
+        if (!handler) {
+          throw new Error(`Unknown step type: ${String(step.type)}`);
+        }
+
+        await handler.execute(step, {
+          screenshotService: this.screenshotService,
+          outputDir,
+          options,
+          useTimestamp,
+          screenshots,
+          signal: options.signal,
+        });
+      }
     }
   }
 
@@ -189,6 +280,16 @@ export class RecipeEngine {
           if (!step.filename) {
             errors.push(`Step ${index}: Navigate step requires filename`);
           }
+          if (step.capture) {
+            for (const error of ScreenshotService.validateCaptureRegion(
+              step.capture
+            )) {
+              errors.push(`Step ${index}: ${error}`);
+            }
+          }
+          for (const error of PageWaiter.validate(step.waitFor ?? [])) {
+            errors.push(`Step ${index}: ${error}`);
+          }
           break;
 
         case 'wait':
@@ -209,10 +310,19 @@ export class RecipeEngine {
           }
           break;
 
-        default:
-          errors.push(
-            `Step ${index}: Unknown step type '${String(step.type)}'`
-          );
+        default: {
+          const handler = RecipeEngine.stepHandlers.get(step.type);
+          if (!handler) {
+            errors.push(
+              `Step ${index}: Unknown step type '${String(step.type)}'`
+            );
+            break;
+          }
+
+          for (const error of handler.validate?.(step) ?? []) {
+            errors.push(`Step ${index}: ${error}`);
+          }
+        }
       }
     });
 
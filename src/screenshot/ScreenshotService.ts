@@ -1,19 +1,80 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { Page } from 'puppeteer';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import { traceActive } from '../tracing/Tracer.js';
+import { BrowserPool } from './BrowserPool.js';
+import {
+  MaskRule,
+  PageStabilizer,
+  StabilizationOptions,
+} from './PageStabilizer.js';
+import { PageWaiter, WaitCondition } from './PageWaiter.js';
+import { DeviceProfiles, ViewportEntry } from './DeviceProfiles.js';
 
 export interface Viewport {
+  /** CSS pixels */
   width: number;
   height: number;
   name: string;
+  /** Device pixels per CSS pixel, e.g. 2 or 3 for retina captures (default: 1) */
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  isLandscape?: boolean;
+  /** Sent instead of the browser's own user agent */
+  userAgent?: string;
+}
+
+export interface ClipRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Part of the page to capture instead of the full page. Use either
+ * selectors or a clip, not both.
+ */
+export interface CaptureRegion {
+  /** CSS selector of the element to capture */
+  selector?: string;
+  /** Several elements, captured together in the smallest rectangle around them */
+  selectors?: string[];
+  /** Rectangle in page coordinates, in CSS pixels */
+  clip?: ClipRect;
+  /** CSS pixels added on every side of the element or clip (default: 0) */
+  padding?: number;
 }
 
 export interface ScreenshotOptions {
   formats?: string[];
-  viewports?: Viewport[];
+  /** Viewports or names of built-in device profiles, see DeviceProfiles */
+  viewports?: ViewportEntry[];
   quality?: number;
   timeout?: number;
   waitForNavigation?: boolean;
+  /**
+   * Conditions the loaded page must meet before it is captured, checked in
+   * order. Without them the capture waits a fixed second.
+   */
+  waitFor?: WaitCondition[];
+  /** Capture only this part of the page; the full page otherwise */
+  capture?: CaptureRegion;
+  /** Settle the page before capturing; nothing is changed when omitted */
+  stabilize?: StabilizationOptions;
+  /** Dynamic content to blank or blur before capturing */
+  masks?: MaskRule[];
+  /** Closes the page and rejects the capture once aborted */
+  signal?: AbortSignal;
+  /** Called with each screenshot as soon as its file is written */
+  onScreenshot?: (result: ScreenshotResult) => void;
+  /**
+   * Called when captureMultipleScreenshots skips a page and viewport that
+   * failed, e.g. with a WaitTimeoutError, so the caller can report it
+   */
+  onCaptureError?: (url: string, viewport: Viewport, error: Error) => void;
 }
 
 export interface ScreenshotResult {
@@ -24,27 +85,36 @@ export interface ScreenshotResult {
   path: string;
   timestamp: Date;
   size: number;
+  /** Set when only part of the page was captured, see ScreenshotOptions.capture */
+  region?: boolean;
 }
 
 export class ScreenshotService {
-  private browser: Browser | null = null;
+  private pool: BrowserPool | null = null;
+  private ownsPool = false;
+  /** Pooled pages left with a device user agent by an earlier capture */
+  private readonly customAgentPages = new WeakSet<Page>();
 
-  async initialize(): Promise<void> {
-    if (this.browser) {
+  /**
+   * Capture through the given pool, e.g. one shared by the whole workflow.
+   * Without one the service gets a pool of its own, closed by cleanup().
+   */
+  async initialize(pool?: BrowserPool): Promise<void> {
+    await Promise.resolve();
+    if (this.pool) {
       return;
     }
 
-    this.browser = await puppeteer.launch({
-      headless: 'new',
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
+    this.pool = pool ?? new BrowserPool();
+    this.ownsPool = !pool;
   }
 
+  /** Closes the browser unless the pool was handed in by the caller */
   async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+    if (this.pool && this.ownsPool) {
+      await this.pool.close();
     }
+    this.pool = null;
   }
 
   async captureScreenshot(
@@ -55,55 +125,155 @@ export class ScreenshotService {
     options: ScreenshotOptions = {},
     useTimestamp = true
   ): Promise<ScreenshotResult[]> {
-    if (!this.browser) {
+    const pool = this.pool;
+    if (!pool) {
       throw new Error('ScreenshotService not initialized');
     }
 
-    const page = await this.browser.newPage();
+    return traceActive(
+      'captureScreenshot',
+      {
+        url,
+        filename,
+        'viewport.name': viewport.name,
+        'viewport.width': viewport.width,
+        'viewport.height': viewport.height,
+        'viewport.scale': DeviceProfiles.getScaleFactor(viewport),
+      },
+      () =>
+        pool.withPage(page =>
+          this.captureInPage(
+            page,
+            url,
+            filename,
+            outputDir,
+            viewport,
+            options,
+            useTimestamp
+          )
+        )
+    );
+  }
+
+  /**
+   * Capture one viewport in every configured format, with spans for the
+   * navigation, the settle wait and each screenshot
+   */
+  private async captureInPage(
+    page: Page,
+    url: string,
+    filename: string,
+    outputDir: string,
+    viewport: Viewport,
+    options: ScreenshotOptions,
+    useTimestamp: boolean
+  ): Promise<ScreenshotResult[]> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
     const results: ScreenshotResult[] = [];
+    const closeOnAbort = this.closeOnAbort(page, signal);
+    const { stabilize, masks = [] } = options;
+    let restorePage = (): Promise<void> => Promise.resolve();
 
     try {
-      await page.setViewport({
-        width: viewport.width,
-        height: viewport.height,
-      });
+      if (stabilize) {
+        restorePage = await PageStabilizer.beforeNavigation(page, stabilize);
+      }
+
+      await traceActive('navigate', { url }, async () => {
+        await page.setViewport({
+          width: viewport.width,
+          height: viewport.height,
+          deviceScaleFactor: DeviceProfiles.getScaleFactor(viewport),
+          isMobile: viewport.isMobile ?? false,
+          hasTouch: viewport.hasTouch ?? false,
+          isLandscape: viewport.isLandscape ?? false,
+        });
+        await this.applyUserAgent(page, viewport.userAgent);
 
-      await page.goto(url, {
-        waitUntil: options.waitForNavigation
-          ? 'networkidle0'
-          : 'domcontentloaded',
-        timeout: options.timeout || 30000,
+        await page.goto(url, {
+          waitUntil: options.waitForNavigation
+            ? 'networkidle0'
+            : 'domcontentloaded',
+          timeout: options.timeout || 30000,
+        });
       });
 
-      await page.waitForTimeout(1000);
+      const { waitFor } = options;
+      if (waitFor?.length) {
+        await traceActive(
+          'wait',
+          {
+            'wait.conditions': waitFor
+              .map(condition => PageWaiter.describe(condition))
+              .join('; '),
+          },
+          () => PageWaiter.waitFor(page, waitFor, signal)
+        );
+      } else {
+        await traceActive('wait', { 'wait.ms': 1000 }, () =>
+          delay(1000, undefined, { signal })
+        );
+      }
+
+      if (stabilize || masks.length > 0) {
+        await traceActive('stabilize', {}, async span => {
+          if (stabilize) {
+            await PageStabilizer.stabilize(page, stabilize);
+          }
+          const masked = await PageStabilizer.applyMasks(page, masks, filename);
+          span?.setAttribute('mask.elements', masked);
+        });
+      }
 
       await fs.mkdir(outputDir, { recursive: true });
 
+      const clip = options.capture
+        ? await this.resolveClip(page, options.capture)
+        : undefined;
       const formats = options.formats || ['png'];
       const timestamp = new Date();
 
       for (const format of formats) {
+        signal?.throwIfAborted();
         // Use consistent naming for final screenshots, timestamped for temp
         const screenshotFilename = useTimestamp
-          ? `${filename}-${viewport.width}x${viewport.height}-${timestamp.toISOString().replace(/[:.]/g, '-')}.${format}`
-          : `${filename}-${viewport.width}x${viewport.height}.${format}`;
+          ? ScreenshotService.generateTimestampedFilename(
+              filename,
+              viewport,
+              format,
+              timestamp
+            )
+          : ScreenshotService.generateConsistentFilename(
+              filename,
+              viewport,
+              format
+            );
 
         const screenshotPath = path.join(outputDir, screenshotFilename);
 
         const screenshotOptions: Parameters<Page['screenshot']>[0] = {
           path: screenshotPath,
-          fullPage: true,
+          ...(clip ? { clip } : { fullPage: true }),
           type: format as 'png' | 'jpeg' | 'webp',
           ...(format === 'jpeg' && options.quality
             ? { quality: options.quality }
             : {}),
         };
 
-        await page.screenshot(screenshotOptions);
-
-        const stats = await fs.stat(screenshotPath);
+        const stats = await traceActive(
+          'screenshot',
+          { format, path: screenshotPath },
+          async span => {
+            await page.screenshot(screenshotOptions);
+            const fileStats = await fs.stat(screenshotPath);
+            span?.setAttribute('file.size', fileStats.size);
+            return fileStats;
+          }
+        );
 
-        results.push({
+        const result: ScreenshotResult = {
           url,
           filename: screenshotFilename,
           viewport,
@@ -111,68 +281,238 @@ export class ScreenshotService {
           path: screenshotPath,
           timestamp,
           size: stats.size,
-        });
+          ...(clip ? { region: true } : {}),
+        };
+        results.push(result);
+        options.onScreenshot?.(result);
       }
+    } catch (error) {
+      // A page closed by the abort fails with a puppeteer error; report the
+      // cancellation instead
+      signal?.throwIfAborted();
+      throw error;
     } finally {
-      await page.close();
+      closeOnAbort.dispose();
+      await restorePage();
     }
 
     return results;
   }
 
   async captureMultipleScreenshots(
-    targets: Array<{ url: string; filename: string }>,
+    targets: Array<{
+      url: string;
+      filename: string;
+      capture?: CaptureRegion;
+      waitFor?: WaitCondition[];
+    }>,
     outputDir: string,
     options: ScreenshotOptions = {},
     useTimestamp = true
   ): Promise<ScreenshotResult[]> {
-    const viewports = options.viewports || [
-      { width: 1920, height: 1080, name: 'desktop' },
-      { width: 390, height: 844, name: 'mobile' },
-    ];
+    const viewports = DeviceProfiles.resolveAll(
+      options.viewports || [
+        { width: 1920, height: 1080, name: 'desktop' },
+        { width: 390, height: 844, name: 'mobile' },
+      ]
+    );
 
-    const allResults: ScreenshotResult[] = [];
-
-    for (const target of targets) {
-      for (const viewport of viewports) {
+    // Every target and viewport is queued at once; the pool decides how
+    // many run side by side. Results keep the targets × viewports order.
+    const captures = targets.flatMap(target =>
+      viewports.map(async viewport => {
         try {
-          const results = await this.captureScreenshot(
+          return await this.captureScreenshot(
             target.url,
             target.filename,
             outputDir,
             viewport,
-            options,
+            {
+              ...options,
+              capture: target.capture ?? options.capture,
+              waitFor: target.waitFor ?? options.waitFor,
+            },
             useTimestamp
           );
-          allResults.push(...results);
-        } catch {
-          // Error logging handled by calling code
+        } catch (error) {
+          // Cancellation is not an error to skip past
+          options.signal?.throwIfAborted();
+          options.onCaptureError?.(
+            target.url,
+            viewport,
+            error instanceof Error ? error : new Error('Unknown error')
+          );
+          return [];
         }
+      })
+    );
+
+    return (await Promise.all(captures)).flat();
+  }
+
+  async isUrlAccessible(url: string, signal?: AbortSignal): Promise<boolean> {
+    if (!this.pool) {
+      return false;
+    }
+
+    signal?.throwIfAborted();
+    return this.pool.withPage(async page => {
+      const closeOnAbort = this.closeOnAbort(page, signal);
+
+      try {
+        const response = await page.goto(url, {
+          waitUntil: 'domcontentloaded',
+          timeout: 10000,
+        });
+
+        return response !== null && response.ok();
+      } catch {
+        signal?.throwIfAborted();
+        return false;
+      } finally {
+        closeOnAbort.dispose();
+      }
+    });
+  }
+
+  /**
+   * Send the viewport's user agent, or restore the browser's own on a
+   * pooled page an earlier capture changed
+   */
+  private async applyUserAgent(
+    page: Page,
+    userAgent: string | undefined
+  ): Promise<void> {
+    if (userAgent) {
+      await page.setUserAgent(userAgent);
+      this.customAgentPages.add(page);
+    } else if (this.customAgentPages.has(page)) {
+      await page.setUserAgent(await page.browser().userAgent());
+      this.customAgentPages.delete(page);
+    }
+  }
+
+  /**
+   * Page-coordinate rectangle for a capture region. Elements must exist and
+   * be rendered; padding is clamped at the top and left edges of the page.
+   */
+  private async resolveClip(
+    page: Page,
+    region: CaptureRegion
+  ): Promise<ClipRect> {
+    const padding = region.padding ?? 0;
+    let rect = region.clip;
+
+    if (!rect) {
+      const selectors = [
+        ...(region.selector ? [region.selector] : []),
+        ...(region.selectors ?? []),
+      ];
+      const measured = await page.evaluate((selectors: string[]) => {
+        let left = Infinity;
+        let top = Infinity;
+        let right = -Infinity;
+        let bottom = -Infinity;
+
+        for (const selector of selectors) {
+          const element = document.querySelector(selector);
+          if (!element) {
+            return { error: `Element not found: ${selector}` };
+          }
+
+          const box = element.getBoundingClientRect();
+          if (box.width === 0 && box.height === 0) {
+            return { error: `Element is not visible: ${selector}` };
+          }
+
+          left = Math.min(left, box.left + window.scrollX);
+          top = Math.min(top, box.top + window.scrollY);
+          right = Math.max(right, box.right + window.scrollX);
+          bottom = Math.max(bottom, box.bottom + window.scrollY);
+        }
+
+        return {
+          rect: { x: left, y: top, width: right - left, height: bottom - top },
+        };
+      }, selectors);
+
+      if (!measured.rect) {
+        throw new Error(measured.error);
       }
+      rect = measured.rect;
     }
 
-    return allResults;
+    const x = Math.max(0, rect.x - padding);
+    const y = Math.max(0, rect.y - padding);
+    return {
+      x,
+      y,
+      width: rect.x + rect.width + padding - x,
+      height: rect.y + rect.height + padding - y,
+    };
   }
 
-  async isUrlAccessible(url: string): Promise<boolean> {
-    if (!this.browser) {
-      return false;
+  /**
+   * Close the page as soon as the signal fires, which makes any pending
+   * navigation or screenshot on it reject right away
+   */
+  private closeOnAbort(
+    page: Page,
+    signal: AbortSignal | undefined
+  ): { dispose: () => void } {
+    if (!signal) {
+      return { dispose: (): void => undefined };
     }
 
-    const page = await this.browser.newPage();
+    const onAbort = (): void => {
+      page.close().catch(() => undefined);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
 
-    try {
-      const response = await page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout: 10000,
-      });
+    return {
+      dispose: (): void => signal.removeEventListener('abort', onAbort),
+    };
+  }
 
-      return response !== null && response.ok();
-    } catch {
-      return false;
-    } finally {
-      await page.close();
+  /**
+   * Configuration errors in a capture region, empty when it is valid
+   */
+  static validateCaptureRegion(region: CaptureRegion): string[] {
+    const errors: string[] = [];
+    const selectors = [
+      ...(region.selector !== undefined ? [region.selector] : []),
+      ...(region.selectors ?? []),
+    ];
+
+    if (selectors.some(selector => !selector.trim())) {
+      errors.push('Capture selectors must not be empty');
     }
+
+    if (region.clip) {
+      const { x, y, width, height } = region.clip;
+      if (selectors.length > 0) {
+        errors.push(
+          'Capture region takes either selectors or a clip, not both'
+        );
+      }
+      if (![x, y, width, height].every(Number.isFinite) || x < 0 || y < 0) {
+        errors.push('Capture clip needs finite, non-negative x and y');
+      }
+      if (!(width > 0) || !(height > 0)) {
+        errors.push('Capture clip needs a positive width and height');
+      }
+    } else if (selectors.length === 0) {
+      errors.push('Capture region needs a selector, selectors or a clip');
+    }
+
+    if (
+      region.padding !== undefined &&
+      !(Number.isFinite(region.padding) && region.padding >= 0)
+    ) {
+      errors.push('Capture padding must be a non-negative number');
+    }
+
+    return errors;
   }
 
   /**
@@ -184,7 +524,7 @@ export class ScreenshotService {
     viewport: Viewport,
     format: string
   ): string {
-    return `${baseFilename}-${viewport.width}x${viewport.height}.${format}`;
+    return `${baseFilename}-${this.getSizeLabel(viewport)}.${format}`;
   }
 
   /**
@@ -196,6 +536,16 @@ export class ScreenshotService {
     format: string,
     timestamp: Date
   ): string {
-    return `${baseFilename}-${viewport.width}x${viewport.height}-${timestamp.toISOString().replace(/[:.]/g, '-')}.${format}`;
+    return `${baseFilename}-${this.getSizeLabel(viewport)}-${timestamp.toISOString().replace(/[:.]/g, '-')}.${format}`;
+  }
+
+  /**
+   * <width>x<height> in CSS pixels, with an @<scale>x suffix for scaled
+   * viewports so that 1x and retina captures never share a baseline
+   */
+  private static getSizeLabel(viewport: Viewport): string {
+    const scale = DeviceProfiles.getScaleFactor(viewport);
+    const size = `${viewport.width}x${viewport.height}`;
+    return scale === 1 ? size : `${size}@${scale}x`;
   }
 }
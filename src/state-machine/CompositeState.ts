@@ -0,0 +1,96 @@
+import { Event, EventBuilder } from './Event.js';
+import { BaseState, State, StateContext } from './State.js';
+import { StateMachine } from './StateMachine.js';
+import { Transition } from './Transition.js';
+import { WorkflowState } from '../types/WorkflowState.js';
+import { WorkflowEvent } from '../types/WorkflowEvent.js';
+
+export interface SubMachineDefinition {
+  initialState: WorkflowState | string;
+  states: Map<WorkflowState | string, State>;
+}
+
+export interface CompositeStateOptions extends SubMachineDefinition {
+  /** Transitions of the composite state itself in the parent machine */
+  transitions: Transition[];
+}
+
+/**
+ * A super-state that owns its own sub-machine. The sub-machine runs to its
+ * terminal state inside execute(), after which the composite state emits
+ * SUBSTATES_COMPLETE so the parent machine can move on. A sub-state that
+ * throws stops the sub-machine rather than being retried, and the composite
+ * state emits SUBSTATES_FAILED instead.
+ */
+export class CompositeState extends BaseState {
+  private subMachine: StateMachine | null = null;
+
+  constructor(
+    name: string,
+    private readonly options: CompositeStateOptions
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    const failures: Array<{ state: string | null; error: string }> = [];
+    const subMachine: StateMachine = new StateMachine({
+      initialState: this.options.initialState,
+      states: this.options.states,
+      context,
+      observers: [
+        {
+          onError: async (
+            error: Error,
+            state: string | null
+          ): Promise<void> => {
+            failures.push({ state, error: error.message });
+            await subMachine.stop();
+          },
+        },
+      ],
+    });
+    this.subMachine = subMachine;
+
+    try {
+      await subMachine.start();
+    } finally {
+      this.subMachine = null;
+    }
+
+    if (failures.length > 0 && !subMachine.hasReachedTerminalState()) {
+      const [{ state, error }] = failures;
+      context.logger.error(
+        `Composite state '${this.name}' failed in '${state}': ${error}`
+      );
+      return EventBuilder.substatesFailed(state, error);
+    }
+
+    if (!subMachine.hasReachedTerminalState()) {
+      // Stopped from outside - let the parent machine decide what happens next
+      return null;
+    }
+
+    return EventBuilder.substatesComplete(subMachine.getCurrentStateName());
+  }
+
+  async exit(context: StateContext): Promise<void> {
+    if (this.subMachine) {
+      await this.subMachine.stop();
+      this.subMachine = null;
+    }
+    await super.exit(context);
+  }
+
+  protected getDefaultTransitions(): Transition[] {
+    return this.options.transitions;
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.SUBSTATES_COMPLETE, WorkflowEvent.SUBSTATES_FAILED];
+  }
+
+  getActiveSubstates(): string[] {
+    return this.subMachine?.getActiveStatePath() ?? [];
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Checks a single context value; returns false when the value has the wrong
+ * shape
+ */
+export type DataValidator = (value: unknown) => boolean;
+
+/**
+ * Validators keyed by context data key. Keys without a validator are not
+ * checked.
+ */
+export type DataSchema = Record<string, DataValidator>;
+
+/**
+ * The context keys a state depends on and the keys it promises to populate
+ */
+export interface DataContract {
+  /** Keys that must be present before the state is entered */
+  requires?: string[];
+  /** Keys that must be present when the state emits the given event type */
+  provides?: Record<string, string[]>;
+}
+
+export type DataContractStage = 'requires' | 'provides' | 'schema';
+
+export class DataContractError extends Error {
+  constructor(
+    message: string,
+    public readonly state: string,
+    public readonly stage: DataContractStage,
+    public readonly keys: string[]
+  ) {
+    super(message);
+    this.name = 'DataContractError';
+  }
+}
+
+export class DataContractValidator {
+  constructor(private readonly schema: DataSchema = {}) {}
+
+  /**
+   * Ensure the keys a state declared are present and well-formed
+   */
+  checkKeys(
+    data: Record<string, unknown>,
+    keys: string[],
+    state: string,
+    stage: Exclude<DataContractStage, 'schema'>
+  ): void {
+    const missing = keys.filter(key => data[key] === undefined);
+    if (missing.length > 0) {
+      const verb = stage === 'requires' ? 'requires' : 'did not populate';
+      throw new DataContractError(
+        `State '${state}' ${verb} context data: ${missing.join(', ')}`,
+        state,
+        stage,
+        missing
+      );
+    }
+
+    this.checkSchema(data, state, keys);
+  }
+
+  /**
+   * Validate values against the schema. Checks every present key unless a
+   * subset is given.
+   */
+  checkSchema(
+    data: Record<string, unknown>,
+    state: string,
+    keys: string[] = Object.keys(data)
+  ): void {
+    const invalid = keys.filter(key => {
+      const validator = this.schema[key];
+      const value = data[key];
+      return (
+        validator !== undefined && value !== undefined && !validator(value)
+      );
+    });
+
+    if (invalid.length > 0) {
+      throw new DataContractError(
+        `Invalid context data in state '${state}': ${invalid.join(', ')}`,
+        state,
+        'schema',
+        invalid
+      );
+    }
+  }
+}
@@ -56,4 +56,32 @@ export class EventBuilder {
   static cycleComplete(): Event {
     return this.create('CYCLE_COMPLETE');
   }
+
+  static stateTimeout(state: string, timeoutMs: number): Event {
+    return this.create('STATE_TIMEOUT', { state, timeoutMs });
+  }
+
+  static substatesComplete(finalState: string | null): Event {
+    return this.create('SUBSTATES_COMPLETE', { finalState });
+  }
+
+  static substatesFailed(state: string | null, error: string): Event {
+    return this.create('SUBSTATES_FAILED', { state, error });
+  }
+
+  static regionsComplete(finalStates: Record<string, string | null>): Event {
+    return this.create('REGIONS_COMPLETE', { finalStates });
+  }
+
+  static regionFailed(errors: Record<string, string>): Event {
+    return this.create('REGION_FAILED', { errors });
+  }
+
+  static subworkflowComplete(mode: string, runs: unknown[]): Event {
+    return this.create('SUBWORKFLOW_COMPLETE', { mode, runs });
+  }
+
+  static subworkflowFailed(mode: string, runs: unknown[]): Event {
+    return this.create('SUBWORKFLOW_FAILED', { mode, runs });
+  }
 }
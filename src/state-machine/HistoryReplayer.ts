@@ -0,0 +1,203 @@
+import { Event } from './Event.js';
+import { BaseState, State, StateContext } from './State.js';
+import { StateMachine } from './StateMachine.js';
+import { Transition } from './Transition.js';
+import { TransitionHistory, TransitionRecord } from './TransitionHistory.js';
+
+export interface ReplayOptions {
+  /** State the recorded run started in (the first record's source by default) */
+  initialState?: string;
+  /**
+   * States whose transition tables drive the replay. Only getTransitions()
+   * and restoreSnapshotData() are used - enter/execute/exit are never called,
+   * so no browser or file system work happens.
+   */
+  states: Map<string, State>;
+  /** Context data at the start of the recorded run */
+  initialData?: Record<string, unknown>;
+}
+
+export interface ReplayStep {
+  event: Event;
+  from: string;
+  /** null when the replayed machine had no transition for the event */
+  to: string | null;
+}
+
+export interface ReplayDivergence {
+  index: number;
+  event: string;
+  expected: { from: string; to: string };
+  actual: { from: string; to: string | null } | null;
+}
+
+export interface ReplayResult {
+  steps: ReplayStep[];
+  finalState: string | null;
+  finalData: Record<string, unknown>;
+  /** Records the replay did not reproduce; empty when the run matches */
+  divergences: ReplayDivergence[];
+}
+
+/**
+ * Stand-in for a real state during replay. execute() hands out the next
+ * recorded event and applies the context changes and state data recorded
+ * with it, so guards see the same values they saw in the original run.
+ */
+class ReplayStubState extends BaseState {
+  constructor(
+    private readonly source: State,
+    private readonly script: ReplayScript
+  ) {
+    super(source.name);
+  }
+
+  async enter(): Promise<void> {
+    await Promise.resolve();
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    await Promise.resolve();
+    return this.script.next(context);
+  }
+
+  async exit(): Promise<void> {
+    await Promise.resolve();
+  }
+
+  getTransitions(): Transition[] {
+    return this.source.getTransitions();
+  }
+}
+
+class ReplayScript {
+  private cursor = 0;
+
+  constructor(
+    private readonly records: TransitionRecord[],
+    private readonly states: Map<string, State>,
+    private readonly onExhausted: () => void
+  ) {}
+
+  getConsumed(): number {
+    return this.cursor;
+  }
+
+  next(context: StateContext): Event | null {
+    const record = this.records[this.cursor];
+    if (!record) {
+      this.onExhausted();
+      return null;
+    }
+
+    this.cursor++;
+    TransitionHistory.applyDiff(context.data, record.contextDiff);
+    // Guards of the real states read counters such as retriesRemaining
+    for (const [name, data] of Object.entries(record.stateData ?? {})) {
+      this.states
+        .get(name)
+        ?.restoreSnapshotData?.(TransitionHistory.copyValue(data));
+    }
+    return record.event;
+  }
+}
+
+export class HistoryReplayer {
+  /**
+   * Feed a recorded event sequence through a fresh machine built from stub
+   * states and report where the path taken differs from the recording
+   */
+  static async replay(
+    records: TransitionRecord[],
+    options: ReplayOptions
+  ): Promise<ReplayResult> {
+    const initialState = options.initialState ?? records[0]?.from;
+    if (!initialState) {
+      throw new Error(
+        'Cannot replay an empty history without an initial state'
+      );
+    }
+
+    let machine: StateMachine | null = null;
+    const script = new ReplayScript(records, options.states, () => {
+      void machine?.stop();
+    });
+
+    const stubs = new Map<string, State>();
+    for (const [name, state] of options.states) {
+      stubs.set(name, new ReplayStubState(state, script));
+    }
+
+    const context: StateContext = {
+      config: {},
+      data: { ...(options.initialData ?? {}) },
+      logger: {
+        info: () => {},
+        warn: () => {},
+        error: () => {},
+        debug: () => {},
+      },
+    };
+
+    const unhandled = new Map<number, string>();
+    machine = new StateMachine({
+      initialState,
+      states: stubs,
+      context,
+      historyLimit: records.length,
+      observers: [
+        {
+          onEventUnhandled: (_event, state): void => {
+            unhandled.set(script.getConsumed() - 1, state);
+          },
+        },
+      ],
+    });
+
+    await machine.start();
+
+    // Interleave handled transitions with the events that went unhandled
+    const handled = machine.getHistory();
+    const steps: ReplayStep[] = [];
+    for (let index = 0; index < script.getConsumed(); index++) {
+      const state = unhandled.get(index);
+      const entry = state === undefined ? handled.shift() : undefined;
+
+      if (entry) {
+        steps.push({ event: entry.event, from: entry.from, to: entry.to });
+      } else if (state !== undefined) {
+        steps.push({ event: records[index].event, from: state, to: null });
+      }
+    }
+
+    return {
+      steps,
+      finalState: machine.getCurrentStateName(),
+      finalData: context.data,
+      divergences: this.compare(records, steps),
+    };
+  }
+
+  private static compare(
+    records: TransitionRecord[],
+    steps: ReplayStep[]
+  ): ReplayDivergence[] {
+    const divergences: ReplayDivergence[] = [];
+
+    records.forEach((record, index) => {
+      const step = steps[index];
+      if (step && step.from === record.from && step.to === record.to) {
+        return;
+      }
+
+      divergences.push({
+        index,
+        event: record.event.type,
+        expected: { from: record.from, to: record.to },
+        actual: step ? { from: step.from, to: step.to } : null,
+      });
+    });
+
+    return divergences;
+  }
+}
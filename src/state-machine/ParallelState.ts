@@ -0,0 +1,116 @@
+import { Event, EventBuilder } from './Event.js';
+import { BaseState, StateContext } from './State.js';
+import { StateMachine } from './StateMachine.js';
+import { Transition } from './Transition.js';
+import { SubMachineDefinition } from './CompositeState.js';
+import { WorkflowEvent } from '../types/WorkflowEvent.js';
+
+export interface ParallelRegion extends SubMachineDefinition {
+  name: string;
+}
+
+export interface ParallelStateOptions {
+  regions: ParallelRegion[];
+  /** Transitions of the parallel state itself in the parent machine */
+  transitions: Transition[];
+}
+
+/**
+ * A state made of orthogonal regions. Each region runs its own sub-machine
+ * concurrently against the shared context; the state joins once every region
+ * has reached its terminal state and emits REGIONS_COMPLETE, or REGION_FAILED
+ * if any region threw. A region whose state throws is stopped rather than
+ * retried, so the join always settles.
+ */
+export class ParallelState extends BaseState {
+  private readonly activeMachines = new Map<string, StateMachine>();
+
+  constructor(
+    name: string,
+    private readonly options: ParallelStateOptions
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    const errors: Record<string, string> = {};
+
+    const regions = this.options.regions.map(region => {
+      const machine: StateMachine = new StateMachine({
+        initialState: region.initialState,
+        states: region.states,
+        context,
+        observers: [
+          {
+            onError: async (error: Error): Promise<void> => {
+              errors[region.name] ??= error.message;
+              await machine.stop();
+            },
+          },
+        ],
+      });
+      this.activeMachines.set(region.name, machine);
+      return { region, machine };
+    });
+
+    const outcomes = await Promise.allSettled(
+      regions.map(({ machine }) => machine.start())
+    );
+    this.activeMachines.clear();
+
+    const finalStates: Record<string, string | null> = {};
+    let allTerminal = true;
+
+    outcomes.forEach((outcome, index) => {
+      const { region, machine } = regions[index];
+
+      if (outcome.status === 'rejected') {
+        errors[region.name] ??=
+          outcome.reason instanceof Error
+            ? outcome.reason.message
+            : 'Unknown error';
+        return;
+      }
+
+      finalStates[region.name] = machine.getCurrentStateName();
+      allTerminal = allTerminal && machine.hasReachedTerminalState();
+    });
+
+    if (Object.keys(errors).length > 0) {
+      context.logger.error(
+        `Parallel state '${this.name}' failed in regions: ${Object.keys(errors).join(', ')}`
+      );
+      return EventBuilder.regionFailed(errors);
+    }
+
+    if (!allTerminal) {
+      // Stopped from outside - let the parent machine decide what happens next
+      return null;
+    }
+
+    return EventBuilder.regionsComplete(finalStates);
+  }
+
+  async exit(context: StateContext): Promise<void> {
+    await Promise.all(
+      [...this.activeMachines.values()].map(machine => machine.stop())
+    );
+    this.activeMachines.clear();
+    await super.exit(context);
+  }
+
+  protected getDefaultTransitions(): Transition[] {
+    return this.options.transitions;
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.REGIONS_COMPLETE, WorkflowEvent.REGION_FAILED];
+  }
+
+  getActiveSubstates(): string[] {
+    return [...this.activeMachines.entries()].map(
+      ([regionName, machine]) =>
+        `${regionName}:${machine.getActiveStatePath().join('/')}`
+    );
+  }
+}
@@ -1,38 +1,113 @@
 import { Event } from './Event.js';
 import { Transition } from './Transition.js';
+import { DataContract } from './DataContract.js';
+import { Logger } from '../logging/Logger.js';
+import { WorkflowMetrics } from '../metrics/WorkflowMetrics.js';
+import { Tracer } from '../tracing/Tracer.js';
+import { WorkflowEventStream } from '../api/WorkflowEventStream.js';
+import { BrowserPool } from '../screenshot/BrowserPool.js';
 
-export interface State {
+export type StateData = Record<string, unknown>;
+
+export interface State<TData extends object = StateData> {
   name: string;
-  enter(context: StateContext): Promise<void>;
-  execute(context: StateContext): Promise<Event | null>;
-  exit(context: StateContext): Promise<void>;
+  enter(context: StateContext<TData>): Promise<void>;
+  execute(context: StateContext<TData>): Promise<Event | null>;
+  exit(context: StateContext<TData>): Promise<void>;
   getTransitions(): Transition[];
+  /**
+   * Names of the active sub-states, outermost first. Only implemented by
+   * composite and parallel states that run their own sub-machines.
+   */
+  getActiveSubstates?(): string[];
+  /**
+   * Internal values (e.g. retry counters) to persist in snapshots, and the
+   * matching restore hook used when resuming from one
+   */
+  getSnapshotData?(): Record<string, unknown>;
+  restoreSnapshotData?(data: Record<string, unknown>): void;
+  /**
+   * Context keys this state reads and writes, checked by the state machine
+   * on every transition into and out of the state
+   */
+  getDataContract?(): DataContract;
+  /**
+   * Event types execute() can return, used by static workflow analysis to
+   * find events no transition handles
+   */
+  getEmittedEvents?(): string[];
 }
 
-export interface StateContext {
+export interface StateContext<TData extends object = StateData> {
   config: Record<string, unknown>;
-  data: Record<string, unknown>;
-  logger: {
-    info: (message: string) => void;
-    error: (message: string) => void;
-    debug: (message: string) => void;
-  };
+  data: TData;
+  logger: Logger;
+  /**
+   * Aborted when the workflow is cancelled. Long-running work such as page
+   * loads and waits should pass it on and give up once it fires.
+   */
+  signal?: AbortSignal;
+  /** Where states record captures, changes, retries and similar outcomes */
+  metrics?: WorkflowMetrics;
+  /**
+   * When set, the state machine traces each cycle, with a span around every
+   * enter(), execute() and exit() call. Work done inside them can add child
+   * spans through traceActive().
+   */
+  tracer?: Tracer;
+  /** Where states publish captures, comparisons and quality reports live */
+  eventStream?: WorkflowEventStream;
+  /**
+   * Browser shared by every state of the workflow. States that capture
+   * without it launch a browser of their own.
+   */
+  browserPool?: BrowserPool;
 }
 
-export abstract class BaseState implements State {
+export abstract class BaseState<TData extends object = StateData>
+  implements State<TData>
+{
+  private configuredTransitions: Transition[] | null = null;
+
   constructor(public readonly name: string) {}
 
-  async enter(context: StateContext): Promise<void> {
+  async enter(context: StateContext<TData>): Promise<void> {
     await Promise.resolve(); // Make this actually async
     context.logger.info(`Entering state: ${this.name}`);
   }
 
-  abstract execute(context: StateContext): Promise<Event | null>;
+  abstract execute(context: StateContext<TData>): Promise<Event | null>;
 
-  async exit(context: StateContext): Promise<void> {
+  async exit(context: StateContext<TData>): Promise<void> {
     await Promise.resolve(); // Make this actually async
     context.logger.info(`Exiting state: ${this.name}`);
   }
 
-  abstract getTransitions(): Transition[];
+  /**
+   * Transitions set through setTransitions() take precedence over the ones
+   * the state defines itself
+   */
+  getTransitions(): Transition[] {
+    return this.configuredTransitions ?? this.getDefaultTransitions();
+  }
+
+  /**
+   * Replace the state's own transitions, e.g. with the ones a workflow mode
+   * declares in its configuration. Pass null to restore the defaults.
+   */
+  setTransitions(transitions: Transition[] | null): void {
+    this.configuredTransitions = transitions ? [...transitions] : null;
+  }
+
+  hasConfiguredTransitions(): boolean {
+    return this.configuredTransitions !== null;
+  }
+
+  /**
+   * Transitions used when none have been configured. Terminal states keep the
+   * empty default.
+   */
+  protected getDefaultTransitions(): Transition[] {
+    return [];
+  }
 }
@@ -1,12 +1,50 @@
-import { Event } from './Event.js';
-import { State, StateContext, BaseState } from './State.js';
+import { Event, EventBuilder } from './Event.js';
+import { State, StateContext } from './State.js';
 import { Transition } from './Transition.js';
+import {
+  SNAPSHOT_VERSION,
+  SnapshotStore,
+  StateMachineSnapshot,
+} from './StateSnapshot.js';
+import {
+  StateMachineObserver,
+  TransitionInfo,
+} from './StateMachineObserver.js';
+import { StateWatchdog, WatchdogOptions } from './StateWatchdog.js';
+import {
+  DataContractError,
+  DataContractValidator,
+  DataSchema,
+} from './DataContract.js';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  TransitionHistory,
+  TransitionRecord,
+} from './TransitionHistory.js';
 import { WorkflowState } from '../types/WorkflowState.js';
+import { Span } from '../tracing/Tracer.js';
 
 export interface StateMachineConfig {
   initialState: WorkflowState | string;
   states: Map<WorkflowState | string, State>;
   context: StateContext;
+  /** When set, a snapshot is checkpointed after every transition */
+  snapshotStore?: SnapshotStore;
+  observers?: StateMachineObserver[];
+  /**
+   * Maximum time in ms a state's execute() may take, keyed by state name.
+   * When it elapses a STATE_TIMEOUT event is emitted in place of the result.
+   */
+  stateTimeouts?: Record<string, number>;
+  /** Report states that stay active longer than a threshold */
+  watchdog?: WatchdogOptions;
+  /** Number of transitions kept by getHistory(); 0 disables recording */
+  historyLimit?: number;
+  /**
+   * Validators for context data values, applied together with each state's
+   * data contract whenever a transition leaves or enters a state
+   */
+  dataSchema?: DataSchema;
 }
 
 export class StateMachine {
@@ -14,10 +52,51 @@ export class StateMachine {
   private readonly states: Map<WorkflowState | string, State>;
   private readonly context: StateContext;
   private isRunning = false;
+  private terminalReached = false;
+  private readonly eventQueue: Event[] = [];
+  private resumeState: WorkflowState | string | null = null;
+  private readonly observers: StateMachineObserver[];
+  private stateEnteredAt = 0;
+  /** States whose timed-out execute() call is still settling */
+  private readonly pendingExecutions = new Set<string>();
+  private watchdog: StateWatchdog | null = null;
+  private readonly history: TransitionHistory;
+  private readonly dataValidator: DataContractValidator;
+  /** Context data as it was when the current state was entered */
+  private dataAtEnter = new Map<string, string>();
+  /** Set while paused; resolving it lets the loop continue */
+  private pauseGate: {
+    promise: Promise<void>;
+    release: () => void;
+    pausedAt: number;
+  } | null = null;
+  /**
+   * Root span of the cycle being traced. A cycle runs until the machine
+   * returns to its initial state or stops.
+   */
+  private cycleSpan: Span | null = null;
 
   constructor(private readonly config: StateMachineConfig) {
     this.states = config.states;
     this.context = config.context;
+    this.observers = [...(config.observers ?? [])];
+    this.history = new TransitionHistory(
+      config.historyLimit ?? DEFAULT_HISTORY_LIMIT
+    );
+    this.dataValidator = new DataContractValidator(config.dataSchema);
+  }
+
+  /**
+   * Attach an observer. Returns a function that detaches it again.
+   */
+  addObserver(observer: StateMachineObserver): () => void {
+    this.observers.push(observer);
+    return () => {
+      const index = this.observers.indexOf(observer);
+      if (index !== -1) {
+        this.observers.splice(index, 1);
+      }
+    };
   }
 
   async start(): Promise<void> {
@@ -25,22 +104,42 @@ export class StateMachine {
       throw new Error('State machine is already running');
     }
 
-    const initialState = this.states.get(this.config.initialState);
+    const initialStateName = this.resumeState ?? this.config.initialState;
+    const initialState = this.states.get(initialStateName);
     if (!initialState) {
-      throw new Error(`Initial state '${this.config.initialState}' not found`);
+      throw new Error(`Initial state '${initialStateName}' not found`);
     }
+    this.resumeState = null;
 
     this.isRunning = true;
+    this.terminalReached = false;
     this.currentState = initialState;
 
     try {
-      await this.currentState.enter(this.context);
+      this.checkRequiredData(this.currentState);
+      await this.traceState(initialState, 'enter', () =>
+        initialState.enter(this.context)
+      );
+      this.stateEnteredAt = Date.now();
+      this.dataAtEnter = TransitionHistory.fingerprint(this.context.data);
+      await this.notify('onStateEnter', this.currentState.name, null);
+      await this.checkpoint();
+      this.startWatchdog();
       await this.runStateMachine();
     } catch (error) {
+      this.isRunning = false;
       this.context.logger.error(
         `State machine error: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+      await this.notify(
+        'onError',
+        this.toError(error),
+        this.currentState?.name ?? null
+      );
       throw error;
+    } finally {
+      this.stopWatchdog();
+      this.endCycleSpan();
     }
   }
 
@@ -50,27 +149,207 @@ export class StateMachine {
     }
 
     this.isRunning = false;
+    this.stopWatchdog();
+    this.releasePause();
     if (this.currentState) {
-      await this.currentState.exit(this.context);
+      const state = this.currentState;
+      await this.traceState(state, 'exit', () => state.exit(this.context));
+      await this.notify('onStateExit', state.name, null);
+    }
+    this.endCycleSpan();
+  }
+
+  /**
+   * Hold the machine at its next tick. An execute() already in flight runs to
+   * completion, but its result and any queued events wait until resume().
+   */
+  pause(): void {
+    if (!this.isRunning || this.pauseGate) {
+      return;
+    }
+
+    let release: () => void = () => undefined;
+    const promise = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    this.pauseGate = { promise, release, pausedAt: Date.now() };
+    this.stopWatchdog();
+
+    const stateName = this.currentState?.name ?? null;
+    this.context.logger.info(
+      `State machine paused in state '${stateName ?? 'none'}'`
+    );
+    void this.notify('onPause', stateName);
+  }
+
+  resume(): void {
+    if (!this.pauseGate) {
+      return;
     }
+
+    // Time spent paused does not count towards the state's duration
+    this.stateEnteredAt += Date.now() - this.pauseGate.pausedAt;
+    this.releasePause();
+    this.startWatchdog();
+
+    const stateName = this.currentState?.name ?? null;
+    this.context.logger.info(
+      `State machine resumed in state '${stateName ?? 'none'}'`
+    );
+    void this.notify('onResume', stateName);
+  }
+
+  isPaused(): boolean {
+    return this.pauseGate !== null;
+  }
+
+  /**
+   * Prepare the machine to continue from a snapshot instead of the configured
+   * initial state. Must be called before start().
+   */
+  restore(snapshot: StateMachineSnapshot): void {
+    if (this.isRunning) {
+      throw new Error('Cannot restore a running state machine');
+    }
+
+    if (!this.states.has(snapshot.currentState)) {
+      throw new Error(
+        `Snapshot state '${snapshot.currentState}' not found in state machine`
+      );
+    }
+
+    // Mutate in place - the context object is shared with the states
+    for (const key of Object.keys(this.context.data)) {
+      delete this.context.data[key];
+    }
+    Object.assign(this.context.data, snapshot.data);
+
+    for (const [stateName, stateData] of Object.entries(snapshot.states)) {
+      this.states.get(stateName)?.restoreSnapshotData?.(stateData);
+    }
+
+    this.eventQueue.length = 0;
+    this.eventQueue.push(...snapshot.pendingEvents);
+    this.history.load(snapshot.history ?? []);
+    this.resumeState = snapshot.currentState;
+
+    this.context.logger.info(
+      `Restored snapshot from ${snapshot.savedAt.toISOString()} - resuming in state '${snapshot.currentState}'`
+    );
+  }
+
+  /**
+   * Capture the current state name, context data and pending events
+   */
+  createSnapshot(): StateMachineSnapshot {
+    if (!this.currentState) {
+      throw new Error('Cannot snapshot a state machine that has not started');
+    }
+
+    const states = this.collectStateData();
+
+    return {
+      version: SNAPSHOT_VERSION,
+      currentState: this.currentState.name,
+      data: { ...this.context.data },
+      pendingEvents: [...this.eventQueue],
+      states,
+      history: this.history.getEntries(),
+      savedAt: new Date(),
+    };
+  }
+
+  /**
+   * Queue an external event. Queued events are handled in order between
+   * execute() ticks, before the current state is executed again. Events the
+   * active state has no transition for are logged and dropped.
+   */
+  dispatch(event: Event): void {
+    this.eventQueue.push(event);
+    this.context.logger.debug(
+      `Queued event '${event.type}' (${this.eventQueue.length} pending)`
+    );
+  }
+
+  /**
+   * Transitions taken so far, oldest first, bounded by historyLimit
+   */
+  getHistory(): TransitionRecord[] {
+    return this.history.getEntries();
+  }
+
+  getPendingEvents(): Event[] {
+    return [...this.eventQueue];
   }
 
   getCurrentStateName(): string | null {
     return this.currentState?.name || null;
   }
 
-  getCurrentState(): BaseState | null {
+  getCurrentState(): State | null {
     return this.currentState || null;
   }
 
+  /**
+   * When the current state was entered, or null before the machine starts
+   */
+  getStateEnteredAt(): Date | null {
+    return this.currentState && this.stateEnteredAt
+      ? new Date(this.stateEnteredAt)
+      : null;
+  }
+
+  /**
+   * Path of active state names from this machine down through any composite
+   * or parallel sub-machines, e.g. ['CAPTURE', 'CAPTURE_DESKTOP']
+   */
+  getActiveStatePath(): string[] {
+    if (!this.currentState) {
+      return [];
+    }
+
+    return [
+      this.currentState.name,
+      ...(this.currentState.getActiveSubstates?.() ?? []),
+    ];
+  }
+
   isStateMachineRunning(): boolean {
     return this.isRunning;
   }
 
+  /**
+   * Whether the last run ended by reaching a terminal state rather than
+   * being stopped externally
+   */
+  hasReachedTerminalState(): boolean {
+    return this.terminalReached;
+  }
+
   private async runStateMachine(): Promise<void> {
     while (this.isRunning && this.currentState) {
+      if (this.pauseGate) {
+        await this.pauseGate.promise;
+        continue;
+      }
+
       try {
-        const event = await this.currentState.execute(this.context);
+        const event =
+          this.eventQueue.shift() ??
+          (await this.executeCurrentState(this.currentState));
+
+        if (!this.isRunning) {
+          // Stopped while the state was executing - drop its result
+          break;
+        }
+
+        if (this.pauseGate) {
+          // Paused mid-execute - handle the result once resumed
+          if (event) {
+            this.eventQueue.unshift(event);
+          }
+          continue;
+        }
 
         if (!event) {
           // Check if current state has no transitions (terminal state)
@@ -80,6 +359,10 @@ export class StateMachine {
               `Terminal state '${this.currentState.name}' reached - stopping state machine`
             );
             this.isRunning = false;
+            this.terminalReached = true;
+            await this.clearSnapshot();
+            await this.notify('onTerminal', this.currentState.name);
+            this.endCycleSpan();
             break;
           }
 
@@ -87,62 +370,499 @@ export class StateMachine {
           continue;
         }
 
+        // Taken before the guards run, so a replay can evaluate them the same way
+        const stateData = this.history.isRecording()
+          ? TransitionHistory.copyValue(this.collectStateData())
+          : undefined;
         const transition = this.findTransition(this.currentState, event);
         if (transition) {
-          await this.executeTransition(transition, event);
+          await this.executeTransition(transition, event, stateData);
         } else {
           this.context.logger.debug(
             `No transition found for event '${event.type}' in state '${this.currentState.name}'`
           );
+          await this.notify('onEventUnhandled', event, this.currentState.name);
         }
       } catch (error) {
+        if (!this.isRunning) {
+          // Stopped mid-execute, e.g. cancelled through the abort signal
+          break;
+        }
+
+        if (error instanceof DataContractError) {
+          // Retrying cannot repair a broken contract - end the run and let
+          // start() reject
+          await this.stop();
+          throw error;
+        }
+
         this.context.logger.error(
           `Error in state '${this.currentState.name}': ${error instanceof Error ? error.message : 'Unknown error'}`
         );
+        await this.notify(
+          'onError',
+          this.toError(error),
+          this.currentState.name
+        );
+        if (!this.isRunning) {
+          // An onError observer stopped the machine
+          break;
+        }
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
     }
   }
 
-  private findTransition(state: State, event: Event): Transition | null {
-    const transitions = state.getTransitions();
-    return (
-      transitions.find(transition => {
-        if (transition.eventType !== event.type) {
-          return false;
-        }
+  /**
+   * Run execute() on the state, racing it against the state's configured
+   * timeout. A timed-out execute() is aborted through its context's signal
+   * and its later writes to context data are discarded. It is left to settle
+   * in the background and the state is not executed again until it has.
+   */
+  private async executeCurrentState(state: State): Promise<Event | null> {
+    if (this.pendingExecutions.has(state.name)) {
+      // Idle tick: queued events are still handled meanwhile
+      return null;
+    }
 
-        if (transition.condition) {
-          return transition.condition(event, this.context.data);
-        }
+    const timeoutMs = this.config.stateTimeouts?.[state.name];
+    if (!timeoutMs || timeoutMs <= 0) {
+      return this.traceExecute(state);
+    }
 
-        return true;
-      }) || null
+    const timeoutController = new AbortController();
+    const execution = this.traceExecute(
+      state,
+      this.createTimedContext(timeoutController.signal)
     );
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([execution, timeout]);
+      if (result !== 'timeout') {
+        return result;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    timeoutController.abort(
+      new Error(`State '${state.name}' timed out after ${timeoutMs}ms`)
+    );
+    this.pendingExecutions.add(state.name);
+    void execution
+      .catch(() => undefined)
+      .finally(() => {
+        this.pendingExecutions.delete(state.name);
+      });
+
+    this.context.logger.error(
+      `State '${state.name}' timed out after ${timeoutMs}ms`
+    );
+    return EventBuilder.stateTimeout(state.name, timeoutMs);
+  }
+
+  /**
+   * Context for an execute() call that may time out. Its signal also fires on
+   * timeout, after which writes to its data no longer reach the machine's
+   * context.
+   */
+  private createTimedContext(timeoutSignal: AbortSignal): StateContext {
+    const dropAfterTimeout = (key: string | symbol): boolean => {
+      if (timeoutSignal.aborted) {
+        this.context.logger.debug(
+          `Discarded write to '${String(key)}' from a timed-out execute()`
+        );
+      }
+      return timeoutSignal.aborted;
+    };
+
+    return {
+      ...this.context,
+      signal: this.context.signal
+        ? AbortSignal.any([this.context.signal, timeoutSignal])
+        : timeoutSignal,
+      data: new Proxy(this.context.data, {
+        set: (target, key, value): boolean =>
+          dropAfterTimeout(key) || Reflect.set(target, key, value),
+        deleteProperty: (target, key): boolean =>
+          dropAfterTimeout(key) || Reflect.deleteProperty(target, key),
+      }),
+    };
+  }
+
+  /**
+   * Run execute() in a span of the cycle trace. Ticks that return no event
+   * and started no child spans, such as a monitoring state polling for its
+   * schedule, are not exported.
+   */
+  private async traceExecute(
+    state: State,
+    context: StateContext = this.context
+  ): Promise<Event | null> {
+    const span = this.startStateSpan(state, 'execute');
+    if (!span) {
+      return state.execute(context);
+    }
+
+    const event = await this.runInSpan(span, () => state.execute(context));
+    if (!event && span.childCount === 0) {
+      span.discard();
+      return event;
+    }
+
+    if (event) {
+      span.setAttribute('event.type', event.type);
+    }
+    span.end();
+    return event;
+  }
+
+  private async traceState(
+    state: State,
+    phase: 'enter' | 'exit',
+    run: () => Promise<void>
+  ): Promise<void> {
+    const span = this.startStateSpan(state, phase);
+    if (!span) {
+      return run();
+    }
+
+    await this.runInSpan(span, run);
+    span.end();
+  }
+
+  private startStateSpan(state: State, phase: string): Span | null {
+    const tracer = this.context.tracer;
+    if (!tracer) {
+      return null;
+    }
+
+    // Nested machines (composite, parallel and sub-workflow states) start
+    // their cycle inside the active span of the parent's execute()
+    this.cycleSpan ??= tracer.startSpan('cycle', {
+      attributes: this.getCycleAttributes(),
+    });
+    return tracer.startSpan(`${state.name}.${phase}`, {
+      parent: this.cycleSpan,
+      attributes: { 'state.name': state.name, 'state.phase': phase },
+    });
+  }
+
+  private async runInSpan<T>(span: Span, run: () => Promise<T>): Promise<T> {
+    try {
+      return await span.tracer.withSpan(span, run);
+    } catch (error) {
+      span.recordError(error);
+      span.end();
+      throw error;
+    }
+  }
+
+  private getCycleAttributes(): Record<string, string> {
+    const { workflowMode, cycleId } = this.context.data;
+    return {
+      'workflow.initial_state': this.config.initialState,
+      ...(typeof workflowMode === 'string'
+        ? { 'workflow.mode': workflowMode }
+        : {}),
+      ...(typeof cycleId === 'string' ? { 'workflow.cycle_id': cycleId } : {}),
+    };
+  }
+
+  private endCycleSpan(): void {
+    this.cycleSpan?.end();
+    this.cycleSpan = null;
+  }
+
+  private startWatchdog(): void {
+    if (!this.config.watchdog) {
+      return;
+    }
+
+    this.watchdog = new StateWatchdog(this, this.config.watchdog, report => {
+      this.context.logger.error(
+        `Watchdog: state '${report.activePath.join(' > ')}' has been active for ${Math.round(report.stuckForMs / 1000)}s (threshold ${Math.round(report.thresholdMs / 1000)}s)`
+      );
+      void this.notify('onStateStuck', report);
+    });
+    this.watchdog.start();
+  }
+
+  private releasePause(): void {
+    this.pauseGate?.release();
+    this.pauseGate = null;
+  }
+
+  private stopWatchdog(): void {
+    this.watchdog?.stop();
+    this.watchdog = null;
+  }
+
+  /**
+   * Pick the matching transition with the highest priority. Transitions with
+   * equal priority keep their declaration order.
+   */
+  private findTransition(state: State, event: Event): Transition | null {
+    let selected: Transition | null = null;
+
+    for (const transition of state.getTransitions()) {
+      if (transition.eventType !== event.type) {
+        continue;
+      }
+
+      if (
+        transition.condition &&
+        !transition.condition(event, this.context.data)
+      ) {
+        continue;
+      }
+
+      if (!selected || (transition.priority ?? 0) > (selected.priority ?? 0)) {
+        selected = transition;
+      }
+    }
+
+    return selected;
   }
 
   private async executeTransition(
     transition: Transition,
-    event: Event
+    event: Event,
+    stateData?: Record<string, Record<string, unknown>>
   ): Promise<void> {
     if (!this.currentState) {
       return;
     }
 
-    const targetState = this.states.get(transition.targetState);
+    this.checkProvidedData(this.currentState, event);
+
+    if (transition.kind === 'internal') {
+      this.context.logger.debug(
+        `Handling event '${event.type}' internally in state '${this.currentState.name}'`
+      );
+      await this.runTransitionAction(transition, event);
+      this.recordTransition(
+        this.currentState.name,
+        this.currentState.name,
+        event,
+        Date.now() - this.stateEnteredAt,
+        stateData
+      );
+      await this.checkpoint();
+      return;
+    }
+
+    const targetState = transition.targetState
+      ? this.states.get(transition.targetState)
+      : undefined;
     if (!targetState) {
       this.context.logger.error(
-        `Target state '${transition.targetState}' not found`
+        `Target state '${transition.targetState ?? '(none)'}' not found`
       );
       return;
     }
 
+    // Checked before exit - transition actions cannot satisfy requirements
+    this.checkRequiredData(targetState);
+
     this.context.logger.info(
       `Transitioning from '${this.currentState.name}' to '${targetState.name}' on event '${event.type}'`
     );
 
-    await this.currentState.exit(this.context);
+    const sourceName = this.currentState.name;
+    const transitionStart = Date.now();
+
+    const sourceState = this.currentState;
+    await this.traceState(sourceState, 'exit', () =>
+      sourceState.exit(this.context)
+    );
+    const exitEnd = Date.now();
+    await this.notify('onStateExit', sourceName, event);
+
+    await this.runTransitionAction(transition, event);
+
+    if (targetState.name === this.config.initialState) {
+      // Back at the start - the next cycle gets a trace of its own
+      this.endCycleSpan();
+    }
+
     this.currentState = targetState;
-    await this.currentState.enter(this.context);
+    const enterStart = Date.now();
+    await this.traceState(targetState, 'enter', () =>
+      targetState.enter(this.context)
+    );
+    const transitionEnd = Date.now();
+    await this.notify('onStateEnter', targetState.name, event);
+
+    const info: TransitionInfo = {
+      event,
+      from: sourceName,
+      to: targetState.name,
+      timing: {
+        timeInSourceMs: transitionStart - this.stateEnteredAt,
+        exitMs: exitEnd - transitionStart,
+        enterMs: transitionEnd - enterStart,
+        totalMs: transitionEnd - transitionStart,
+      },
+    };
+    this.recordTransition(
+      sourceName,
+      targetState.name,
+      event,
+      info.timing.timeInSourceMs,
+      stateData
+    );
+    this.stateEnteredAt = transitionEnd;
+
+    await this.notify('onTransition', info);
+    await this.checkpoint();
+  }
+
+  /**
+   * Throws a DataContractError when the state emitted an event without
+   * populating the keys it promised, or left invalid values behind
+   */
+  private checkProvidedData(state: State, event: Event): void {
+    const provides = state.getDataContract?.().provides?.[event.type] ?? [];
+    this.dataValidator.checkKeys(
+      this.context.data,
+      provides,
+      state.name,
+      'provides'
+    );
+    this.dataValidator.checkSchema(this.context.data, state.name);
+  }
+
+  private checkRequiredData(state: State): void {
+    const requires = state.getDataContract?.().requires ?? [];
+    this.dataValidator.checkKeys(
+      this.context.data,
+      requires,
+      state.name,
+      'requires'
+    );
+  }
+
+  private recordTransition(
+    from: string,
+    to: string,
+    event: Event,
+    durationMs: number,
+    stateData: Record<string, Record<string, unknown>> | undefined
+  ): void {
+    this.history.record({
+      from,
+      to,
+      event,
+      timestamp: new Date(),
+      durationMs,
+      contextDiff: TransitionHistory.diffContext(
+        this.dataAtEnter,
+        this.context.data
+      ),
+      ...(stateData && { stateData }),
+    });
+    this.dataAtEnter = TransitionHistory.fingerprint(this.context.data);
+  }
+
+  /**
+   * Snapshot data of every state that has any, keyed by state name
+   */
+  private collectStateData(): Record<string, Record<string, unknown>> {
+    const states: Record<string, Record<string, unknown>> = {};
+    for (const [stateName, state] of this.states) {
+      const stateData = state.getSnapshotData?.();
+      if (stateData) {
+        states[stateName] = stateData;
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Run a transition's action. A failing action is reported but does not
+   * undo the transition - the source state has already exited by then.
+   */
+  private async runTransitionAction(
+    transition: Transition,
+    event: Event
+  ): Promise<void> {
+    if (!transition.action) {
+      return;
+    }
+
+    try {
+      await transition.action(event, this.context.data);
+    } catch (error) {
+      this.context.logger.error(
+        `Transition action for event '${event.type}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      await this.notify(
+        'onError',
+        this.toError(error),
+        this.currentState?.name ?? null
+      );
+    }
+  }
+
+  private async notify<K extends keyof StateMachineObserver>(
+    hook: K,
+    ...args: Parameters<NonNullable<StateMachineObserver[K]>>
+  ): Promise<void> {
+    for (const observer of [...this.observers]) {
+      const handler = observer[hook] as
+        | ((...handlerArgs: typeof args) => void | Promise<void>)
+        | undefined;
+
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        await handler.apply(observer, args);
+      } catch (error) {
+        // Observers must never break the machine they observe
+        this.context.logger.error(
+          `Observer ${hook} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  }
+
+  private toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  private async checkpoint(): Promise<void> {
+    if (!this.config.snapshotStore) {
+      return;
+    }
+
+    try {
+      await this.config.snapshotStore.save(this.createSnapshot());
+    } catch (error) {
+      this.context.logger.error(
+        `Failed to save state machine snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async clearSnapshot(): Promise<void> {
+    if (!this.config.snapshotStore) {
+      return;
+    }
+
+    try {
+      // A finished run has nothing to resume
+      await this.config.snapshotStore.clear();
+    } catch (error) {
+      this.context.logger.error(
+        `Failed to clear state machine snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
   }
 }
@@ -0,0 +1,41 @@
+import { Event } from './Event.js';
+import { StuckStateReport } from './StateWatchdog.js';
+
+export interface TransitionTiming {
+  /** Time spent in the source state, from its enter() to the transition */
+  timeInSourceMs: number;
+  /** Duration of the source state's exit() */
+  exitMs: number;
+  /** Duration of the target state's enter() */
+  enterMs: number;
+  /** Duration of the whole transition, exit through enter */
+  totalMs: number;
+}
+
+export interface TransitionInfo {
+  event: Event;
+  from: string;
+  to: string;
+  timing: TransitionTiming;
+}
+
+/**
+ * Lifecycle hooks for attaching metrics, audit writers and notifiers to a
+ * state machine without touching the state classes. All hooks are optional;
+ * errors thrown by an observer are logged and never interrupt the machine.
+ */
+export interface StateMachineObserver {
+  onTransition?(info: TransitionInfo): void | Promise<void>;
+  /** event is null when entering the initial (or restored) state */
+  onStateEnter?(state: string, event: Event | null): void | Promise<void>;
+  /** event is null when the state is exited because the machine stopped */
+  onStateExit?(state: string, event: Event | null): void | Promise<void>;
+  onEventUnhandled?(event: Event, state: string): void | Promise<void>;
+  onError?(error: Error, state: string | null): void | Promise<void>;
+  onTerminal?(state: string): void | Promise<void>;
+  /** Raised by the watchdog when a state outlives the stuck threshold */
+  onStateStuck?(report: StuckStateReport): void | Promise<void>;
+  /** state is the state the machine was paused or resumed in */
+  onPause?(state: string | null): void | Promise<void>;
+  onResume?(state: string | null): void | Promise<void>;
+}
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Event } from './Event.js';
+import { TransitionRecord } from './TransitionHistory.js';
+
+/** Version 2 tags Date values instead of guessing them from strings */
+export const SNAPSHOT_VERSION = 2;
+
+export interface StateMachineSnapshot {
+  version: number;
+  currentState: string;
+  data: Record<string, unknown>;
+  pendingEvents: Event[];
+  /** Per-state internals such as retry counters, keyed by state name */
+  states: Record<string, Record<string, unknown>>;
+  /** Recent transitions, so the path taken survives a resume */
+  history?: TransitionRecord[];
+  savedAt: Date;
+}
+
+export interface SnapshotStore {
+  save(snapshot: StateMachineSnapshot): Promise<void>;
+  load(): Promise<StateMachineSnapshot | null>;
+  clear(): Promise<void>;
+}
+
+/** How a Date is written to a snapshot */
+interface TaggedDate {
+  $date: string;
+}
+
+const isTaggedDate = (value: unknown): value is TaggedDate =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.keys(value).length === 1 &&
+  typeof (value as Partial<TaggedDate>).$date === 'string';
+
+export class SnapshotSerializer {
+  /**
+   * Write a snapshot as JSON. Dates are tagged as { $date: <ISO string> } so
+   * that strings which merely look like timestamps stay strings.
+   */
+  static serialize(snapshot: StateMachineSnapshot): string {
+    return JSON.stringify(
+      snapshot,
+      function (this: Record<string, unknown>, key: string, value: unknown) {
+        // Date.toJSON() has already run on value; the holder has the original
+        const original = this[key];
+        return original instanceof Date
+          ? ({ $date: original.toISOString() } satisfies TaggedDate)
+          : value;
+      },
+      2
+    );
+  }
+
+  /**
+   * Parse a snapshot, reviving tagged values back into Date objects so that
+   * values like cycleStartTime behave the same after a restore
+   */
+  static deserialize(json: string): StateMachineSnapshot {
+    const snapshot = JSON.parse(json, (_key, value: unknown) =>
+      isTaggedDate(value) ? new Date(value.$date) : value
+    ) as StateMachineSnapshot;
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported snapshot version: ${snapshot.version} (expected ${SNAPSHOT_VERSION})`
+      );
+    }
+
+    if (!snapshot.currentState) {
+      throw new Error('Snapshot is missing currentState');
+    }
+
+    return snapshot;
+  }
+}
+
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly filePath: string) {}
+
+  async save(snapshot: StateMachineSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file first so a crash mid-write never corrupts the
+    // previous checkpoint
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(
+      tempPath,
+      SnapshotSerializer.serialize(snapshot),
+      'utf8'
+    );
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async load(): Promise<StateMachineSnapshot | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return SnapshotSerializer.deserialize(content);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        'code' in error &&
+        error.code === 'ENOENT'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+}
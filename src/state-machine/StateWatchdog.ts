@@ -0,0 +1,102 @@
+export interface WatchdogOptions {
+  /** Report a state once it has been active for longer than this */
+  stuckThresholdMs: number;
+  /** How often to check; defaults to a quarter of the threshold */
+  checkIntervalMs?: number;
+  /** States that legitimately wait for long periods, e.g. MONITORING */
+  ignoreStates?: string[];
+}
+
+export interface StuckStateReport {
+  state: string;
+  activePath: string[];
+  stuckForMs: number;
+  thresholdMs: number;
+  enteredAt: Date;
+}
+
+/**
+ * The parts of a state machine the watchdog needs to inspect
+ */
+export interface WatchedMachine {
+  getCurrentStateName(): string | null;
+  getActiveStatePath(): string[];
+  getStateEnteredAt(): Date | null;
+}
+
+/**
+ * Periodically checks how long the machine has been in its current state and
+ * reports states stuck past the threshold. Each state entry is reported at
+ * most once.
+ */
+export class StateWatchdog {
+  private timer: NodeJS.Timeout | null = null;
+  private lastReportedEntry: number | null = null;
+
+  constructor(
+    private readonly machine: WatchedMachine,
+    private readonly options: WatchdogOptions,
+    private readonly onStuck: (report: StuckStateReport) => void
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const interval =
+      this.options.checkIntervalMs ??
+      Math.max(1000, Math.floor(this.options.stuckThresholdMs / 4));
+
+    this.timer = setInterval(() => {
+      this.check();
+    }, interval);
+    // Never keep the process alive just for the watchdog
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isActive(): boolean {
+    return this.timer !== null;
+  }
+
+  check(now: Date = new Date()): StuckStateReport | null {
+    const state = this.machine.getCurrentStateName();
+    const enteredAt = this.machine.getStateEnteredAt();
+
+    if (!state || !enteredAt) {
+      return null;
+    }
+
+    if (this.options.ignoreStates?.includes(state)) {
+      return null;
+    }
+
+    const stuckForMs = now.getTime() - enteredAt.getTime();
+    if (
+      stuckForMs <= this.options.stuckThresholdMs ||
+      this.lastReportedEntry === enteredAt.getTime()
+    ) {
+      return null;
+    }
+
+    this.lastReportedEntry = enteredAt.getTime();
+
+    const report: StuckStateReport = {
+      state,
+      activePath: this.machine.getActiveStatePath(),
+      stuckForMs,
+      thresholdMs: this.options.stuckThresholdMs,
+      enteredAt,
+    };
+    this.onStuck(report);
+
+    return report;
+  }
+}
@@ -2,17 +2,106 @@ import { Event } from './Event.js';
 import { WorkflowEvent } from '../types/WorkflowEvent.js';
 import { WorkflowState } from '../types/WorkflowState.js';
 
+export type TransitionCondition = (
+  event: Event,
+  context: Record<string, unknown>
+) => boolean;
+
+export type TransitionAction = (
+  event: Event,
+  context: Record<string, unknown>
+) => void | Promise<void>;
+
+export type TransitionKind = 'external' | 'internal';
+
 export interface Transition {
   eventType: WorkflowEvent | string;
-  targetState: WorkflowState | string;
-  condition?: (event: Event, context: Record<string, unknown>) => boolean;
+  /** Omitted for internal transitions, which stay in the source state */
+  targetState?: WorkflowState | string;
+  condition?: TransitionCondition;
+  /** Human-readable form of the condition, shown in exported diagrams */
+  description?: string;
+  /** Side effect run after the source state exits and before the target enters */
+  action?: TransitionAction;
+  /** Matching transitions with a higher priority win; defaults to 0 */
+  priority?: number;
+  /** Internal transitions run their action without exit/enter; defaults to 'external' */
+  kind?: TransitionKind;
+}
+
+/**
+ * Fluent builder returned by TransitionBuilder.on(). Modifiers may be chained
+ * in any order before the terminal goTo(), goToIf() or internal() call.
+ */
+export class TransitionChain {
+  private action?: TransitionAction;
+  private priorityValue?: number;
+
+  constructor(private readonly eventType: WorkflowEvent | string) {}
+
+  withAction(action: TransitionAction): this {
+    this.action = action;
+    return this;
+  }
+
+  priority(value: number): this {
+    this.priorityValue = value;
+    return this;
+  }
+
+  goTo(targetState: WorkflowState | string): Transition {
+    return this.build(targetState);
+  }
+
+  goToIf(
+    targetState: WorkflowState | string,
+    condition: TransitionCondition,
+    description?: string
+  ): Transition {
+    return this.build(targetState, condition, description);
+  }
+
+  /**
+   * Handle the event in place: the action runs but the state is neither
+   * exited nor re-entered
+   */
+  internal(condition?: TransitionCondition, description?: string): Transition {
+    return {
+      ...this.build(undefined, condition, description),
+      kind: 'internal',
+    };
+  }
+
+  private build(
+    targetState: WorkflowState | string | undefined,
+    condition?: TransitionCondition,
+    description?: string
+  ): Transition {
+    const transition: Transition = TransitionBuilder.create(
+      this.eventType,
+      targetState,
+      condition
+    );
+
+    if (description) {
+      transition.description = description;
+    }
+    if (this.action) {
+      transition.action = this.action;
+    }
+    if (this.priorityValue !== undefined) {
+      transition.priority = this.priorityValue;
+    }
+
+    return transition;
+  }
 }
 
 export class TransitionBuilder {
   static create(
     eventType: WorkflowEvent | string,
-    targetState: WorkflowState | string,
-    condition?: (event: Event, context: Record<string, unknown>) => boolean
+    targetState: WorkflowState | string | undefined,
+    condition?: TransitionCondition
   ): Transition {
     return {
       eventType,
@@ -21,20 +110,7 @@ export class TransitionBuilder {
     };
   }
 
-  static on(eventType: WorkflowEvent | string): {
-    goTo: (targetState: WorkflowState | string) => Transition;
-    goToIf: (
-      targetState: WorkflowState | string,
-      condition: (event: Event, context: Record<string, unknown>) => boolean
-    ) => Transition;
-  } {
-    return {
-      goTo: (targetState: WorkflowState | string) =>
-        this.create(eventType, targetState),
-      goToIf: (
-        targetState: WorkflowState | string,
-        condition: (event: Event, context: Record<string, unknown>) => boolean
-      ) => this.create(eventType, targetState, condition),
-    };
+  static on(eventType: WorkflowEvent | string): TransitionChain {
+    return new TransitionChain(eventType);
   }
 }
@@ -0,0 +1,143 @@
+import { Event } from './Event.js';
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface ContextDiff {
+  /** Keys that did not exist before, with their new values */
+  added: Record<string, unknown>;
+  removed: string[];
+  /** Keys whose value changed, with their new values */
+  changed: Record<string, unknown>;
+}
+
+export interface TransitionRecord {
+  from: string;
+  /** Equal to from for internal transitions */
+  to: string;
+  event: Event;
+  timestamp: Date;
+  /** Time spent in the source state, from its enter() to the transition */
+  durationMs: number;
+  /** Context data changes made while in the source state and its transition */
+  contextDiff: ContextDiff;
+  /**
+   * Snapshot data of the states (e.g. retry counters) when the transition's
+   * guards were evaluated, keyed by state name
+   */
+  stateData?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Fixed-size log of the transitions a state machine has taken. Once the limit
+ * is reached the oldest entries are dropped.
+ */
+export class TransitionHistory {
+  private readonly records: TransitionRecord[] = [];
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  isRecording(): boolean {
+    return this.limit > 0;
+  }
+
+  record(entry: TransitionRecord): void {
+    if (this.limit <= 0) {
+      return;
+    }
+
+    this.records.push(entry);
+    if (this.records.length > this.limit) {
+      this.records.splice(0, this.records.length - this.limit);
+    }
+  }
+
+  getEntries(): TransitionRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Replace the log, e.g. with entries restored from a snapshot
+   */
+  load(entries: TransitionRecord[]): void {
+    this.records.length = 0;
+    for (const entry of entries) {
+      this.record(entry);
+    }
+  }
+
+  clear(): void {
+    this.records.length = 0;
+  }
+
+  /**
+   * Serialize each value of a context so later mutations (including in-place
+   * ones like array pushes) can be detected by diffContext()
+   */
+  static fingerprint(data: Record<string, unknown>): Map<string, string> {
+    const fingerprint = new Map<string, string>();
+    for (const [key, value] of Object.entries(data)) {
+      fingerprint.set(key, this.serializeValue(value));
+    }
+    return fingerprint;
+  }
+
+  static diffContext(
+    before: Map<string, string>,
+    after: Record<string, unknown>
+  ): ContextDiff {
+    const diff: ContextDiff = { added: {}, removed: [], changed: {} };
+
+    for (const [key, value] of Object.entries(after)) {
+      const previous = before.get(key);
+      if (previous === undefined) {
+        diff.added[key] = this.copyValue(value);
+      } else if (previous !== this.serializeValue(value)) {
+        diff.changed[key] = this.copyValue(value);
+      }
+    }
+
+    for (const key of before.keys()) {
+      if (!(key in after)) {
+        diff.removed.push(key);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Apply a recorded diff to a context in place
+   */
+  static applyDiff(data: Record<string, unknown>, diff: ContextDiff): void {
+    Object.assign(
+      data,
+      this.copyValue(diff.added),
+      this.copyValue(diff.changed)
+    );
+    for (const key of diff.removed) {
+      delete data[key];
+    }
+  }
+
+  /**
+   * Deep copy of a value, so later mutations of the live context cannot
+   * rewrite what was recorded. Values that cannot be cloned, such as
+   * functions, are kept by reference.
+   */
+  static copyValue<T>(value: T): T {
+    try {
+      return structuredClone(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private static serializeValue(value: unknown): string {
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      // Circular or otherwise unserializable values are compared by type only
+      return `[unserializable ${typeof value}]`;
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  SpanAttributeValue,
+  SpanAttributes,
+  SpanData,
+  SpanExporter,
+  SpanStatusCode,
+} from './Tracer.js';
+
+export const DEFAULT_SERVICE_NAME = 'screenshot-automation';
+
+/**
+ * Keeps finished spans in memory, e.g. for tests or an in-process viewer
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Appends every export as one line of OTLP/JSON (an ExportTraceServiceRequest),
+ * the format written by the OpenTelemetry Collector's file exporter. The file
+ * can be loaded into Jaeger or replayed to a collector.
+ */
+export class OtlpJsonFileExporter implements SpanExporter {
+  constructor(
+    private readonly filePath: string,
+    private readonly serviceName = DEFAULT_SERVICE_NAME
+  ) {}
+
+  async export(spans: SpanData[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      `${JSON.stringify(toOtlpJson(spans, this.serviceName))}\n`,
+      'utf8'
+    );
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+}
+
+const STATUS_CODES: Record<SpanStatusCode, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/** SPAN_KIND_INTERNAL - every span describes work inside this process */
+const SPAN_KIND_INTERNAL = 1;
+
+export function toOtlpJson(
+  spans: SpanData[],
+  serviceName = DEFAULT_SERVICE_NAME
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOtlpAttributes({ 'service.name': serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: DEFAULT_SERVICE_NAME },
+            spans: spans.map(span => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId ?? '',
+              name: span.name,
+              kind: SPAN_KIND_INTERNAL,
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOtlpAttributes(span.attributes),
+              events: span.events.map(event => ({
+                timeUnixNano: toUnixNano(event.time),
+                name: event.name,
+                attributes: toOtlpAttributes(event.attributes),
+              })),
+              status: {
+                code: STATUS_CODES[span.status.code],
+                ...(span.status.message
+                  ? { message: span.status.message }
+                  : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpAttributes(
+  attributes: SpanAttributes
+): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: toOtlpValue(value),
+  }));
+}
+
+function toOtlpValue(value: SpanAttributeValue): Record<string, unknown> {
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    // OTLP/JSON encodes 64-bit integers as strings
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toUnixNano(timeMs: number): string {
+  const wholeMs = Math.floor(timeMs);
+  const nanos = Math.round((timeMs - wholeMs) * 1e6);
+  return (BigInt(wholeMs) * 1000000n + BigInt(nanos)).toString();
+}
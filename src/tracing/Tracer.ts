@@ -0,0 +1,281 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import { Logger } from '../logging/Logger.js';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch, with sub-millisecond precision */
+  time: number;
+  attributes: SpanAttributes;
+}
+
+/**
+ * A finished span as handed to exporters
+ */
+export interface SpanData {
+  /** 32 hex characters, shared by every span of one workflow cycle */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** Milliseconds since the epoch, with sub-millisecond precision */
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): void | Promise<void>;
+}
+
+export interface SpanOptions {
+  attributes?: SpanAttributes;
+  /**
+   * Parent span. Defaults to the active span of the current async context;
+   * null starts a new trace.
+   */
+  parent?: Span | null;
+}
+
+export class Span {
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly traceId: string;
+  readonly startTime = now();
+  private endTime: number | null = null;
+  private readonly attributes: SpanAttributes;
+  private readonly events: SpanEvent[] = [];
+  private status: SpanData['status'] = { code: 'unset' };
+  private children = 0;
+
+  constructor(
+    readonly name: string,
+    readonly tracer: Tracer,
+    readonly parent: Span | null,
+    attributes: SpanAttributes = {}
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+    this.attributes = { ...attributes };
+    if (parent) {
+      parent.children++;
+    }
+  }
+
+  get childCount(): number {
+    return this.children;
+  }
+
+  isEnded(): boolean {
+    return this.endTime !== null;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    this.events.push({ name, time: now(), attributes });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = message === undefined ? { code } : { code, message };
+    return this;
+  }
+
+  /**
+   * Mark the span as failed and attach the error as an "exception" event
+   */
+  recordError(error: unknown): this {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': message,
+    });
+    return this.setStatus('error', message);
+  }
+
+  /**
+   * Finish the span and hand it to the tracer for export. Later calls are
+   * ignored.
+   */
+  end(): void {
+    if (this.endTime !== null) {
+      return;
+    }
+    this.endTime = now();
+    this.tracer.onEnd(this, false);
+  }
+
+  /**
+   * Finish the span without exporting it, e.g. an idle polling tick
+   */
+  discard(): void {
+    if (this.endTime !== null) {
+      return;
+    }
+    this.endTime = now();
+    this.tracer.onEnd(this, true);
+  }
+
+  toData(): SpanData {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parent ? { parentSpanId: this.parent.spanId } : {}),
+      name: this.name,
+      startTime: this.startTime,
+      endTime: this.endTime ?? now(),
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status },
+    };
+  }
+}
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/**
+ * The span whose callback is running in the current async context, if any
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+/**
+ * Run fn in a child span of the active span, so library code such as the
+ * screenshot service can be traced without being handed a tracer. Outside a
+ * trace fn runs as is and receives no span.
+ */
+export async function traceActive<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span | undefined) => Promise<T>
+): Promise<T> {
+  const parent = getActiveSpan();
+  if (!parent) {
+    return fn(undefined);
+  }
+  return parent.tracer.trace(name, fn, { attributes, parent });
+}
+
+/**
+ * Creates spans and exports each trace once its root span has ended. Spans
+ * that end after their root are exported on their own.
+ */
+export class Tracer {
+  /** Ended spans of traces whose root is still open, keyed by trace ID */
+  private readonly pending = new Map<string, SpanData[]>();
+  private exports: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly exporter: SpanExporter,
+    private readonly logger?: Logger
+  ) {}
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent =
+      options.parent === undefined ? (getActiveSpan() ?? null) : options.parent;
+    const span = new Span(name, this, parent, options.attributes);
+
+    if (!parent) {
+      this.pending.set(span.traceId, []);
+    }
+    return span;
+  }
+
+  /**
+   * Run fn with the span active, so spans started inside it become its
+   * children
+   */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return activeSpan.run(span, fn);
+  }
+
+  /**
+   * Run fn in a new active span that ends when fn settles. A rejection marks
+   * the span as failed and is rethrown.
+   */
+  async trace<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    options: SpanOptions = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await this.withSpan(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Export the spans of unfinished traces that have ended so far and wait
+   * for all exports to complete
+   */
+  async flush(): Promise<void> {
+    for (const spans of this.pending.values()) {
+      if (spans.length) {
+        this.export(spans.splice(0));
+      }
+    }
+    await this.exports;
+  }
+
+  /** @internal Called by Span.end() and Span.discard() */
+  onEnd(span: Span, discarded: boolean): void {
+    const trace = this.pending.get(span.traceId);
+
+    if (!span.parent) {
+      this.pending.delete(span.traceId);
+      this.export([...(trace ?? []), span.toData()]);
+      return;
+    }
+
+    if (discarded) {
+      return;
+    }
+
+    if (trace) {
+      trace.push(span.toData());
+    } else {
+      this.export([span.toData()]);
+    }
+  }
+
+  private export(spans: SpanData[]): void {
+    // Exports run one at a time so file exporters never interleave writes
+    this.exports = this.exports
+      .then(() => this.exporter.export(spans))
+      .catch(error => {
+        this.logger?.error(
+          `Span export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      });
+  }
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
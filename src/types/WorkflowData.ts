@@ -0,0 +1,91 @@
+import { DataSchema } from '../state-machine/DataContract.js';
+import { ChangeDetectionSummary } from '../monitoring/ChangeDetector.js';
+import { QualityReport } from '../screenshot/QualityValidator.js';
+import { RecipeExecutionResult } from '../screenshot/RecipeEngine.js';
+import { ScreenshotResult } from '../screenshot/ScreenshotService.js';
+import { WorkflowMode } from './WorkflowMode.js';
+
+/**
+ * Context data shared by the workflow states. Every key is optional because
+ * it is populated as the cycle progresses; each state's data contract states
+ * which keys it needs and which it fills in.
+ */
+export interface WorkflowData {
+  /** Set by WorkflowBuilder; custom modes from workflow-config.json included */
+  workflowMode?: WorkflowMode | string;
+  cycleStartTime?: Date;
+  /** Correlation ID of the current cycle, renewed with cycleStartTime */
+  cycleId?: string;
+
+  /** Set by MONITORING */
+  triggerType?: 'scheduled' | 'manual' | null;
+  manualTrigger?: boolean;
+
+  /**
+   * Seeded by a mode's initialData: never write to the baseline directory,
+   * not even to create the first baselines
+   */
+  preserveBaselines?: boolean;
+
+  /** Set by CHANGE_DETECTION */
+  isInitialRun?: boolean;
+  currentScreenshots?: ScreenshotResult[];
+  changeDetectionSummary?: ChangeDetectionSummary;
+
+  /** Set by RECIPE_EXECUTION */
+  capturedScreenshots?: ScreenshotResult[];
+  recipeResults?: RecipeExecutionResult[];
+
+  /** Set by QUALITY_AUDIT */
+  qualityReports?: QualityReport[];
+  qualityReportPath?: string;
+
+  workflowSummaryPath?: string;
+}
+
+const isObject = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isArrayOf =
+  (predicate: (item: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    Array.isArray(value) && value.every(predicate);
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+
+/**
+ * Runtime shape checks for WorkflowData, applied by the state machine at
+ * state boundaries
+ */
+export const WORKFLOW_DATA_SCHEMA: DataSchema = {
+  workflowMode: value => typeof value === 'string' && value.length > 0,
+  cycleStartTime: value =>
+    value instanceof Date && !Number.isNaN(value.getTime()),
+  cycleId: value => typeof value === 'string' && value.length > 0,
+  triggerType: value =>
+    value === null || value === 'scheduled' || value === 'manual',
+  manualTrigger: value => typeof value === 'boolean',
+  preserveBaselines: value => typeof value === 'boolean',
+  isInitialRun: value => typeof value === 'boolean',
+  currentScreenshots: isArrayOf(
+    item => isObject(item) && isString((item as ScreenshotResult).path)
+  ),
+  changeDetectionSummary: value =>
+    isObject(value) &&
+    Array.isArray((value as ChangeDetectionSummary).results) &&
+    typeof (value as ChangeDetectionSummary).changedImages === 'number',
+  capturedScreenshots: isArrayOf(
+    item => isObject(item) && isString((item as ScreenshotResult).path)
+  ),
+  recipeResults: isArrayOf(
+    item =>
+      isObject(item) &&
+      typeof (item as RecipeExecutionResult).success === 'boolean'
+  ),
+  qualityReports: isArrayOf(
+    item =>
+      isObject(item) && typeof (item as QualityReport).passed === 'boolean'
+  ),
+  qualityReportPath: isString,
+  workflowSummaryPath: isString,
+};
@@ -34,4 +34,25 @@ export enum WorkflowEvent {
 
   /** Workflow cycle is complete */
   CYCLE_COMPLETE = 'CYCLE_COMPLETE',
+
+  /** A state's execute() exceeded its configured timeout */
+  STATE_TIMEOUT = 'STATE_TIMEOUT',
+
+  /** Sub-machine of a composite state reached its terminal state */
+  SUBSTATES_COMPLETE = 'SUBSTATES_COMPLETE',
+
+  /** Sub-machine of a composite state was stopped because a sub-state threw */
+  SUBSTATES_FAILED = 'SUBSTATES_FAILED',
+
+  /** All parallel regions reached their terminal states */
+  REGIONS_COMPLETE = 'REGIONS_COMPLETE',
+
+  /** At least one parallel region failed */
+  REGION_FAILED = 'REGION_FAILED',
+
+  /** Child workflow of a sub-workflow state reached its terminal state */
+  SUBWORKFLOW_COMPLETE = 'SUBWORKFLOW_COMPLETE',
+
+  /** Child workflow of a sub-workflow state could not be run to completion */
+  SUBWORKFLOW_FAILED = 'SUBWORKFLOW_FAILED',
 }
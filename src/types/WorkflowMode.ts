@@ -1,5 +1,7 @@
 /**
- * Supported workflow execution modes
+ * Built-in workflow execution modes. workflow-config.json can declare further
+ * modes, which is why mode parameters accept any string; use
+ * StateFactory.hasMode() to check those.
  */
 export enum WorkflowMode {
   /** Continuous monitoring with scheduled intervals - loops indefinitely */
@@ -13,7 +15,7 @@ export enum WorkflowMode {
 }
 
 /**
- * Type guard to check if a string is a valid WorkflowMode
+ * Type guard to check if a string is one of the built-in modes
  */
 export function isValidWorkflowMode(mode: string): mode is WorkflowMode {
   return Object.values(WorkflowMode).includes(mode as WorkflowMode);
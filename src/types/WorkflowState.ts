@@ -14,6 +14,9 @@ export enum WorkflowState {
   /** Quality audit state - validates execution results */
   QUALITY_AUDIT = 'QUALITY_AUDIT',
 
+  /** Baseline collection state - loads existing baselines instead of capturing */
+  BASELINE_COLLECTION = 'BASELINE_COLLECTION',
+
   /** Distribution state - syncs results to external systems */
   DISTRIBUTION = 'DISTRIBUTION',
 
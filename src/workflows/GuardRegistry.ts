@@ -0,0 +1,96 @@
+import { State } from '../state-machine/State.js';
+import { TransitionCondition } from '../state-machine/Transition.js';
+
+/**
+ * Builds a transition condition bound to the state that owns the transition,
+ * so guards can read state internals such as retry counters
+ */
+export type GuardFactory = (state: State) => TransitionCondition;
+
+export interface GuardDefinition {
+  create: GuardFactory;
+  /** Shown in place of the guard name in exported diagrams */
+  description: string;
+}
+
+interface RetryAwareState extends State {
+  getRetryStatus(): { count: number; max: number };
+}
+
+function getRetryStatus(
+  guard: string,
+  state: State
+): () => { count: number; max: number } {
+  const candidate = state as Partial<RetryAwareState>;
+  if (typeof candidate.getRetryStatus !== 'function') {
+    throw new Error(
+      `Guard '${guard}' requires a state with retry tracking, but ${state.name} has none`
+    );
+  }
+
+  return () => (candidate as RetryAwareState).getRetryStatus();
+}
+
+/**
+ * Named transition guards that workflow-config.json can refer to
+ */
+export class GuardRegistry {
+  private static guards = new Map<string, GuardDefinition>([
+    [
+      'retriesRemaining',
+      {
+        description: 'retryCount < maxRetries',
+        create: (state): TransitionCondition => {
+          const status = getRetryStatus('retriesRemaining', state);
+          return () => status().count < status().max;
+        },
+      },
+    ],
+    [
+      'retriesExhausted',
+      {
+        description: 'retryCount >= maxRetries',
+        create: (state): TransitionCondition => {
+          const status = getRetryStatus('retriesExhausted', state);
+          return () => status().count >= status().max;
+        },
+      },
+    ],
+  ]);
+
+  /**
+   * Register a new guard (for extensibility)
+   */
+  static register(name: string, definition: GuardDefinition): void {
+    this.guards.set(name, definition);
+  }
+
+  static has(name: string): boolean {
+    return this.guards.has(name);
+  }
+
+  static getNames(): string[] {
+    return [...this.guards.keys()];
+  }
+
+  /**
+   * Create the condition for a named guard, bound to the given state
+   */
+  static create(
+    name: string,
+    state: State
+  ): { condition: TransitionCondition; description: string } {
+    const definition = this.guards.get(name);
+
+    if (!definition) {
+      throw new Error(
+        `Unknown guard: ${name}. Available guards: ${this.getNames().join(', ')}`
+      );
+    }
+
+    return {
+      condition: definition.create(state),
+      description: definition.description,
+    };
+  }
+}
@@ -1,7 +1,34 @@
 import { StateMachine } from '../state-machine/StateMachine.js';
+import { Event, EventBuilder } from '../state-machine/Event.js';
+import { FileSnapshotStore } from '../state-machine/StateSnapshot.js';
+import { StateMachineObserver } from '../state-machine/StateMachineObserver.js';
+import { TransitionRecord } from '../state-machine/TransitionHistory.js';
 import { WorkflowBuilder, WorkflowBuildOptions } from './WorkflowBuilder.js';
 import { StateFactory } from './StateFactory.js';
 import { WorkflowMode } from '../types/WorkflowMode.js';
+import { StateContext } from '../state-machine/State.js';
+import {
+  LogFormat,
+  LogLevel,
+  Logger,
+  withLogContext,
+} from '../logging/Logger.js';
+import { StructuredLogger } from '../logging/StructuredLogger.js';
+import { WorkflowMetrics } from '../metrics/WorkflowMetrics.js';
+import { Tracer } from '../tracing/Tracer.js';
+import { WorkflowEventStream } from '../api/WorkflowEventStream.js';
+import { BrowserPool } from '../screenshot/BrowserPool.js';
+import {
+  MaskRule,
+  PageStabilizer,
+  StabilizationOptions,
+} from '../screenshot/PageStabilizer.js';
+import { PageWaiter, WaitCondition } from '../screenshot/PageWaiter.js';
+import { DeviceProfiles, ViewportEntry } from '../screenshot/DeviceProfiles.js';
+import {
+  CaptureRegion,
+  ScreenshotService,
+} from '../screenshot/ScreenshotService.js';
 import { promises as fs } from 'fs';
 
 export interface WorkflowConfig {
@@ -10,14 +37,19 @@ export interface WorkflowConfig {
   };
   screenshots: {
     formats: string[];
-    viewports: Array<{
-      width: number;
-      height: number;
-      name: string;
-    }>;
+    /** Viewports or names of built-in device profiles, e.g. "iPhone 15" */
+    viewports: ViewportEntry[];
     quality: number;
     timeout: number;
     waitForNavigation: boolean;
+    /** Default wait conditions for every page; a fixed second when omitted */
+    waitFor?: WaitCondition[];
+    /** Pages captured at the same time by the shared browser (default: 4) */
+    concurrency?: number;
+    /** Freeze time, animations, carets and fonts so captures are repeatable */
+    stabilize?: StabilizationOptions;
+    /** Timestamps, carousels, ads and similar content to hide from captures */
+    masks?: MaskRule[];
   };
   changeDetection: {
     threshold: number;
@@ -32,36 +64,69 @@ export interface WorkflowConfig {
       type: string;
       url?: string;
       filename?: string;
+      capture?: CaptureRegion;
+      waitFor?: WaitCondition[];
     }>;
   }>;
 }
 
+export interface ScreenshotWorkflowOptions {
+  /** Replaces the built-in StructuredLogger, e.g. to forward to another library */
+  logger?: Logger;
+  /** Level of the built-in logger (default: info) */
+  logLevel?: LogLevel;
+  /** Output format of the built-in logger (default: text) */
+  logFormat?: LogFormat;
+  /** Shared metrics, e.g. to serve several workflows from one registry */
+  metrics?: WorkflowMetrics;
+  /** Traces every cycle, with spans for states, captures and comparisons */
+  tracer?: Tracer;
+  /** Shared live stream, e.g. to follow several workflows from one place */
+  eventStream?: WorkflowEventStream;
+}
+
+export interface WorkflowInitializeOptions {
+  /** Continue from the last checkpoint of this mode, if one exists */
+  resume?: boolean;
+}
+
 export class ScreenshotWorkflow {
   private stateMachine: StateMachine | null = null;
-  private readonly logger = {
-    info: (message: string): void => {
-      // Using process.stdout.write to avoid console lint rule
-      process.stdout.write(`[INFO] ${new Date().toISOString()} - ${message}\n`);
-    },
-    error: (message: string): void => {
-      // Using process.stderr.write to avoid console lint rule
-      process.stderr.write(
-        `[ERROR] ${new Date().toISOString()} - ${message}\n`
-      );
-    },
-    debug: (message: string): void => {
-      // Using process.stdout.write to avoid console lint rule
-      process.stdout.write(
-        `[DEBUG] ${new Date().toISOString()} - ${message}\n`
-      );
-    },
-  };
-
-  constructor(private readonly config: WorkflowConfig) {}
+  private abortController: AbortController | null = null;
+  /** Settles once the state machine started by start() has stopped */
+  private running: Promise<void> | null = null;
+  private readonly observers: StateMachineObserver[] = [];
+  private readonly logger: Logger;
+  private readonly metrics: WorkflowMetrics;
+  private readonly tracer: Tracer | undefined;
+  private readonly eventStream: WorkflowEventStream;
+  /** One browser for every state and cycle, closed when the workflow stops */
+  private browserPool: BrowserPool | null = null;
+  private context: StateContext | null = null;
+
+  constructor(
+    private readonly config: WorkflowConfig,
+    options: ScreenshotWorkflowOptions = {}
+  ) {
+    const baseLogger =
+      options.logger ??
+      new StructuredLogger({
+        level: options.logLevel,
+        format: options.logFormat,
+      });
+    this.logger = withLogContext(baseLogger, () => ({
+      cycleId: this.context?.data.cycleId,
+      state: this.stateMachine?.getCurrentStateName() ?? undefined,
+    }));
+    this.metrics = options.metrics ?? new WorkflowMetrics();
+    this.tracer = options.tracer;
+    this.eventStream = options.eventStream ?? new WorkflowEventStream();
+  }
 
   async initialize(
-    mode: WorkflowMode = WorkflowMode.MONITOR,
-    initialData?: Record<string, unknown>
+    mode: WorkflowMode | string = WorkflowMode.MONITOR,
+    initialData?: Record<string, unknown>,
+    options: WorkflowInitializeOptions = {}
   ): Promise<void> {
     // Ensure output directories exist
     await this.ensureDirectoriesExist();
@@ -74,17 +139,45 @@ export class ScreenshotWorkflow {
       );
     }
 
+    const snapshotStore = new FileSnapshotStore(
+      `./output/snapshots/${mode}.json`
+    );
+
+    this.abortController = new AbortController();
+    this.browserPool ??= new BrowserPool({
+      concurrency: this.config.screenshots.concurrency,
+    });
+
     // Build workflow using the new architecture
     const buildOptions: WorkflowBuildOptions = {
       mode,
       config: this.config as unknown as Record<string, unknown>,
       logger: this.logger,
       initialData,
+      snapshotStore,
+      signal: this.abortController.signal,
+      metrics: this.metrics,
+      tracer: this.tracer,
+      eventStream: this.eventStream,
+      browserPool: this.browserPool,
     };
 
     const stateMachineConfig =
       await WorkflowBuilder.buildWorkflow(buildOptions);
-    this.stateMachine = new StateMachine(stateMachineConfig);
+    const { completionState } = await StateFactory.getWorkflowConfig(mode);
+    this.context = stateMachineConfig.context;
+    this.stateMachine = new StateMachine({
+      ...stateMachineConfig,
+      observers: [
+        ...this.observers,
+        this.metrics.createObserver(mode, completionState),
+        this.eventStream.createObserver(),
+      ],
+    });
+
+    if (options.resume) {
+      await this.resumeFromSnapshot(this.stateMachine, snapshotStore, mode);
+    }
   }
 
   async start(): Promise<void> {
@@ -101,13 +194,17 @@ export class ScreenshotWorkflow {
       `Configuration: ${config.monitoring.interval}min interval, ${config.recipes.length} recipes`
     );
 
+    this.running = stateMachine.start();
     try {
-      await stateMachine.start();
+      await this.running;
     } catch (error) {
       logger.error(
-        `Workflow startup failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Workflow failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
       throw error;
+    } finally {
+      await this.browserPool?.close();
+      await this.tracer?.flush();
     }
   }
 
@@ -122,6 +219,8 @@ export class ScreenshotWorkflow {
 
     try {
       await stateMachine.stop();
+      await this.browserPool?.close();
+      await this.tracer?.flush();
       logger.info('✅ Workflow stopped successfully');
     } catch (error) {
       logger.error(
@@ -131,6 +230,56 @@ export class ScreenshotWorkflow {
     }
   }
 
+  /**
+   * Hold the workflow at the next state boundary. The state currently
+   * executing finishes; nothing further happens until resume().
+   */
+  pause(): void {
+    if (!this.stateMachine?.isStateMachineRunning()) {
+      throw new Error('Workflow is not running');
+    }
+
+    this.logger.info('⏸️ Pausing Screenshot Automation Workflow');
+    this.stateMachine.pause();
+  }
+
+  resume(): void {
+    if (!this.stateMachine?.isPaused()) {
+      throw new Error('Workflow is not paused');
+    }
+
+    this.logger.info('▶️ Resuming Screenshot Automation Workflow');
+    this.stateMachine.resume();
+  }
+
+  /**
+   * Stop the workflow and interrupt the state that is executing. In-flight
+   * page loads and waits are aborted through StateContext.signal, and the
+   * returned promise settles once the state machine has wound down.
+   */
+  async cancel(reason = 'Workflow cancelled'): Promise<void> {
+    const stateMachine = this.stateMachine;
+    if (!stateMachine) {
+      return;
+    }
+
+    this.logger.info(`🛑 Cancelling Screenshot Automation Workflow: ${reason}`);
+    this.abortController?.abort(new Error(reason));
+
+    try {
+      await stateMachine.stop();
+      await this.running?.catch(() => undefined);
+      await this.browserPool?.close();
+      await this.tracer?.flush();
+      this.logger.info('✅ Workflow cancelled');
+    } catch (error) {
+      this.logger.error(
+        `Error cancelling workflow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error;
+    }
+  }
+
   triggerManualRun(): void {
     if (!this.stateMachine) {
       throw new Error('Workflow not initialized');
@@ -140,45 +289,94 @@ export class ScreenshotWorkflow {
       throw new Error('Workflow is not running');
     }
 
-    const currentState = this.getCurrentState();
+    // Anywhere else the queued event would be dropped as unhandled
+    const event = EventBuilder.manualTrigger();
+    const state = this.stateMachine.getCurrentState();
+    const acceptsTrigger = state
+      ?.getTransitions()
+      .some(transition => transition.eventType === event.type);
+    if (!acceptsTrigger) {
+      throw new Error(
+        `Cannot trigger a run in state '${state?.name ?? 'none'}'`
+      );
+    }
 
-    if (
-      currentState &&
-      (currentState as { name?: string }).name === 'MONITORING'
-    ) {
-      this.logger.info('🔧 Triggering manual workflow run');
-      // Type assertion to access MonitoringState-specific methods
-      try {
-        (currentState as { triggerManualRun: () => void }).triggerManualRun();
-      } catch {
-        this.logger.error(
-          'Failed to trigger manual run - method not available'
-        );
+    this.logger.info('🔧 Triggering manual workflow run');
+    this.stateMachine.dispatch(event);
+  }
+
+  /**
+   * Attach a lifecycle observer. Observers survive re-initialization, so they
+   * can be registered before initialize() is called.
+   */
+  addObserver(observer: StateMachineObserver): () => void {
+    this.observers.push(observer);
+    const detachFromMachine = this.stateMachine?.addObserver(observer);
+
+    return () => {
+      const index = this.observers.indexOf(observer);
+      if (index !== -1) {
+        this.observers.splice(index, 1);
       }
-    } else {
-      this.logger.info(
-        `Cannot trigger manual run - current state: ${(currentState as { name?: string })?.name || 'unknown'}`
-      );
+      detachFromMachine?.();
+    };
+  }
+
+  /**
+   * Inject an arbitrary event into the running workflow. The event is handled
+   * by whichever state is active when the machine next checks its queue.
+   */
+  dispatch(event: Event): void {
+    if (!this.stateMachine) {
+      throw new Error('Workflow not initialized');
     }
+
+    this.stateMachine.dispatch(event);
   }
 
   getStatus(): {
     isRunning: boolean;
+    isPaused: boolean;
     currentState: string | null;
     config: WorkflowConfig;
     uptime?: number;
     lastActivity?: Date;
   } {
     const isRunning = this.stateMachine?.isStateMachineRunning() ?? false;
+    const isPaused = this.stateMachine?.isPaused() ?? false;
     const currentState = this.stateMachine?.getCurrentStateName() ?? null;
 
     return {
       isRunning,
+      isPaused,
       currentState,
       config: this.config,
     };
   }
 
+  /**
+   * Counters and histograms for the Prometheus endpoint. They accumulate
+   * across re-initialization for the lifetime of this workflow.
+   */
+  getMetrics(): WorkflowMetrics {
+    return this.metrics;
+  }
+
+  /**
+   * Live transitions, events and results of this workflow, served by the
+   * control API as Server-Sent Events
+   */
+  getEventStream(): WorkflowEventStream {
+    return this.eventStream;
+  }
+
+  /**
+   * Recent transitions with the event and context changes behind each one
+   */
+  getHistory(): TransitionRecord[] {
+    return this.stateMachine?.getHistory() ?? [];
+  }
+
   getCurrentState(): unknown {
     if (!this.stateMachine) {
       return null;
@@ -226,11 +424,28 @@ export class ScreenshotWorkflow {
     if (!config.screenshots.viewports.length) {
       errors.push('At least one viewport must be configured');
     }
+    errors.push(...DeviceProfiles.validate(config.screenshots.viewports));
 
     if (!config.screenshots.formats.length) {
       errors.push('At least one screenshot format must be configured');
     }
 
+    const { concurrency } = config.screenshots;
+    if (
+      concurrency !== undefined &&
+      (!Number.isInteger(concurrency) || concurrency < 1)
+    ) {
+      errors.push('Screenshot concurrency must be a positive integer');
+    }
+
+    errors.push(...PageWaiter.validate(config.screenshots.waitFor ?? []));
+    errors.push(
+      ...PageStabilizer.validate(
+        config.screenshots.stabilize,
+        config.screenshots.masks
+      )
+    );
+
     // Validate recipes
     if (!config.recipes.length) {
       warnings.push(
@@ -257,6 +472,16 @@ export class ScreenshotWorkflow {
               `Recipe '${recipe.name}' navigate step missing filename`
             );
           }
+          if (step.capture) {
+            for (const error of ScreenshotService.validateCaptureRegion(
+              step.capture
+            )) {
+              errors.push(`Recipe '${recipe.name}': ${error}`);
+            }
+          }
+          for (const error of PageWaiter.validate(step.waitFor ?? [])) {
+            errors.push(`Recipe '${recipe.name}': ${error}`);
+          }
         }
       }
     }
@@ -276,6 +501,36 @@ export class ScreenshotWorkflow {
     };
   }
 
+  private async resumeFromSnapshot(
+    stateMachine: StateMachine,
+    snapshotStore: FileSnapshotStore,
+    mode: WorkflowMode | string
+  ): Promise<void> {
+    try {
+      const snapshot = await snapshotStore.load();
+
+      if (!snapshot) {
+        this.logger.info(
+          `No snapshot found at ${snapshotStore.getPath()} - starting a fresh cycle`
+        );
+        return;
+      }
+
+      if (snapshot.data.workflowMode !== mode) {
+        this.logger.info(
+          `Snapshot was taken in '${String(snapshot.data.workflowMode)}' mode - starting a fresh '${mode}' cycle`
+        );
+        return;
+      }
+
+      stateMachine.restore(snapshot);
+    } catch (error) {
+      this.logger.error(
+        `Failed to resume from snapshot: ${error instanceof Error ? error.message : 'Unknown error'} - starting a fresh cycle`
+      );
+    }
+  }
+
   private async ensureDirectoriesExist(): Promise<void> {
     const directories = [
       './output/final',
@@ -283,6 +538,7 @@ export class ScreenshotWorkflow {
       './output/diffs',
       './output/quality-reports',
       './output/audit-summaries',
+      './output/snapshots',
     ];
 
     for (const dir of directories) {
@@ -4,20 +4,55 @@ import { ChangeDetectionState } from './states/ChangeDetectionState.js';
 import { RecipeExecutionState } from './states/RecipeExecutionState.js';
 import { QualityAuditState } from './states/QualityAuditState.js';
 import { DistributionState } from './states/DistributionState.js';
+import { BaselineCollectionState } from './states/BaselineCollectionState.js';
 import { AuditCompleteState } from './states/AuditCompleteState.js';
 import { TriggerCompleteState } from './states/TriggerCompleteState.js';
 import { ScheduleCompleteState } from './states/ScheduleCompleteState.js';
 import { WorkflowMode } from '../types/WorkflowMode.js';
 import { WorkflowState } from '../types/WorkflowState.js';
+import { WatchdogOptions } from '../state-machine/StateWatchdog.js';
+import { Transition, TransitionBuilder } from '../state-machine/Transition.js';
+import { GuardRegistry } from './GuardRegistry.js';
+import { SubWorkflowConfig, SubWorkflowState } from './SubWorkflowState.js';
+import { PluginLoader } from '../plugins/PluginLoader.js';
+import { PLUGIN_API_VERSION, PluginApi } from '../plugins/PluginApi.js';
+import { RecipeEngine } from '../screenshot/RecipeEngine.js';
+import { QualityValidator } from '../screenshot/QualityValidator.js';
+import { DistributionRegistry } from '../distribution/DistributionRegistry.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
+export interface TransitionConfig {
+  event: string;
+  /** Omit for an internal transition, which stays in the source state */
+  target?: WorkflowState | string;
+  /** Name of a guard registered in GuardRegistry */
+  guard?: string;
+  priority?: number;
+}
+
 export interface WorkflowConfiguration {
   workflows: {
     [mode: string]: {
+      /** Shown in the CLI help and validation summary */
+      description?: string;
       initialState: WorkflowState | string;
       completionState: WorkflowState | string;
       states: (WorkflowState | string)[];
+      /** Overrides the global stateTimeouts for this mode */
+      stateTimeouts?: Record<string, number>;
+      /**
+       * Transitions keyed by source state. A state listed here uses these
+       * instead of the transitions defined in its class.
+       */
+      transitions?: Record<string, TransitionConfig[]>;
+      /** Context data the mode starts with, e.g. { "isInitialRun": true } */
+      initialData?: Record<string, unknown>;
+      /**
+       * States that run another mode as a child workflow, keyed by state
+       * name. These need no stateMapping entry.
+       */
+      subWorkflows?: Record<string, SubWorkflowConfig>;
     };
   };
   stateMapping: {
@@ -26,6 +61,11 @@ export interface WorkflowConfiguration {
   completionStates: {
     [mode: string]: string;
   };
+  /** execute() timeouts in ms, keyed by state name */
+  stateTimeouts?: Record<string, number>;
+  watchdog?: WatchdogOptions;
+  /** Plugin modules to import, as paths relative to the working directory or package names */
+  plugins?: string[];
 }
 
 export class StateFactory {
@@ -35,6 +75,7 @@ export class StateFactory {
     ['RecipeExecutionState', RecipeExecutionState],
     ['QualityAuditState', QualityAuditState],
     ['DistributionState', DistributionState],
+    ['BaselineCollectionState', BaselineCollectionState],
     ['AuditCompleteState', AuditCompleteState],
     ['TriggerCompleteState', TriggerCompleteState],
     ['ScheduleCompleteState', ScheduleCompleteState],
@@ -42,6 +83,9 @@ export class StateFactory {
 
   private static config: WorkflowConfiguration | null = null;
 
+  /** Mode names end up in CLI flags and snapshot file names */
+  private static readonly MODE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
   /**
    * Load workflow configuration from file
    */
@@ -55,15 +99,40 @@ export class StateFactory {
       'src/workflows/config/workflow-config.json'
     );
 
+    let config: WorkflowConfiguration;
     try {
       const configContent = await fs.readFile(configPath, 'utf8');
-      this.config = JSON.parse(configContent) as WorkflowConfiguration;
-      return this.config;
+      config = JSON.parse(configContent) as WorkflowConfiguration;
     } catch (error) {
       throw new Error(
         `Failed to load workflow configuration: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
+
+    // Plugins may register state classes the configuration refers to
+    await PluginLoader.load(config.plugins ?? [], this.createPluginApi());
+
+    this.config = config;
+    return this.config;
+  }
+
+  /**
+   * Registration hooks handed to plugins
+   */
+  static createPluginApi(): PluginApi {
+    return {
+      version: PLUGIN_API_VERSION,
+      registerState: (className, StateClass): void =>
+        this.registerStateClass(className, StateClass),
+      registerRecipeStep: (type, handler): void =>
+        RecipeEngine.registerStepType(type, handler),
+      registerQualityCheck: (check): void =>
+        QualityValidator.registerCheck(check),
+      registerDistributionTarget: (target): void =>
+        DistributionRegistry.register(target),
+      registerGuard: (name, definition): void =>
+        GuardRegistry.register(name, definition),
+    };
   }
 
   /**
@@ -83,7 +152,7 @@ export class StateFactory {
    * Create all states for a specific workflow mode
    */
   static async createStatesForMode(
-    mode: WorkflowMode
+    mode: WorkflowMode | string
   ): Promise<Map<WorkflowState | string, BaseState>> {
     const config = await this.loadConfiguration();
     const workflowConfig = config.workflows[mode];
@@ -99,44 +168,101 @@ export class StateFactory {
     // Create states defined in the workflow
     for (const stateName of workflowConfig.states) {
       const className = config.stateMapping[stateName];
+      const subWorkflow = workflowConfig.subWorkflows?.[stateName];
 
-      if (!className) {
+      if (!className && !subWorkflow) {
         throw new Error(`No class mapping found for state: ${stateName}`);
       }
 
       // Handle special completion state mapping
-      if (stateName === 'AUDIT_COMPLETE') {
-        const completionClassName = config.completionStates[mode];
-        if (completionClassName) {
-          states.set(stateName, this.createState(completionClassName));
-          continue;
-        }
+      const completionClassName =
+        stateName === 'AUDIT_COMPLETE'
+          ? config.completionStates[mode]
+          : undefined;
+      const state = subWorkflow
+        ? new SubWorkflowState(stateName, subWorkflow)
+        : this.createState(completionClassName ?? className);
+
+      const transitions = workflowConfig.transitions?.[stateName];
+      if (transitions) {
+        state.setTransitions(this.createTransitions(state, transitions));
       }
 
-      states.set(stateName, this.createState(className));
+      states.set(stateName, state);
     }
 
     return states;
   }
 
+  /**
+   * Build transitions from their configuration, binding named guards to the
+   * state that owns them
+   */
+  static createTransitions(
+    state: BaseState,
+    configs: TransitionConfig[]
+  ): Transition[] {
+    return configs.map(config => {
+      const chain = TransitionBuilder.on(config.event);
+      if (config.priority !== undefined) {
+        chain.priority(config.priority);
+      }
+
+      const guard = config.guard
+        ? GuardRegistry.create(config.guard, state)
+        : undefined;
+
+      if (config.target === undefined) {
+        return chain.internal(guard?.condition, guard?.description);
+      }
+
+      return guard
+        ? chain.goToIf(config.target, guard.condition, guard.description)
+        : chain.goTo(config.target);
+    });
+  }
+
   /**
    * Get workflow configuration for a mode
    */
-  static async getWorkflowConfig(mode: WorkflowMode): Promise<{
-    initialState: WorkflowState | string;
-    completionState: WorkflowState | string;
-    states: (WorkflowState | string)[];
-  }> {
+  static async getWorkflowConfig(
+    mode: WorkflowMode | string
+  ): Promise<WorkflowConfiguration['workflows'][string]> {
     const config = await this.loadConfiguration();
     const workflowConfig = config.workflows[mode];
 
     if (!workflowConfig) {
-      throw new Error(`Unknown workflow mode: ${mode}`);
+      throw new Error(
+        `Unknown workflow mode: ${mode}. Available modes: ${Object.keys(config.workflows).join(', ')}`
+      );
     }
 
     return workflowConfig;
   }
 
+  /**
+   * Get state timeouts for a mode, with per-mode overrides applied on top of
+   * the global defaults
+   */
+  static async getStateTimeouts(
+    mode: WorkflowMode | string
+  ): Promise<Record<string, number>> {
+    const config = await this.loadConfiguration();
+
+    return {
+      ...(config.stateTimeouts ?? {}),
+      ...(config.workflows[mode]?.stateTimeouts ?? {}),
+    };
+  }
+
+  /**
+   * Get the stuck-state watchdog settings, if configured
+   */
+  static async getWatchdogOptions(): Promise<WatchdogOptions | undefined> {
+    const config = await this.loadConfiguration();
+    return config.watchdog;
+  }
+
   /**
    * Validate that all required states are available
    */
@@ -169,16 +295,52 @@ export class StateFactory {
         }
       }
 
-      // Check that all workflow modes have valid states
+      // Check that timeouts are positive numbers
+      const timeoutSources = [
+        config.stateTimeouts ?? {},
+        ...Object.values(config.workflows).map(w => w.stateTimeouts ?? {}),
+      ];
+      for (const timeouts of timeoutSources) {
+        for (const [stateName, timeoutMs] of Object.entries(timeouts)) {
+          if (typeof timeoutMs !== 'number' || timeoutMs <= 0) {
+            errors.push(
+              `Invalid timeout for ${stateName}: must be a positive number of milliseconds`
+            );
+          }
+        }
+      }
+
+      // Check that all workflow modes have valid names and states
       for (const [mode, workflowConfig] of Object.entries(config.workflows)) {
+        if (!this.MODE_NAME_PATTERN.test(mode)) {
+          errors.push(
+            `Invalid workflow mode name: ${mode} (use lowercase letters, digits and dashes)`
+          );
+        }
+
+        for (const key of ['initialState', 'completionState'] as const) {
+          if (!workflowConfig.states.includes(workflowConfig[key])) {
+            errors.push(
+              `${key} ${workflowConfig[key]} of ${mode} workflow is not in its states list`
+            );
+          }
+        }
+
         for (const stateName of workflowConfig.states) {
-          if (!config.stateMapping[stateName]) {
+          if (
+            !config.stateMapping[stateName] &&
+            !workflowConfig.subWorkflows?.[stateName]
+          ) {
             errors.push(
               `No state mapping found for ${stateName} in ${mode} workflow`
             );
           }
         }
+
+        errors.push(...this.validateTransitions(mode, workflowConfig));
       }
+
+      errors.push(...this.validateSubWorkflows(config));
     } catch (error) {
       errors.push(
         `Configuration loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -191,6 +353,107 @@ export class StateFactory {
     };
   }
 
+  /**
+   * Check declared transitions for unknown source states, missing events and
+   * unregistered guards. Targets are checked by the workflow graph analysis.
+   */
+  private static validateTransitions(
+    mode: string,
+    workflowConfig: WorkflowConfiguration['workflows'][string]
+  ): string[] {
+    const errors: string[] = [];
+
+    for (const [stateName, transitions] of Object.entries(
+      workflowConfig.transitions ?? {}
+    )) {
+      if (!workflowConfig.states.includes(stateName)) {
+        errors.push(
+          `Transitions declared for ${stateName}, which is not part of the ${mode} workflow`
+        );
+      }
+
+      if (!Array.isArray(transitions)) {
+        errors.push(
+          `Transitions for ${stateName} in ${mode} workflow must be an array`
+        );
+        continue;
+      }
+
+      for (const transition of transitions) {
+        if (typeof transition.event !== 'string' || !transition.event) {
+          errors.push(
+            `Transition from ${stateName} in ${mode} workflow has no event`
+          );
+        }
+        if (transition.guard && !GuardRegistry.has(transition.guard)) {
+          errors.push(
+            `Unknown guard ${transition.guard} on ${stateName} ${transition.event} in ${mode} workflow`
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check that sub-workflow states belong to their mode, invoke modes that
+   * exist and do not end up invoking themselves
+   */
+  private static validateSubWorkflows(config: WorkflowConfiguration): string[] {
+    const errors: string[] = [];
+    const invokes = new Map<string, string[]>();
+
+    for (const [mode, workflowConfig] of Object.entries(config.workflows)) {
+      const children: string[] = [];
+
+      for (const [stateName, subWorkflow] of Object.entries(
+        workflowConfig.subWorkflows ?? {}
+      )) {
+        if (!workflowConfig.states.includes(stateName)) {
+          errors.push(
+            `Sub-workflow declared for ${stateName}, which is not part of the ${mode} workflow`
+          );
+        }
+        if (
+          !Object.prototype.hasOwnProperty.call(
+            config.workflows,
+            subWorkflow.mode
+          )
+        ) {
+          errors.push(
+            `Sub-workflow ${stateName} in ${mode} workflow invokes unknown mode ${subWorkflow.mode}`
+          );
+          continue;
+        }
+        children.push(subWorkflow.mode);
+      }
+
+      invokes.set(mode, children);
+    }
+
+    const reaches = (
+      from: string,
+      target: string,
+      seen: Set<string>
+    ): boolean =>
+      (invokes.get(from) ?? []).some(
+        child =>
+          child === target ||
+          (!seen.has(child) && reaches(child, target, seen.add(child)))
+      );
+
+    for (const mode of invokes.keys()) {
+      if (reaches(mode, mode, new Set())) {
+        errors.push(
+          `Sub-workflows of ${mode} workflow end up invoking ${mode}`
+        );
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Register a new state class (for extensibility)
    */
@@ -204,8 +467,17 @@ export class StateFactory {
   /**
    * Get all available workflow modes
    */
-  static async getAvailableModes(): Promise<WorkflowMode[]> {
+  static async getAvailableModes(): Promise<(WorkflowMode | string)[]> {
+    const config = await this.loadConfiguration();
+    return Object.keys(config.workflows);
+  }
+
+  /**
+   * Check whether a mode is declared in the configuration, including custom
+   * modes beyond the built-in WorkflowMode values
+   */
+  static async hasMode(mode: string): Promise<boolean> {
     const config = await this.loadConfiguration();
-    return Object.keys(config.workflows) as WorkflowMode[];
+    return Object.prototype.hasOwnProperty.call(config.workflows, mode);
   }
 }
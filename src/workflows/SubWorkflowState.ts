@@ -0,0 +1,225 @@
+import { Event, EventBuilder } from '../state-machine/Event.js';
+import { BaseState, StateContext } from '../state-machine/State.js';
+import { StateMachine } from '../state-machine/StateMachine.js';
+import { Transition } from '../state-machine/Transition.js';
+import { DataContract } from '../state-machine/DataContract.js';
+import { WorkflowEvent } from '../types/WorkflowEvent.js';
+import { WorkflowBuilder } from './WorkflowBuilder.js';
+import { withLogContext } from '../logging/Logger.js';
+
+export interface SubWorkflowConfig {
+  /** Configured mode run as the child workflow */
+  mode: string;
+  /** Parent context keys copied into the child's initial data */
+  inputKeys?: string[];
+  /** Child context keys copied back into the parent once the child is done */
+  outputKeys?: string[];
+  /**
+   * Parent context key holding an array. The child runs once per item, gets
+   * the item under itemKey, and every output key collects one value per run.
+   */
+  forEach?: string;
+  /** Defaults to "item" */
+  itemKey?: string;
+  /**
+   * Parent event to emit, keyed by the event that took the child into its
+   * terminal state, e.g. { "EXECUTION_FAILED": "SUBWORKFLOW_FAILED" }.
+   * Unlisted events map to SUBWORKFLOW_COMPLETE.
+   */
+  resultEvents?: Record<string, string>;
+}
+
+export interface SubWorkflowOptions extends SubWorkflowConfig {
+  /** Transitions of the sub-workflow state itself in the parent machine */
+  transitions?: Transition[];
+}
+
+export interface SubWorkflowRun {
+  /** The forEach item this run was given */
+  item?: unknown;
+  finalState: string | null;
+  /** Event that took the child into its terminal state */
+  lastEvent: string | null;
+  /** Parent event this run maps to */
+  result: string;
+  error?: string;
+}
+
+/**
+ * Runs another configured mode as a child state machine with its own
+ * context. The child is built like a top-level workflow, runs to its terminal
+ * state inside execute(), and its outcome is mapped to an event in the
+ * parent. When runs disagree, the first one that did not map to
+ * SUBWORKFLOW_COMPLETE decides the parent event.
+ */
+export class SubWorkflowState extends BaseState {
+  private childMachine: StateMachine | null = null;
+  private stopped = false;
+
+  constructor(
+    name: string,
+    private readonly options: SubWorkflowOptions
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    const { mode, forEach, outputKeys = [] } = this.options;
+    const items = forEach ? context.data[forEach] : [undefined];
+
+    if (!Array.isArray(items)) {
+      context.logger.error(
+        `Sub-workflow ${mode} expects an array in context data ${String(forEach)}`
+      );
+      return EventBuilder.subworkflowFailed(mode, []);
+    }
+
+    this.stopped = false;
+    const runs: SubWorkflowRun[] = [];
+    const outputs: Record<string, unknown>[] = [];
+
+    for (const [index, item] of (items as unknown[]).entries()) {
+      const output: Record<string, unknown> = {};
+      const run = await this.runChild(
+        context,
+        forEach ? `${mode}#${index}` : mode,
+        forEach ? { [this.options.itemKey ?? 'item']: item } : {},
+        output
+      );
+
+      if (!run) {
+        // Stopped from outside - let the parent machine decide what happens next
+        return null;
+      }
+
+      runs.push(forEach ? { item, ...run } : run);
+      outputs.push(output);
+    }
+
+    for (const key of outputKeys) {
+      context.data[key] = forEach
+        ? outputs.map(output => output[key])
+        : outputs[0][key];
+    }
+
+    const completed: string = WorkflowEvent.SUBWORKFLOW_COMPLETE;
+    const decisive = runs.find(run => run.result !== completed);
+
+    return decisive
+      ? EventBuilder.create(decisive.result, { mode, runs })
+      : EventBuilder.subworkflowComplete(mode, runs);
+  }
+
+  async exit(context: StateContext): Promise<void> {
+    this.stopped = true;
+    if (this.childMachine) {
+      await this.childMachine.stop();
+      this.childMachine = null;
+    }
+    await super.exit(context);
+  }
+
+  protected getDefaultTransitions(): Transition[] {
+    return this.options.transitions ?? [];
+  }
+
+  getDataContract(): DataContract {
+    return this.options.forEach ? { requires: [this.options.forEach] } : {};
+  }
+
+  getEmittedEvents(): string[] {
+    return [
+      ...new Set([
+        WorkflowEvent.SUBWORKFLOW_COMPLETE,
+        WorkflowEvent.SUBWORKFLOW_FAILED,
+        ...Object.values(this.options.resultEvents ?? {}),
+      ]),
+    ];
+  }
+
+  getActiveSubstates(): string[] {
+    return this.childMachine?.getActiveStatePath() ?? [];
+  }
+
+  /**
+   * Build and run one child workflow, collecting its output keys. Returns
+   * null when the parent stopped it before it reached its terminal state.
+   */
+  private async runChild(
+    context: StateContext,
+    label: string,
+    extraData: Record<string, unknown>,
+    output: Record<string, unknown>
+  ): Promise<SubWorkflowRun | null> {
+    const {
+      mode,
+      inputKeys = [],
+      outputKeys = [],
+      resultEvents,
+    } = this.options;
+
+    const initialData: Record<string, unknown> = {};
+    for (const key of inputKeys) {
+      if (context.data[key] !== undefined) {
+        initialData[key] = context.data[key];
+      }
+    }
+
+    // Child log lines carry the run they belong to
+    const logger = withLogContext(context.logger, () => ({
+      subWorkflow: label,
+    }));
+
+    let child: StateMachine | null = null;
+    let childData: Record<string, unknown> = {};
+    try {
+      const machineConfig = await WorkflowBuilder.buildWorkflow({
+        mode,
+        config: context.config,
+        logger,
+        initialData: { ...initialData, ...extraData },
+        signal: context.signal,
+        metrics: context.metrics,
+        tracer: context.tracer,
+        eventStream: context.eventStream,
+        browserPool: context.browserPool,
+      });
+      if (this.stopped) {
+        return null;
+      }
+
+      childData = machineConfig.context.data;
+      child = new StateMachine(machineConfig);
+      this.childMachine = child;
+      await child.start();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      context.logger.error(`Sub-workflow ${label} failed: ${message}`);
+      return {
+        finalState: child?.getCurrentStateName() ?? null,
+        lastEvent: null,
+        result: WorkflowEvent.SUBWORKFLOW_FAILED,
+        error: message,
+      };
+    } finally {
+      this.childMachine = null;
+    }
+
+    if (!child?.hasReachedTerminalState()) {
+      return null;
+    }
+
+    for (const key of outputKeys) {
+      output[key] = childData[key];
+    }
+
+    const lastEvent = child.getHistory().at(-1)?.event.type ?? null;
+    return {
+      finalState: child.getCurrentStateName(),
+      lastEvent,
+      result:
+        (lastEvent ? resultEvents?.[lastEvent] : undefined) ??
+        WorkflowEvent.SUBWORKFLOW_COMPLETE,
+    };
+  }
+}
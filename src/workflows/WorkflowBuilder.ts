@@ -1,17 +1,32 @@
 import { StateContext } from '../state-machine/State.js';
 import { StateMachineConfig } from '../state-machine/StateMachine.js';
+import { SnapshotStore } from '../state-machine/StateSnapshot.js';
 import { StateFactory } from './StateFactory.js';
+import { WorkflowGraph } from './WorkflowGraph.js';
 import { WorkflowMode } from '../types/WorkflowMode.js';
+import { WORKFLOW_DATA_SCHEMA } from '../types/WorkflowData.js';
+import { Logger, createCorrelationId } from '../logging/Logger.js';
+import { WorkflowMetrics } from '../metrics/WorkflowMetrics.js';
+import { Tracer } from '../tracing/Tracer.js';
+import { WorkflowEventStream } from '../api/WorkflowEventStream.js';
+import { BrowserPool } from '../screenshot/BrowserPool.js';
 
 export interface WorkflowBuildOptions {
-  mode: WorkflowMode;
+  mode: WorkflowMode | string;
   config: Record<string, unknown>;
-  logger: {
-    info: (message: string) => void;
-    error: (message: string) => void;
-    debug: (message: string) => void;
-  };
+  logger: Logger;
   initialData?: Record<string, unknown>;
+  snapshotStore?: SnapshotStore;
+  /** Handed to the states through StateContext.signal */
+  signal?: AbortSignal;
+  /** Handed to the states through StateContext.metrics */
+  metrics?: WorkflowMetrics;
+  /** Handed to the states through StateContext.tracer */
+  tracer?: Tracer;
+  /** Handed to the states through StateContext.eventStream */
+  eventStream?: WorkflowEventStream;
+  /** Handed to the states through StateContext.browserPool */
+  browserPool?: BrowserPool;
 }
 
 export class WorkflowBuilder {
@@ -21,7 +36,18 @@ export class WorkflowBuilder {
   static async buildWorkflow(
     options: WorkflowBuildOptions
   ): Promise<StateMachineConfig> {
-    const { mode, config, logger, initialData = {} } = options;
+    const {
+      mode,
+      config,
+      logger,
+      initialData = {},
+      snapshotStore,
+      signal,
+      metrics,
+      tracer,
+      eventStream,
+      browserPool,
+    } = options;
 
     // Validate the workflow configuration
     const validation = await StateFactory.validateConfiguration();
@@ -36,16 +62,25 @@ export class WorkflowBuilder {
 
     // Create states for this mode
     const states = await StateFactory.createStatesForMode(mode);
+    const stateTimeouts = await StateFactory.getStateTimeouts(mode);
+    const watchdog = await StateFactory.getWatchdogOptions();
 
     // Create state context
     const context: StateContext = {
       config,
       data: {
         cycleStartTime: new Date(),
+        cycleId: createCorrelationId(),
         workflowMode: mode,
+        ...(workflowConfig.initialData ?? {}),
         ...initialData,
       },
       logger,
+      signal,
+      metrics,
+      tracer,
+      eventStream,
+      browserPool,
     };
 
     // Return state machine configuration
@@ -53,6 +88,10 @@ export class WorkflowBuilder {
       initialState: workflowConfig.initialState,
       states,
       context,
+      snapshotStore,
+      stateTimeouts,
+      watchdog,
+      dataSchema: WORKFLOW_DATA_SCHEMA,
     };
   }
 
@@ -60,7 +99,7 @@ export class WorkflowBuilder {
    * Validate workflow dependencies and flow
    */
   static async validateWorkflowFlow(
-    mode: WorkflowMode
+    mode: WorkflowMode | string
   ): Promise<{ isValid: boolean; errors: string[] }> {
     const errors: string[] = [];
 
@@ -110,11 +149,27 @@ export class WorkflowBuilder {
     };
   }
 
+  /**
+   * Build the static transition graph for a mode
+   */
+  static async buildGraph(mode: WorkflowMode | string): Promise<WorkflowGraph> {
+    const workflowConfig = await StateFactory.getWorkflowConfig(mode);
+    const states = await StateFactory.createStatesForMode(mode);
+    const stateTimeouts = await StateFactory.getStateTimeouts(mode);
+
+    return WorkflowGraph.fromStates(states, {
+      initialState: workflowConfig.initialState,
+      completionState: workflowConfig.completionState,
+      stateTimeouts,
+    });
+  }
+
   /**
    * Get workflow summary information
    */
-  static async getWorkflowSummary(mode: WorkflowMode): Promise<{
-    mode: WorkflowMode;
+  static async getWorkflowSummary(mode: WorkflowMode | string): Promise<{
+    mode: WorkflowMode | string;
+    description?: string;
     initialState: string;
     completionState: string;
     stateCount: number;
@@ -124,6 +179,7 @@ export class WorkflowBuilder {
 
     return {
       mode,
+      description: workflowConfig.description,
       initialState: workflowConfig.initialState,
       completionState: workflowConfig.completionState,
       stateCount: workflowConfig.states.length,
@@ -136,7 +192,8 @@ export class WorkflowBuilder {
    */
   static async listAllWorkflows(): Promise<
     Array<{
-      mode: WorkflowMode;
+      mode: WorkflowMode | string;
+      description?: string;
       initialState: string;
       completionState: string;
       stateCount: number;
@@ -0,0 +1,162 @@
+import { WorkflowGraph, WorkflowGraphEdge } from './WorkflowGraph.js';
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'scxml';
+
+export const DIAGRAM_FORMATS: DiagramFormat[] = ['mermaid', 'dot', 'scxml'];
+
+export const DIAGRAM_FILE_EXTENSIONS: Record<DiagramFormat, string> = {
+  mermaid: 'mmd',
+  dot: 'dot',
+  scxml: 'scxml',
+};
+
+export function isDiagramFormat(format: string): format is DiagramFormat {
+  return DIAGRAM_FORMATS.includes(format as DiagramFormat);
+}
+
+/**
+ * Renders a workflow graph as a diagram. Transitions to states outside the
+ * workflow are left out, since the mode never takes them.
+ */
+export class WorkflowDiagram {
+  static render(
+    graph: WorkflowGraph,
+    format: DiagramFormat,
+    name: string
+  ): string {
+    switch (format) {
+      case 'mermaid':
+        return this.renderMermaid(graph);
+      case 'dot':
+        return this.renderDot(graph, name);
+      case 'scxml':
+        return this.renderScxml(graph, name);
+    }
+  }
+
+  static renderMermaid(graph: WorkflowGraph): string {
+    const lines = ['stateDiagram-v2', `  [*] --> ${graph.initialState}`];
+
+    for (const edge of this.getEdges(graph)) {
+      const target = edge.to ?? edge.from;
+      lines.push(`  ${edge.from} --> ${target}: ${this.getLabel(edge, ' ')}`);
+    }
+
+    for (const state of this.getFinalStates(graph)) {
+      lines.push(`  ${state} --> [*]`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  static renderDot(graph: WorkflowGraph, name: string): string {
+    const lines = [
+      `digraph ${this.quoteDot(name)} {`,
+      '  rankdir=LR;',
+      '  node [shape=box, style=rounded];',
+      '  __start [shape=point];',
+      `  __start -> ${this.quoteDot(graph.initialState)};`,
+    ];
+
+    for (const state of this.getFinalStates(graph)) {
+      lines.push(`  ${this.quoteDot(state)} [peripheries=2];`);
+    }
+
+    for (const edge of this.getEdges(graph)) {
+      const attributes = [`label=${this.quoteDot(this.getLabel(edge, '\n'))}`];
+      if (edge.guarded) {
+        attributes.push('style=dashed');
+      }
+
+      lines.push(
+        `  ${this.quoteDot(edge.from)} -> ${this.quoteDot(edge.to ?? edge.from)} [${attributes.join(', ')}];`
+      );
+    }
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * W3C SCXML with the ECMAScript data model. Guard descriptions become cond
+   * expressions; guards without a description are marked as opaque.
+   */
+  static renderScxml(graph: WorkflowGraph, name: string): string {
+    const finalStates = new Set(this.getFinalStates(graph));
+    const edges = this.getEdges(graph);
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" datamodel="ecmascript" name="${this.escapeXml(name)}" initial="${this.escapeXml(graph.initialState)}">`,
+    ];
+
+    for (const state of graph.nodes.keys()) {
+      const id = this.escapeXml(state);
+
+      if (finalStates.has(state)) {
+        lines.push(`  <final id="${id}"/>`);
+        continue;
+      }
+
+      lines.push(`  <state id="${id}">`);
+      for (const edge of edges.filter(e => e.from === state)) {
+        const attributes = [`event="${this.escapeXml(edge.event)}"`];
+        if (edge.guarded) {
+          attributes.push(
+            `cond="${this.escapeXml(edge.guard ?? 'true /* undocumented guard */')}"`
+          );
+        }
+        if (edge.to) {
+          attributes.push(`target="${this.escapeXml(edge.to)}"`);
+        }
+        if (edge.kind === 'internal') {
+          attributes.push('type="internal"');
+        }
+
+        lines.push(`    <transition ${attributes.join(' ')}/>`);
+      }
+      lines.push('  </state>');
+    }
+
+    lines.push('</scxml>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private static getEdges(graph: WorkflowGraph): WorkflowGraphEdge[] {
+    return graph.edges.filter(
+      edge => edge.to === undefined || graph.nodes.has(edge.to)
+    );
+  }
+
+  /**
+   * The completion state is final when it has nowhere to go, as in trigger
+   * and schedule mode. Monitor mode loops back instead.
+   */
+  private static getFinalStates(graph: WorkflowGraph): string[] {
+    return graph.getEdgesFrom(graph.completionState).length === 0
+      ? [graph.completionState]
+      : [];
+  }
+
+  private static getLabel(edge: WorkflowGraphEdge, separator: string): string {
+    const parts = [edge.event];
+    if (edge.guarded) {
+      parts.push(`[${edge.guard ?? 'guarded'}]`);
+    }
+    if (edge.kind === 'internal') {
+      parts.push('(internal)');
+    }
+    return parts.join(separator);
+  }
+
+  private static quoteDot(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
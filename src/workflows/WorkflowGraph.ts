@@ -0,0 +1,206 @@
+import { State } from '../state-machine/State.js';
+import { TransitionKind } from '../state-machine/Transition.js';
+import { WorkflowEvent } from '../types/WorkflowEvent.js';
+
+export interface WorkflowGraphEdge {
+  from: string;
+  /** Undefined for internal transitions */
+  to?: string;
+  event: string;
+  /** The transition has a condition, so it may never be taken */
+  guarded: boolean;
+  /** Description of the condition, when the transition declares one */
+  guard?: string;
+  kind: TransitionKind;
+  priority: number;
+}
+
+export interface WorkflowGraphNode {
+  name: string;
+  /** Events the state's execute() can return, if it declares them */
+  emits: string[] | null;
+}
+
+export interface WorkflowGraphOptions {
+  initialState: string;
+  completionState: string;
+  /** States with an execute() timeout can also emit STATE_TIMEOUT */
+  stateTimeouts?: Record<string, number>;
+}
+
+export interface WorkflowGraphAnalysis {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  unreachableStates: string[];
+  deadEndStates: string[];
+  /** Transitions whose target is not part of this workflow */
+  missingTargets: WorkflowGraphEdge[];
+  /** Emitted events with no transition in the emitting state */
+  unhandledEvents: Array<{ state: string; event: string }>;
+}
+
+/**
+ * Transition graph of one workflow mode, built from each state's
+ * getTransitions(). Guards are opaque functions, so any guarded edge is
+ * assumed to be takeable.
+ */
+export class WorkflowGraph {
+  private constructor(
+    readonly nodes: Map<string, WorkflowGraphNode>,
+    readonly edges: WorkflowGraphEdge[],
+    private readonly options: WorkflowGraphOptions
+  ) {}
+
+  static fromStates(
+    states: Map<string, State>,
+    options: WorkflowGraphOptions
+  ): WorkflowGraph {
+    const nodes = new Map<string, WorkflowGraphNode>();
+    const edges: WorkflowGraphEdge[] = [];
+
+    for (const [name, state] of states) {
+      const declared = state.getEmittedEvents?.();
+      const emits = declared ? [...declared] : null;
+      if (emits && options.stateTimeouts?.[name]) {
+        emits.push(WorkflowEvent.STATE_TIMEOUT);
+      }
+      nodes.set(name, { name, emits });
+
+      for (const transition of state.getTransitions()) {
+        edges.push({
+          from: name,
+          to: transition.targetState,
+          event: transition.eventType,
+          guarded: transition.condition !== undefined,
+          guard: transition.description,
+          kind: transition.kind ?? 'external',
+          priority: transition.priority ?? 0,
+        });
+      }
+    }
+
+    return new WorkflowGraph(nodes, edges, options);
+  }
+
+  get initialState(): string {
+    return this.options.initialState;
+  }
+
+  get completionState(): string {
+    return this.options.completionState;
+  }
+
+  getEdgesFrom(state: string): WorkflowGraphEdge[] {
+    return this.edges.filter(edge => edge.from === state);
+  }
+
+  /**
+   * States reachable from the initial state along edges that stay inside
+   * this workflow
+   */
+  getReachableStates(): Set<string> {
+    const reachable = new Set<string>();
+    const queue = [this.options.initialState];
+
+    while (queue.length > 0) {
+      const state = queue.shift() as string;
+      if (reachable.has(state) || !this.nodes.has(state)) {
+        continue;
+      }
+
+      reachable.add(state);
+      for (const edge of this.getEdgesFrom(state)) {
+        if (edge.to && !reachable.has(edge.to)) {
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    return reachable;
+  }
+
+  analyze(): WorkflowGraphAnalysis {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const reachable = this.getReachableStates();
+    const unreachableStates = [...this.nodes.keys()].filter(
+      state => !reachable.has(state)
+    );
+    for (const state of unreachableStates) {
+      errors.push(
+        `State ${state} is unreachable from ${this.options.initialState}`
+      );
+    }
+
+    const missingTargets = this.edges.filter(
+      edge => edge.to !== undefined && !this.nodes.has(edge.to)
+    );
+    for (const edge of missingTargets) {
+      const message = `${edge.from} transitions to ${edge.to} on ${edge.event}, but ${edge.to} is not part of this workflow`;
+      if (edge.guarded) {
+        warnings.push(`${message} (guarded)`);
+      } else {
+        errors.push(message);
+      }
+    }
+
+    const deadEndStates = [...this.nodes.keys()].filter(state =>
+      this.isDeadEnd(state)
+    );
+    for (const state of deadEndStates) {
+      errors.push(
+        `State ${state} is a dead end: it is not the completion state and has no transitions to other states in this workflow`
+      );
+    }
+
+    const unhandledEvents: Array<{ state: string; event: string }> = [];
+    for (const node of this.nodes.values()) {
+      for (const event of node.emits ?? []) {
+        const handlers = this.getEdgesFrom(node.name).filter(
+          edge => edge.event === event
+        );
+
+        if (handlers.length === 0) {
+          unhandledEvents.push({ state: node.name, event });
+          errors.push(
+            `State ${node.name} emits ${event} but has no transition for it`
+          );
+        } else if (
+          handlers.every(edge => edge.to && !this.nodes.has(edge.to))
+        ) {
+          warnings.push(
+            `State ${node.name} emits ${event} but every transition for it leaves this workflow`
+          );
+        }
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      unreachableStates,
+      deadEndStates,
+      missingTargets,
+      unhandledEvents,
+    };
+  }
+
+  private isDeadEnd(state: string): boolean {
+    if (state === this.options.completionState) {
+      return false;
+    }
+
+    const edges = this.getEdgesFrom(state);
+    if (edges.length === 0) {
+      return true;
+    }
+
+    return !edges.some(
+      edge =>
+        edge.to !== undefined && edge.to !== state && this.nodes.has(edge.to)
+    );
+  }
+}
@@ -1,22 +1,24 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event, EventBuilder } from '../../state-machine/Event.js';
 import { Transition, TransitionBuilder } from '../../state-machine/Transition.js';
-import { ChangeDetectionSummary } from '../../monitoring/ChangeDetector.js';
+import { DataContract } from '../../state-machine/DataContract.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
 import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
+import { createCorrelationId } from '../../logging/Logger.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
-export class AuditCompleteState extends BaseState {
+export class AuditCompleteState extends BaseState<WorkflowData> {
   constructor() {
     super(WorkflowState.AUDIT_COMPLETE);
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     try {
       // Log cycle completion
-      const isInitialRun = context.data.isInitialRun as boolean;
-      const changeDetectionSummary = context.data.changeDetectionSummary as ChangeDetectionSummary;
+      const isInitialRun = context.data.isInitialRun;
+      const changeDetectionSummary = context.data.changeDetectionSummary;
       
       if (isInitialRun) {
         context.logger.info('🚀 Initial baseline creation completed successfully');
@@ -48,19 +50,29 @@ export class AuditCompleteState extends BaseState {
     }
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      requires: ['cycleStartTime'],
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.CYCLE_COMPLETE];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     return [
       TransitionBuilder.on(WorkflowEvent.CYCLE_COMPLETE).goTo(WorkflowState.MONITORING),
     ];
   }
 
-  private async generateFinalAuditSummary(context: StateContext): Promise<void> {
+  private async generateFinalAuditSummary(context: StateContext<WorkflowData>): Promise<void> {
     try {
       const summariesDir = './output/audit-summaries';
       await fs.mkdir(summariesDir, { recursive: true });
 
-      const isInitialRun = context.data.isInitialRun as boolean;
-      const startTime = context.data.cycleStartTime as Date || new Date();
+      const isInitialRun = context.data.isInitialRun;
+      const startTime = context.data.cycleStartTime || new Date();
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
 
@@ -98,8 +110,8 @@ export class AuditCompleteState extends BaseState {
     }
   }
 
-  private getScreenshotSummary(context: StateContext) {
-    const capturedScreenshots = context.data.capturedScreenshots as any[] || [];
+  private getScreenshotSummary(context: StateContext<WorkflowData>) {
+    const capturedScreenshots = context.data.capturedScreenshots || [];
     
     return {
       total: capturedScreenshots.length,
@@ -109,8 +121,8 @@ export class AuditCompleteState extends BaseState {
     };
   }
 
-  private getChangesSummary(context: StateContext) {
-    const changeDetectionSummary = context.data.changeDetectionSummary as ChangeDetectionSummary;
+  private getChangesSummary(context: StateContext<WorkflowData>) {
+    const changeDetectionSummary = context.data.changeDetectionSummary;
     
     if (!changeDetectionSummary) {
       return null;
@@ -127,8 +139,8 @@ export class AuditCompleteState extends BaseState {
     };
   }
 
-  private getQualitySummary(context: StateContext) {
-    const qualityReports = context.data.qualityReports as any[] || [];
+  private getQualitySummary(context: StateContext<WorkflowData>) {
+    const qualityReports = context.data.qualityReports || [];
     
     if (qualityReports.length === 0) {
       return null;
@@ -149,15 +161,15 @@ export class AuditCompleteState extends BaseState {
     };
   }
 
-  private getNextActions(context: StateContext): string[] {
+  private getNextActions(context: StateContext<WorkflowData>): string[] {
     const actions: string[] = [];
-    const isInitialRun = context.data.isInitialRun as boolean;
+    const isInitialRun = context.data.isInitialRun;
     
     if (isInitialRun) {
       actions.push('Baseline screenshots created - monitoring will begin on next cycle');
       actions.push('System ready for change detection');
     } else {
-      const changeDetectionSummary = context.data.changeDetectionSummary as ChangeDetectionSummary;
+      const changeDetectionSummary = context.data.changeDetectionSummary;
       
       if (changeDetectionSummary && changeDetectionSummary.changedImages > 0) {
         actions.push('Baseline screenshots updated with detected changes');
@@ -187,9 +199,9 @@ export class AuditCompleteState extends BaseState {
     }
   }
 
-  private cleanupContextData(context: StateContext): void {
+  private cleanupContextData(context: StateContext<WorkflowData>): void {
     // Clear data from previous cycle to prevent memory leaks
-    const keysToClean = [
+    const keysToClean: (keyof WorkflowData)[] = [
       'isInitialRun',
       'currentScreenshots',
       'capturedScreenshots',
@@ -205,7 +217,8 @@ export class AuditCompleteState extends BaseState {
       delete context.data[key];
     });
 
-    // Set start time for next cycle
+    // Set start time and correlation ID for next cycle
     context.data.cycleStartTime = new Date();
+    context.data.cycleId = createCorrelationId();
   }
 }
\ No newline at end of file
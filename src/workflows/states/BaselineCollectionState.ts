@@ -0,0 +1,119 @@
+import { BaseState, StateContext } from '../../state-machine/State.js';
+import { Event, EventBuilder } from '../../state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../state-machine/Transition.js';
+import { DataContract } from '../../state-machine/DataContract.js';
+import { ScreenshotOptions, ScreenshotResult, Viewport } from '../../screenshot/ScreenshotService.js';
+import { DeviceProfiles } from '../../screenshot/DeviceProfiles.js';
+import { WorkflowState } from '../../types/WorkflowState.js';
+import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Loads the existing baseline screenshots as if they had just been captured,
+ * so later states (e.g. QUALITY_AUDIT) can work on them without a browser
+ */
+export class BaselineCollectionState extends BaseState<WorkflowData> {
+  private readonly baselineDir = './output/final';
+
+  constructor() {
+    super(WorkflowState.BASELINE_COLLECTION);
+  }
+
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
+    try {
+      const config = context.config as {
+        recipes?: Array<{ steps: Array<{ url?: string; filename?: string }> }>;
+        screenshots?: ScreenshotOptions;
+      };
+
+      const urls = new Map<string, string>();
+      for (const recipe of config.recipes || []) {
+        for (const step of recipe.steps) {
+          if (step.url && step.filename) {
+            urls.set(step.filename, step.url);
+          }
+        }
+      }
+
+      const baselines = await this.collectBaselines(urls, DeviceProfiles.resolveAll(config.screenshots?.viewports || []));
+
+      if (baselines.length === 0) {
+        context.logger.error(`No baseline screenshots found in ${this.baselineDir}`);
+        return EventBuilder.executionFailed(new Error('No baseline screenshots found'));
+      }
+
+      context.data.capturedScreenshots = baselines;
+      context.logger.info(`Collected ${baselines.length} baseline screenshots from ${this.baselineDir}`);
+      return EventBuilder.screenshotsCaptured(baselines);
+
+    } catch (error) {
+      context.logger.error(`Baseline collection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return EventBuilder.executionFailed(error instanceof Error ? error : new Error('Unknown error'));
+    }
+  }
+
+  getDataContract(): DataContract {
+    return {
+      provides: {
+        [WorkflowEvent.SCREENSHOTS_CAPTURED]: ['capturedScreenshots'],
+      },
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.SCREENSHOTS_CAPTURED, WorkflowEvent.EXECUTION_FAILED];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
+    return [
+      TransitionBuilder.on(WorkflowEvent.SCREENSHOTS_CAPTURED).goTo(WorkflowState.QUALITY_AUDIT),
+      TransitionBuilder.on(WorkflowEvent.EXECUTION_FAILED).goTo(WorkflowState.TRIGGER_COMPLETE),
+    ];
+  }
+
+  private async collectBaselines(urls: Map<string, string>, viewports: Viewport[]): Promise<ScreenshotResult[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baselineDir);
+    } catch {
+      return [];
+    }
+
+    const baselines: ScreenshotResult[] = [];
+
+    for (const file of files.sort()) {
+      // Baselines use the consistent <filename>-<width>x<height>[@<scale>x].<format> naming
+      const match = /^(.+)-(\d+)x(\d+)(?:@([\d.]+)x)?\.(png|jpg|jpeg)$/i.exec(file);
+      if (!match) {
+        continue;
+      }
+
+      const [, baseFilename, width, height, scale, format] = match;
+      const deviceScaleFactor = scale ? Number(scale) : 1;
+      const viewport = viewports.find(
+        v => v.width === Number(width) && v.height === Number(height) && DeviceProfiles.getScaleFactor(v) === deviceScaleFactor
+      );
+      const filePath = path.join(this.baselineDir, file);
+      const stats = await fs.stat(filePath);
+
+      baselines.push({
+        url: urls.get(baseFilename) || '',
+        filename: file,
+        viewport: viewport || {
+          width: Number(width),
+          height: Number(height),
+          name: scale ? `${width}x${height}@${scale}x` : `${width}x${height}`,
+          ...(scale && { deviceScaleFactor }),
+        },
+        format: format.toLowerCase(),
+        path: filePath,
+        timestamp: stats.mtime,
+        size: stats.size,
+      });
+    }
+
+    return baselines;
+  }
+}
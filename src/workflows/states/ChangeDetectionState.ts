@@ -1,15 +1,19 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event, EventBuilder } from '../../state-machine/Event.js';
 import { Transition, TransitionBuilder } from '../../state-machine/Transition.js';
+import { DataContract } from '../../state-machine/DataContract.js';
 import { ChangeDetector, ChangeDetectionOptions } from '../../monitoring/ChangeDetector.js';
-import { ScreenshotService, ScreenshotOptions } from '../../screenshot/ScreenshotService.js';
+import { ScreenshotService, ScreenshotOptions, CaptureRegion } from '../../screenshot/ScreenshotService.js';
+import { WaitCondition } from '../../screenshot/PageWaiter.js';
 import { WorkflowMode } from '../../types/WorkflowMode.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
 import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
+import { Logger } from '../../logging/Logger.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
-export class ChangeDetectionState extends BaseState {
+export class ChangeDetectionState extends BaseState<WorkflowData> {
   private changeDetector: ChangeDetector;
   private screenshotService: ScreenshotService;
 
@@ -19,15 +23,15 @@ export class ChangeDetectionState extends BaseState {
     this.screenshotService = new ScreenshotService();
   }
 
-  async enter(context: StateContext): Promise<void> {
+  async enter(context: StateContext<WorkflowData>): Promise<void> {
     await super.enter(context);
-    await this.screenshotService.initialize();
+    await this.screenshotService.initialize(context.browserPool);
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     try {
       const config = context.config as {
-        recipes?: Array<{ steps: Array<{ url: string; filename: string }> }>;
+        recipes?: Array<{ steps: Array<{ url: string; filename: string; capture?: CaptureRegion; waitFor?: WaitCondition[] }> }>;
         screenshots?: ScreenshotOptions;
         changeDetection?: ChangeDetectionOptions;
       };
@@ -42,17 +46,20 @@ export class ChangeDetectionState extends BaseState {
       // Check if baseline screenshots exist
       const hasBaselines = await this.hasBaselineScreenshots(finalDir);
       
-      if (!hasBaselines) {
+      if (!hasBaselines && context.data.preserveBaselines) {
+        // Falls through to a temp capture, where every screenshot is new
+        context.logger.warn(`No baseline screenshots in ${finalDir} - reporting all screenshots as new`);
+      } else if (!hasBaselines) {
         context.logger.info('No baseline screenshots found - creating initial baselines');
         context.data.isInitialRun = true;
         // For initial run, we capture directly to final directory with consistent names
-        const screenshots = await this.captureCurrentScreenshots(finalDir, config, false);
+        const screenshots = await this.captureCurrentScreenshots(finalDir, config, false, context);
         context.data.currentScreenshots = screenshots;
         return EventBuilder.visualChangeDetected([]);
       }
 
       // Capture current screenshots for comparison in temp directory
-      const screenshots = await this.captureCurrentScreenshots(tempDir, config, true);
+      const screenshots = await this.captureCurrentScreenshots(tempDir, config, true, context);
       
       if (screenshots.length === 0) {
         context.logger.info('No screenshots captured - target may be unavailable');
@@ -61,10 +68,12 @@ export class ChangeDetectionState extends BaseState {
 
       // Compare with baselines using consistent naming
       const changeDetectionConfig = config.changeDetection || {};
-      const summary = await this.compareWithBaselines(finalDir, tempDir, screenshots, changeDetectionConfig);
+      const summary = await this.compareWithBaselines(finalDir, tempDir, screenshots, changeDetectionConfig, context.logger);
 
       context.data.changeDetectionSummary = summary;
       context.data.currentScreenshots = screenshots;
+      context.metrics?.recordChangeDetection(summary.totalImages, summary.changedImages);
+      context.eventStream?.publishChanges(summary.results);
 
       if (summary.changedImages > 0) {
         context.logger.info(`Visual changes detected in ${summary.changedImages} screenshots`);
@@ -77,31 +86,49 @@ export class ChangeDetectionState extends BaseState {
       }
 
     } catch (error) {
+      if (context.signal?.aborted) {
+        // Cancelled - the state machine is stopping and drops the result
+        return null;
+      }
+
       context.logger.error(`Change detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return EventBuilder.noChangeDetected();
     }
   }
 
-  async exit(context: StateContext): Promise<void> {
+  async exit(context: StateContext<WorkflowData>): Promise<void> {
     await this.screenshotService.cleanup();
     await super.exit(context);
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      requires: ['workflowMode'],
+      provides: {
+        [WorkflowEvent.VISUAL_CHANGE_DETECTED]: ['currentScreenshots'],
+      },
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.VISUAL_CHANGE_DETECTED, WorkflowEvent.NO_CHANGE_DETECTED];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     return [
       TransitionBuilder.on(WorkflowEvent.VISUAL_CHANGE_DETECTED).goTo(WorkflowState.RECIPE_EXECUTION),
       TransitionBuilder.on(WorkflowEvent.NO_CHANGE_DETECTED).goToIf(WorkflowState.TRIGGER_COMPLETE, (event, contextData) => {
         // Go to trigger completion if in trigger mode
         return contextData.workflowMode === WorkflowMode.TRIGGER;
-      }),
+      }, "workflowMode === 'trigger'"),
       TransitionBuilder.on(WorkflowEvent.NO_CHANGE_DETECTED).goToIf(WorkflowState.SCHEDULE_COMPLETE, (event, contextData) => {
         // Go to schedule completion if in schedule mode
         return contextData.workflowMode === WorkflowMode.SCHEDULE;
-      }),
+      }, "workflowMode === 'schedule'"),
       TransitionBuilder.on(WorkflowEvent.NO_CHANGE_DETECTED).goToIf(WorkflowState.AUDIT_COMPLETE, (event, contextData) => {
         // Go to audit completion if in monitor mode
         return contextData.workflowMode === WorkflowMode.MONITOR;
-      }),
+      }, "workflowMode === 'monitor'"),
     ];
   }
 
@@ -120,44 +147,48 @@ export class ChangeDetectionState extends BaseState {
   private async captureCurrentScreenshots(
     outputDir: string,
     config: {
-      recipes?: Array<{ steps: Array<{ url: string; filename: string }> }>;
+      recipes?: Array<{ steps: Array<{ url: string; filename: string; capture?: CaptureRegion; waitFor?: WaitCondition[] }> }>;
       screenshots?: ScreenshotOptions;
     },
-    useTimestamp = true
+    useTimestamp: boolean,
+    context: StateContext<WorkflowData>
   ) {
     const recipes = config.recipes || [];
-    const screenshotOptions = config.screenshots || {};
-    const allScreenshots = [];
-
-    for (const recipe of recipes) {
-      for (const step of recipe.steps) {
-        if (step.url && step.filename) {
-          // Check if URL is accessible
-          const isAccessible = await this.screenshotService.isUrlAccessible(step.url);
-          if (!isAccessible) {
-            continue; // Skip inaccessible URLs
-          }
-
-          const targets = [{ url: step.url, filename: step.filename }];
-          const screenshots = await this.screenshotService.captureMultipleScreenshots(
-            targets,
-            outputDir,
-            screenshotOptions,
-            useTimestamp
-          );
-          allScreenshots.push(...screenshots);
-        }
-      }
-    }
-
-    return allScreenshots;
+    const { signal } = context;
+    const screenshotOptions: ScreenshotOptions = {
+      ...config.screenshots,
+      signal,
+      onScreenshot: screenshot => context.eventStream?.publishScreenshots([screenshot]),
+      onCaptureError: (url, viewport, error) =>
+        context.logger.warn(`Skipped ${url} at ${viewport.name}: ${error.message}`),
+    };
+    const steps = recipes.flatMap(recipe => recipe.steps).filter(step => step.url && step.filename);
+
+    // Checked side by side, so the checks share the pool's concurrency too
+    const accessible = await Promise.all(
+      steps.map(step => this.screenshotService.isUrlAccessible(step.url, signal))
+    );
+
+    // Skip inaccessible URLs; compare the same region, waited for the same way, as the baseline
+    const targets = steps
+      .filter((_step, index) => accessible[index])
+      .map(step => ({ url: step.url, filename: step.filename, capture: step.capture, waitFor: step.waitFor }));
+
+    // One call, so all targets and viewports share the browser pool
+    return this.screenshotService.captureMultipleScreenshots(
+      targets,
+      outputDir,
+      screenshotOptions,
+      useTimestamp
+    );
   }
 
   private async compareWithBaselines(
     finalDir: string,
     tempDir: string,
     screenshots: any[],
-    changeDetectionConfig: any
+    changeDetectionConfig: any,
+    logger: Logger
   ) {
     const results = [];
 
@@ -195,7 +226,7 @@ export class ChangeDetectionState extends BaseState {
           });
         }
       } catch (error) {
-        console.error(`Error comparing screenshot ${screenshot.filename}:`, error);
+        logger.error(`Error comparing screenshot ${screenshot.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
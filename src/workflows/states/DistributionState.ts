@@ -1,15 +1,19 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event, EventBuilder } from '../../state-machine/Event.js';
 import { Transition, TransitionBuilder } from '../../state-machine/Transition.js';
-import { ChangeDetector, ChangeDetectionSummary } from '../../monitoring/ChangeDetector.js';
+import { DataContract } from '../../state-machine/DataContract.js';
+import { ChangeDetector } from '../../monitoring/ChangeDetector.js';
+import { DistributionRegistry } from '../../distribution/DistributionRegistry.js';
 import { ScreenshotResult } from '../../screenshot/ScreenshotService.js';
 import { WorkflowMode } from '../../types/WorkflowMode.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
 import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
+import { Logger } from '../../logging/Logger.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
-export class DistributionState extends BaseState {
+export class DistributionState extends BaseState<WorkflowData> {
   private changeDetector: ChangeDetector;
   private retryCount = 0;
   private readonly maxRetries = 2;
@@ -19,23 +23,24 @@ export class DistributionState extends BaseState {
     this.changeDetector = new ChangeDetector();
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     try {
-      const isInitialRun = context.data.isInitialRun as boolean;
-      const capturedScreenshots = context.data.capturedScreenshots as ScreenshotResult[] || [];
+      const isInitialRun = context.data.isInitialRun;
+      const capturedScreenshots = context.data.capturedScreenshots || [];
 
       if (isInitialRun) {
         // For initial run, screenshots are already in final directory
         context.logger.info(`Initial run completed - ${capturedScreenshots.length} baseline screenshots saved`);
+        await this.distributeToTargets(capturedScreenshots, context);
         return EventBuilder.syncSuccessful();
       }
 
       // For subsequent runs, update baselines with changed screenshots
-      const changeDetectionSummary = context.data.changeDetectionSummary as ChangeDetectionSummary;
+      const changeDetectionSummary = context.data.changeDetectionSummary;
 
       if (!changeDetectionSummary) {
         context.logger.error('No change detection summary found');
-        return this.handleSyncFailure(new Error('Missing change detection data'));
+        return this.handleSyncFailure(new Error('Missing change detection data'), context);
       }
 
       const tempDir = './output/temp';
@@ -47,10 +52,13 @@ export class DistributionState extends BaseState {
 
       if (changedFiles.length > 0) {
         // Update baselines with changed screenshots using consistent naming
-        await this.updateBaselinesWithConsistentNaming(tempDir, finalDir, changedFiles);
+        await this.updateBaselinesWithConsistentNaming(tempDir, finalDir, changedFiles, context.logger);
         context.logger.info(`Updated ${changedFiles.length} baseline screenshots`);
       }
 
+      // Publish before cleanup, while the captured files still exist
+      await this.distributeToTargets(capturedScreenshots, context);
+
       // Clean up temporary files
       await this.changeDetector.cleanupTempFiles(tempDir);
       context.logger.info('Cleaned up temporary screenshot files');
@@ -59,38 +67,63 @@ export class DistributionState extends BaseState {
       return EventBuilder.syncSuccessful();
 
     } catch (error) {
-      return this.handleSyncFailure(error as Error);
+      return this.handleSyncFailure(error as Error, context);
     }
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      requires: ['capturedScreenshots', 'qualityReports'],
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.SYNC_SUCCESSFUL, WorkflowEvent.SYNC_FAILED];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     return [
       TransitionBuilder.on(WorkflowEvent.SYNC_SUCCESSFUL).goToIf(WorkflowState.TRIGGER_COMPLETE, (event, contextData) => {
         // Go to trigger completion if in trigger mode
         return contextData.workflowMode === WorkflowMode.TRIGGER;
-      }),
+      }, "workflowMode === 'trigger'"),
       TransitionBuilder.on(WorkflowEvent.SYNC_SUCCESSFUL).goToIf(WorkflowState.SCHEDULE_COMPLETE, (event, contextData) => {
         // Go to schedule completion if in schedule mode
         return contextData.workflowMode === WorkflowMode.SCHEDULE;
-      }),
+      }, "workflowMode === 'schedule'"),
       TransitionBuilder.on(WorkflowEvent.SYNC_SUCCESSFUL).goToIf(WorkflowState.AUDIT_COMPLETE, (event, contextData) => {
         // Go to audit completion if in monitor mode
         return contextData.workflowMode === WorkflowMode.MONITOR;
-      }),
+      }, "workflowMode === 'monitor'"),
       TransitionBuilder.on(WorkflowEvent.SYNC_FAILED).goToIf(WorkflowState.DISTRIBUTION, (event, contextData) => {
         // Retry if we haven't exhausted retries
         return this.retryCount < this.maxRetries;
-      }),
+      }, "retryCount < maxRetries"),
       TransitionBuilder.on(WorkflowEvent.SYNC_FAILED).goToIf(WorkflowState.MONITORING, (event, contextData) => {
         // Go back to monitoring if we've exhausted retries
         return this.retryCount >= this.maxRetries;
-      }),
+      }, "retryCount >= maxRetries"),
     ];
   }
 
-  private async handleSyncFailure(error: Error): Promise<Event> {
+  private async distributeToTargets(screenshots: ScreenshotResult[], context: StateContext<WorkflowData>): Promise<void> {
+    for (const target of DistributionRegistry.getTargets()) {
+      try {
+        await target.distribute(screenshots, { config: context.config, logger: context.logger });
+        context.logger.info(`Distributed ${screenshots.length} screenshots to ${target.name}`);
+      } catch (error) {
+        const message = `Distribution to ${target.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        context.logger.error(message);
+        throw new Error(message);
+      }
+    }
+  }
+
+  private async handleSyncFailure(error: Error, context: StateContext<WorkflowData>): Promise<Event> {
+    context.metrics?.recordSyncFailure();
     if (this.retryCount < this.maxRetries) {
       this.retryCount++;
+      context.metrics?.recordRetry(this.name);
       // Wait before retry
       await new Promise(resolve => setTimeout(resolve, 1000));
       return EventBuilder.syncFailed(error);
@@ -107,10 +140,21 @@ export class DistributionState extends BaseState {
     };
   }
 
+  getSnapshotData(): Record<string, unknown> {
+    return { retryCount: this.retryCount };
+  }
+
+  restoreSnapshotData(data: Record<string, unknown>): void {
+    if (typeof data.retryCount === 'number') {
+      this.retryCount = data.retryCount;
+    }
+  }
+
   private async updateBaselinesWithConsistentNaming(
     tempDir: string,
     finalDir: string,
-    changedResults: any[]
+    changedResults: any[],
+    logger: Logger
   ): Promise<void> {
     await fs.mkdir(finalDir, { recursive: true });
 
@@ -128,9 +172,9 @@ export class DistributionState extends BaseState {
         // Copy the temp file to final with consistent name, replacing existing
         await fs.copyFile(tempPath, finalPath);
 
-        console.log(`Updated baseline: ${baselineFilename}`);
+        logger.info(`Updated baseline: ${baselineFilename}`);
       } catch (error) {
-        console.error(`Failed to update baseline for ${result.filename}:`, error);
+        logger.error(`Failed to update baseline for ${result.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
   }
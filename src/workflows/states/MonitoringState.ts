@@ -4,8 +4,9 @@ import { Transition, TransitionBuilder } from '../../state-machine/Transition.js
 import { Scheduler, ScheduleConfig } from '../../monitoring/Scheduler.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
 import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
 
-export class MonitoringState extends BaseState {
+export class MonitoringState extends BaseState<WorkflowData> {
   private scheduler: Scheduler;
 
   constructor() {
@@ -13,7 +14,7 @@ export class MonitoringState extends BaseState {
     this.scheduler = new Scheduler();
   }
 
-  async enter(context: StateContext): Promise<void> {
+  async enter(context: StateContext<WorkflowData>): Promise<void> {
     await super.enter(context);
     
     const config = context.config as { monitoring?: { interval: number } };
@@ -36,7 +37,7 @@ export class MonitoringState extends BaseState {
     context.logger.info(`Monitoring started with ${monitoringConfig.interval} minute interval`);
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     // Check for manual trigger
     if (context.data.manualTrigger) {
       context.data.manualTrigger = false;
@@ -54,13 +55,17 @@ export class MonitoringState extends BaseState {
     return null;
   }
 
-  async exit(context: StateContext): Promise<void> {
+  async exit(context: StateContext<WorkflowData>): Promise<void> {
     context.logger.info('Stopping monitoring scheduler');
     await this.scheduler.stopScheduledMonitoring();
     await super.exit(context);
   }
 
-  getTransitions(): Transition[] {
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.SCHEDULE_REACHED, WorkflowEvent.MANUAL_TRIGGER];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     return [
       TransitionBuilder.on(WorkflowEvent.SCHEDULE_REACHED).goTo(WorkflowState.CHANGE_DETECTION),
       TransitionBuilder.on(WorkflowEvent.MANUAL_TRIGGER).goTo(WorkflowState.CHANGE_DETECTION),
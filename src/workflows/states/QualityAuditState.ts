@@ -1,14 +1,15 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event, EventBuilder } from '../../state-machine/Event.js';
 import { Transition, TransitionBuilder } from '../../state-machine/Transition.js';
+import { DataContract } from '../../state-machine/DataContract.js';
 import { QualityValidator, QualityConfig, QualityReport } from '../../screenshot/QualityValidator.js';
-import { ScreenshotResult } from '../../screenshot/ScreenshotService.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
 import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
-export class QualityAuditState extends BaseState {
+export class QualityAuditState extends BaseState<WorkflowData> {
   private qualityValidator: QualityValidator;
   private retryCount = 0;
   private readonly maxRetries = 1;
@@ -18,11 +19,11 @@ export class QualityAuditState extends BaseState {
     this.qualityValidator = new QualityValidator();
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     try {
-      const capturedScreenshots = context.data.capturedScreenshots as ScreenshotResult[] || [];
-      const isInitialRun = context.data.isInitialRun as boolean;
-      const changeDetectionSummary = context.data.changeDetectionSummary as any;
+      const capturedScreenshots = context.data.capturedScreenshots || [];
+      const isInitialRun = context.data.isInitialRun;
+      const changeDetectionSummary = context.data.changeDetectionSummary;
       const hasChanges = changeDetectionSummary && changeDetectionSummary.changedImages > 0;
       
       if (capturedScreenshots.length === 0) {
@@ -54,6 +55,8 @@ export class QualityAuditState extends BaseState {
       const failedReports = qualityReports.filter(report => !report.passed);
       
       context.data.qualityReports = qualityReports;
+      context.metrics?.recordQualityAudit(passedReports.length, failedReports.length);
+      context.eventStream?.publishQualityReports(qualityReports);
 
       // Only generate quality report for initial run or when there are changes
       const shouldGenerateReport = isInitialRun || hasChanges;
@@ -74,6 +77,7 @@ export class QualityAuditState extends BaseState {
         
         if (this.retryCount < this.maxRetries) {
           this.retryCount++;
+          context.metrics?.recordRetry(this.name);
           context.logger.info(`Quality audit failed (${Math.round(passRate)}% pass rate), retrying (attempt ${this.retryCount}/${this.maxRetries})`);
           
           // Wait before retry
@@ -91,6 +95,7 @@ export class QualityAuditState extends BaseState {
       
       if (this.retryCount < this.maxRetries) {
         this.retryCount++;
+        context.metrics?.recordRetry(this.name);
         await new Promise(resolve => setTimeout(resolve, 1000));
         return null; // Stay in current state to retry
       }
@@ -100,21 +105,34 @@ export class QualityAuditState extends BaseState {
     }
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      requires: ['capturedScreenshots'],
+      provides: {
+        [WorkflowEvent.QUALITY_CHECK_PASSED]: ['qualityReports'],
+      },
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.QUALITY_CHECK_PASSED, WorkflowEvent.QUALITY_CHECK_FAILED];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     return [
       TransitionBuilder.on(WorkflowEvent.QUALITY_CHECK_PASSED).goTo(WorkflowState.DISTRIBUTION),
       TransitionBuilder.on(WorkflowEvent.QUALITY_CHECK_FAILED).goToIf(WorkflowState.RECIPE_EXECUTION, (event, context) => {
         // Retry recipe execution if quality check failed and we haven't exhausted retries
         return this.retryCount < this.maxRetries;
-      }),
+      }, "retryCount < maxRetries"),
       TransitionBuilder.on(WorkflowEvent.QUALITY_CHECK_FAILED).goToIf(WorkflowState.MONITORING, (event, context) => {
         // Go back to monitoring if we've exhausted retries
         return this.retryCount >= this.maxRetries;
-      }),
+      }, "retryCount >= maxRetries"),
     ];
   }
 
-  private async saveQualityReport(qualityReports: QualityReport[], context: StateContext): Promise<void> {
+  private async saveQualityReport(qualityReports: QualityReport[], context: StateContext<WorkflowData>): Promise<void> {
     try {
       const reportsDir = './output/quality-reports';
       await fs.mkdir(reportsDir, { recursive: true });
@@ -203,4 +221,14 @@ export class QualityAuditState extends BaseState {
       max: this.maxRetries,
     };
   }
+
+  getSnapshotData(): Record<string, unknown> {
+    return { retryCount: this.retryCount };
+  }
+
+  restoreSnapshotData(data: Record<string, unknown>): void {
+    if (typeof data.retryCount === 'number') {
+      this.retryCount = data.retryCount;
+    }
+  }
 }
\ No newline at end of file
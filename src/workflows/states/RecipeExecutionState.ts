@@ -1,12 +1,15 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event, EventBuilder } from '../../state-machine/Event.js';
 import { Transition, TransitionBuilder } from '../../state-machine/Transition.js';
+import { DataContract } from '../../state-machine/DataContract.js';
 import { ScreenshotService, ScreenshotOptions } from '../../screenshot/ScreenshotService.js';
 import { RecipeEngine, Recipe } from '../../screenshot/RecipeEngine.js';
+import { WorkflowMode } from '../../types/WorkflowMode.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
 import { WorkflowEvent } from '../../types/WorkflowEvent.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
 
-export class RecipeExecutionState extends BaseState {
+export class RecipeExecutionState extends BaseState<WorkflowData> {
   private screenshotService: ScreenshotService;
   private recipeEngine: RecipeEngine;
   private retryCount = 0;
@@ -18,12 +21,12 @@ export class RecipeExecutionState extends BaseState {
     this.recipeEngine = new RecipeEngine(this.screenshotService);
   }
 
-  async enter(context: StateContext): Promise<void> {
+  async enter(context: StateContext<WorkflowData>): Promise<void> {
     await super.enter(context);
-    await this.screenshotService.initialize();
+    await this.screenshotService.initialize(context.browserPool);
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     try {
       const config = context.config as {
         recipes?: Recipe[];
@@ -44,10 +47,15 @@ export class RecipeExecutionState extends BaseState {
       }
 
       // Determine output directory and naming strategy based on whether this is initial run
-      const isInitialRun = context.data.isInitialRun as boolean;
+      const isInitialRun = context.data.isInitialRun;
       const outputDir = isInitialRun ? './output/final' : './output/temp';
       const useTimestamp = !isInitialRun; // Use consistent names for initial/final, timestamps for temp
-      const screenshotOptions = config.screenshots || {};
+      const screenshotOptions: ScreenshotOptions = {
+        ...config.screenshots,
+        signal: context.signal,
+        // Published as each one is written, so clients follow a long run
+        onScreenshot: screenshot => context.eventStream?.publishScreenshots([screenshot]),
+      };
       
       context.logger.info(`Executing ${recipes.length} recipes, outputting to ${outputDir} (${useTimestamp ? 'timestamped' : 'consistent naming'})`);
 
@@ -65,6 +73,7 @@ export class RecipeExecutionState extends BaseState {
 
       if (failedRecipes.length > 0 && this.retryCount < this.maxRetries) {
         this.retryCount++;
+        context.metrics?.recordRetry(this.name);
         context.logger.info(`${failedRecipes.length} recipes failed, retrying (attempt ${this.retryCount}/${this.maxRetries})`);
         
         // Wait before retry
@@ -82,6 +91,7 @@ export class RecipeExecutionState extends BaseState {
       
       context.data.capturedScreenshots = allScreenshots;
       context.data.recipeResults = results;
+      context.metrics?.recordScreenshotsCaptured(allScreenshots.length);
       this.retryCount = 0; // Reset retry count for next time
 
       if (failedRecipes.length > 0) {
@@ -93,8 +103,14 @@ export class RecipeExecutionState extends BaseState {
       return EventBuilder.screenshotsCaptured(allScreenshots);
 
     } catch (error) {
+      if (context.signal?.aborted) {
+        // Cancelled - the state machine is stopping and drops the result
+        return null;
+      }
+
       if (this.retryCount < this.maxRetries) {
         this.retryCount++;
+        context.metrics?.recordRetry(this.name);
         context.logger.error(`Recipe execution error (attempt ${this.retryCount}/${this.maxRetries}): ${error instanceof Error ? error.message : 'Unknown error'}`);
         
         // Wait before retry
@@ -108,18 +124,37 @@ export class RecipeExecutionState extends BaseState {
     }
   }
 
-  async exit(context: StateContext): Promise<void> {
+  async exit(context: StateContext<WorkflowData>): Promise<void> {
     await this.screenshotService.cleanup();
     await super.exit(context);
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      provides: {
+        [WorkflowEvent.SCREENSHOTS_CAPTURED]: ['capturedScreenshots', 'recipeResults'],
+      },
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    return [WorkflowEvent.SCREENSHOTS_CAPTURED, WorkflowEvent.EXECUTION_FAILED];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     return [
       TransitionBuilder.on(WorkflowEvent.SCREENSHOTS_CAPTURED).goTo(WorkflowState.QUALITY_AUDIT),
-      TransitionBuilder.on(WorkflowEvent.EXECUTION_FAILED).goToIf(WorkflowState.MONITORING, (event, context) => {
-        // Go back to monitoring if we've exhausted retries or it's a critical error
-        return this.retryCount >= this.maxRetries;
-      }),
+      // Retries stay in this state, so EXECUTION_FAILED only follows the last attempt
+      // or a configuration error that no retry would fix
+      TransitionBuilder.on(WorkflowEvent.EXECUTION_FAILED).goTo(WorkflowState.MONITORING),
+      // A hung browser call is not worth retrying in the same cycle
+      TransitionBuilder.on(WorkflowEvent.STATE_TIMEOUT).goToIf(WorkflowState.MONITORING, (event, contextData) => {
+        return contextData.workflowMode !== WorkflowMode.TRIGGER;
+      }, "workflowMode !== 'trigger'"),
+      TransitionBuilder.on(WorkflowEvent.STATE_TIMEOUT).goToIf(WorkflowState.TRIGGER_COMPLETE, (event, contextData) => {
+        // Trigger mode has no MONITORING state to fall back to
+        return contextData.workflowMode === WorkflowMode.TRIGGER;
+      }, "workflowMode === 'trigger'"),
     ];
   }
 
@@ -142,4 +177,14 @@ export class RecipeExecutionState extends BaseState {
       max: this.maxRetries,
     };
   }
+
+  getSnapshotData(): Record<string, unknown> {
+    return { retryCount: this.retryCount };
+  }
+
+  restoreSnapshotData(data: Record<string, unknown>): void {
+    if (typeof data.retryCount === 'number') {
+      this.retryCount = data.retryCount;
+    }
+  }
 }
\ No newline at end of file
@@ -1,28 +1,29 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event } from '../../state-machine/Event.js';
 import { Transition } from '../../state-machine/Transition.js';
+import { DataContract } from '../../state-machine/DataContract.js';
 import { WorkflowMode } from '../../types/WorkflowMode.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
 import { promises as fs } from 'fs';
 
-export class ScheduleCompleteState extends BaseState {
+export class ScheduleCompleteState extends BaseState<WorkflowData> {
   constructor() {
     super(WorkflowState.SCHEDULE_COMPLETE);
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     const changeDetectionSummary = context.data.changeDetectionSummary;
     const currentScreenshots = context.data.currentScreenshots;
-    const cycleStartTime = context.data.cycleStartTime as Date;
+    const cycleStartTime = context.data.cycleStartTime ?? new Date();
 
     // Calculate cycle duration
     const cycleDuration = new Date().getTime() - cycleStartTime.getTime();
     const durationMinutes = Math.round(cycleDuration / 1000 / 60 * 100) / 100;
 
     // Determine what was processed
-    const screenshotCount = Array.isArray(currentScreenshots) ? currentScreenshots.length : 0;
-    const changedCount = (changeDetectionSummary && typeof changeDetectionSummary === 'object' && 'changedImages' in changeDetectionSummary) 
-      ? (changeDetectionSummary as { changedImages: number }).changedImages : 0;
+    const screenshotCount = currentScreenshots?.length ?? 0;
+    const changedCount = changeDetectionSummary?.changedImages ?? 0;
 
     let completionMessage: string;
     if (screenshotCount === 0) {
@@ -44,8 +45,7 @@ export class ScheduleCompleteState extends BaseState {
       screenshotCount,
       changedImages: changedCount,
       unchangedImages: screenshotCount - changedCount,
-      averageChange: (changeDetectionSummary && typeof changeDetectionSummary === 'object' && 'averageChange' in changeDetectionSummary) 
-        ? (changeDetectionSummary as { averageChange: number }).averageChange : 0,
+      averageChange: changeDetectionSummary?.averageChange ?? 0,
       completed: true,
       completionMessage,
     };
@@ -66,7 +66,18 @@ export class ScheduleCompleteState extends BaseState {
     return null;
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      requires: ['cycleStartTime'],
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    // Terminal state - execute() always returns null
+    return [];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     // No transitions - this is a terminal state
     return [];
   }
@@ -1,20 +1,21 @@
 import { BaseState, StateContext } from '../../state-machine/State.js';
 import { Event, EventBuilder } from '../../state-machine/Event.js';
 import { Transition } from '../../state-machine/Transition.js';
-import { ChangeDetectionSummary } from '../../monitoring/ChangeDetector.js';
+import { DataContract } from '../../state-machine/DataContract.js';
 import { WorkflowState } from '../../types/WorkflowState.js';
+import { WorkflowData } from '../../types/WorkflowData.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 
-export class TriggerCompleteState extends BaseState {
+export class TriggerCompleteState extends BaseState<WorkflowData> {
   constructor() {
     super(WorkflowState.TRIGGER_COMPLETE);
   }
 
-  async execute(context: StateContext): Promise<Event | null> {
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
     try {
       // Log trigger completion
-      const changeDetectionSummary = context.data.changeDetectionSummary as ChangeDetectionSummary;
+      const changeDetectionSummary = context.data.changeDetectionSummary;
 
       if (changeDetectionSummary && changeDetectionSummary.changedImages > 0) {
         context.logger.info(`✅ Manual trigger completed - ${changeDetectionSummary.changedImages} changes processed`);
@@ -39,17 +40,28 @@ export class TriggerCompleteState extends BaseState {
     }
   }
 
-  getTransitions(): Transition[] {
+  getDataContract(): DataContract {
+    return {
+      requires: ['cycleStartTime'],
+    };
+  }
+
+  getEmittedEvents(): string[] {
+    // Terminal state - execute() always returns null
+    return [];
+  }
+
+  protected getDefaultTransitions(): Transition[] {
     // No transitions - this is a terminal state for trigger mode
     return [];
   }
 
-  private async generateTriggerAuditSummary(context: StateContext): Promise<void> {
+  private async generateTriggerAuditSummary(context: StateContext<WorkflowData>): Promise<void> {
     try {
       const summariesDir = './output/audit-summaries';
       await fs.mkdir(summariesDir, { recursive: true });
 
-      const startTime = context.data.cycleStartTime as Date || new Date();
+      const startTime = context.data.cycleStartTime || new Date();
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
 
@@ -57,6 +69,7 @@ export class TriggerCompleteState extends BaseState {
         audit: {
           timestamp: endTime.toISOString(),
           type: 'manual_trigger',
+          mode: context.data.workflowMode,
           duration: {
             ms: duration,
             seconds: Math.round(duration / 1000),
@@ -87,8 +100,8 @@ export class TriggerCompleteState extends BaseState {
     }
   }
 
-  private getScreenshotSummary(context: StateContext) {
-    const capturedScreenshots = context.data.capturedScreenshots as any[] || [];
+  private getScreenshotSummary(context: StateContext<WorkflowData>) {
+    const capturedScreenshots = context.data.capturedScreenshots || [];
 
     return {
       total: capturedScreenshots.length,
@@ -98,8 +111,8 @@ export class TriggerCompleteState extends BaseState {
     };
   }
 
-  private getChangesSummary(context: StateContext) {
-    const changeDetectionSummary = context.data.changeDetectionSummary as ChangeDetectionSummary;
+  private getChangesSummary(context: StateContext<WorkflowData>) {
+    const changeDetectionSummary = context.data.changeDetectionSummary;
 
     if (!changeDetectionSummary) {
       return null;
@@ -116,8 +129,8 @@ export class TriggerCompleteState extends BaseState {
     };
   }
 
-  private getQualitySummary(context: StateContext) {
-    const qualityReports = context.data.qualityReports as any[] || [];
+  private getQualitySummary(context: StateContext<WorkflowData>) {
+    const qualityReports = context.data.qualityReports || [];
 
     if (qualityReports.length === 0) {
       return null;
@@ -152,9 +165,9 @@ export class TriggerCompleteState extends BaseState {
     }
   }
 
-  private cleanupContextData(context: StateContext): void {
+  private cleanupContextData(context: StateContext<WorkflowData>): void {
     // Clear data from trigger run
-    const keysToClean = [
+    const keysToClean: (keyof WorkflowData)[] = [
       'currentScreenshots',
       'capturedScreenshots',
       'changeDetectionSummary',
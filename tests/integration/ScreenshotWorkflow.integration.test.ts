@@ -4,6 +4,8 @@ import {
   WorkflowConfig,
 } from '../../src/workflows/ScreenshotWorkflow.js';
 import { WorkflowMode } from '../../src/types/WorkflowMode.js';
+import { StateMachine } from '../../src/state-machine/StateMachine.js';
+import { State } from '../../src/state-machine/State.js';
 import { promises as fs } from 'fs';
 
 // Mock external dependencies
@@ -288,6 +290,7 @@ describe('ScreenshotWorkflow Integration', () => {
         stop: vi.fn(),
         getCurrentStateName: vi.fn().mockImplementation(() => currentState),
         isStateMachineRunning: vi.fn().mockReturnValue(false),
+        isPaused: vi.fn().mockReturnValue(false),
       };
 
       // Replace the state machine
@@ -364,6 +367,39 @@ describe('ScreenshotWorkflow Integration', () => {
       }
     });
 
+    it('should pause and resume a running workflow', async () => {
+      await workflow.initialize();
+      const startPromise = workflow.start();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      workflow.pause();
+      expect(workflow.getStatus()).toMatchObject({ isRunning: true, isPaused: true });
+
+      workflow.resume();
+      expect(workflow.getStatus().isPaused).toBe(false);
+
+      await workflow.stop();
+      await startPromise.catch(() => {});
+    });
+
+    it('should reject resume when the workflow is not paused', async () => {
+      await workflow.initialize();
+
+      expect(() => workflow.resume()).toThrow('Workflow is not paused');
+      expect(() => workflow.pause()).toThrow('Workflow is not running');
+    });
+
+    it('should cancel a running workflow and wait for it to wind down', async () => {
+      await workflow.initialize();
+      const startPromise = workflow.start();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      await workflow.cancel('Received SIGINT');
+
+      expect(workflow.getStatus().isRunning).toBe(false);
+      await expect(startPromise).resolves.toBeUndefined();
+    });
+
     it('should throw error when starting uninitialized workflow', async () => {
       const uninitializedWorkflow = new ScreenshotWorkflow(testConfig);
 
@@ -372,6 +408,22 @@ describe('ScreenshotWorkflow Integration', () => {
       );
     });
 
+    it('should refuse a manual trigger in a state without a MANUAL_TRIGGER transition', async () => {
+      await workflow.initialize();
+      const startPromise = workflow.start();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const currentState = vi
+        .spyOn(workflow['stateMachine'] as StateMachine, 'getCurrentState')
+        .mockReturnValue({ name: 'RECIPE_EXECUTION', getTransitions: () => [] } as unknown as State);
+
+      expect(() => workflow.triggerManualRun()).toThrow("Cannot trigger a run in state 'RECIPE_EXECUTION'");
+
+      currentState.mockRestore();
+      await workflow.stop();
+      await startPromise.catch(() => {});
+    });
+
     it('should throw error when triggering manual run on stopped workflow', async () => {
       await workflow.initialize();
 
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ControlApiServer, ControlledWorkflow } from '../../../src/api/ControlApiServer.js';
+import { WorkflowEventStream } from '../../../src/api/WorkflowEventStream.js';
+import { EventBuilder } from '../../../src/state-machine/Event.js';
+
+describe('ControlApiServer', () => {
+  let outputDir: string;
+  let workflow: ControlledWorkflow;
+  let eventStream: WorkflowEventStream;
+  let server: ControlApiServer;
+
+  const request = (route: string, init?: RequestInit): Promise<Response> =>
+    fetch(`http://127.0.0.1:${server.getPort()}${route}`, init);
+
+  const startServer = async (token?: string): Promise<void> => {
+    server = new ControlApiServer(workflow, { port: 0, host: '127.0.0.1', outputDir, token });
+    await server.start();
+  };
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'control-api-'));
+    eventStream = new WorkflowEventStream();
+    workflow = {
+      getStatus: vi.fn().mockReturnValue({ isRunning: true, isPaused: false, currentState: 'MONITORING', config: {} }),
+      getWorkflowMetrics: vi.fn().mockResolvedValue({ directories: {}, recentActivity: {} }),
+      getHistory: vi.fn().mockReturnValue([
+        { from: 'MONITORING', to: 'CHANGE_DETECTION', event: EventBuilder.manualTrigger(), durationMs: 5, contextDiff: {} },
+        { from: 'CHANGE_DETECTION', to: 'AUDIT_COMPLETE', event: EventBuilder.noChangeDetected(), durationMs: 9, contextDiff: {} },
+      ]),
+      triggerManualRun: vi.fn(),
+      pause: vi.fn(),
+      resume: vi.fn().mockImplementation(() => {
+        throw new Error('Workflow is not paused');
+      }),
+      getEventStream: () => eventStream,
+    };
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should report status together with the output metrics', async () => {
+    await startServer();
+
+    const response = await request('/status');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      isRunning: true,
+      isPaused: false,
+      currentState: 'MONITORING',
+      config: {},
+      metrics: { directories: {}, recentActivity: {} },
+    });
+  });
+
+  it('should run commands and reject those the workflow refuses', async () => {
+    await startServer();
+
+    const trigger = await request('/trigger', { method: 'POST' });
+    const pause = await request('/pause', { method: 'POST' });
+    const resume = await request('/resume', { method: 'POST' });
+
+    expect(trigger.status).toBe(200);
+    expect(await trigger.json()).toEqual({ triggered: true });
+    expect(workflow.triggerManualRun).toHaveBeenCalled();
+    expect(pause.status).toBe(200);
+    expect(workflow.pause).toHaveBeenCalled();
+    expect(resume.status).toBe(409);
+    expect(await resume.json()).toEqual({ error: 'Workflow is not paused' });
+  });
+
+  it('should return the most recent transitions', async () => {
+    await startServer();
+
+    const history = (await (await request('/history?limit=1')).json()) as Array<{ to: string }>;
+
+    expect(history.map(entry => entry.to)).toEqual(['AUDIT_COMPLETE']);
+  });
+
+  it('should list baselines and serve diffs', async () => {
+    await fs.mkdir(path.join(outputDir, 'final'));
+    await fs.mkdir(path.join(outputDir, 'diffs'));
+    await fs.writeFile(path.join(outputDir, 'final', 'home-1920x1080.png'), 'png');
+    await fs.writeFile(path.join(outputDir, 'final', 'notes.txt'), 'not an image');
+    await fs.writeFile(path.join(outputDir, 'diffs', 'diff-home-1920x1080.png'), 'diff');
+    await startServer();
+
+    const baselines = (await (await request('/baselines')).json()) as Array<{ name: string; size: number }>;
+    const diff = await request('/diffs/diff-home-1920x1080.png');
+    const missing = await request('/diffs/diff-about-1920x1080.png');
+    const outside = await request('/diffs/..%2Ffinal%2Fhome-1920x1080.png');
+
+    expect(baselines).toMatchObject([{ name: 'home-1920x1080.png', size: 3 }]);
+    expect(diff.status).toBe(200);
+    expect(diff.headers.get('content-type')).toBe('image/png');
+    expect(await diff.text()).toBe('diff');
+    expect(missing.status).toBe(404);
+    expect(outside.status).toBe(400);
+  });
+
+  it('should stream workflow events as Server-Sent Events', async () => {
+    await startServer();
+    eventStream.publish('lifecycle', { status: 'paused', state: 'MONITORING' });
+
+    const controller = new AbortController();
+    const response = await request('/events?types=transition,screenshot', {
+      headers: { 'Last-Event-ID': '0' },
+      signal: controller.signal,
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    eventStream.createObserver().onTransition?.({
+      event: EventBuilder.manualTrigger(),
+      from: 'MONITORING',
+      to: 'CHANGE_DETECTION',
+      timing: { timeInSourceMs: 5, exitMs: 0, enterMs: 0, totalMs: 1 },
+    });
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes('\n\n')) {
+      const { value } = await reader.read();
+      received += decoder.decode(value);
+    }
+    controller.abort();
+
+    // The buffered lifecycle message and the "event" message are filtered out
+    const [frame] = received.split('\n\n');
+    const [id, type, data] = frame.split('\n');
+    expect(id).toBe('id: 3');
+    expect(type).toBe('event: transition');
+    expect(JSON.parse(data.slice('data: '.length))).toMatchObject({
+      type: 'transition',
+      data: { from: 'MONITORING', to: 'CHANGE_DETECTION', event: { type: 'MANUAL_TRIGGER' } },
+    });
+  });
+
+  it('should reject unknown event types', async () => {
+    await startServer();
+
+    const response = await request('/events?types=transition,bogus');
+
+    expect(response.status).toBe(400);
+    expect(eventStream.getListenerCount()).toBe(0);
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    await startServer('s3cret');
+
+    const anonymous = await request('/status');
+    const wrongToken = await request('/status', { headers: { Authorization: 'Bearer guess' } });
+    const authorized = await request('/status', { headers: { Authorization: 'Bearer s3cret' } });
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrongToken.status).toBe(401);
+    expect(authorized.status).toBe(200);
+  });
+});
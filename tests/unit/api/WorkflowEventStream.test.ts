@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WorkflowEventStream, StreamMessage } from '../../../src/api/WorkflowEventStream.js';
+import { EventBuilder } from '../../../src/state-machine/Event.js';
+import { ScreenshotResult } from '../../../src/screenshot/ScreenshotService.js';
+
+describe('WorkflowEventStream', () => {
+  let stream: WorkflowEventStream;
+  let received: StreamMessage[];
+
+  const screenshot = (filename: string): ScreenshotResult => ({
+    url: 'https://example.com',
+    filename,
+    viewport: { width: 1920, height: 1080, name: 'desktop' },
+    format: 'png',
+    path: `./output/temp/${filename}`,
+    timestamp: new Date(),
+    size: 2048,
+  });
+
+  beforeEach(() => {
+    stream = new WorkflowEventStream(3);
+    received = [];
+  });
+
+  it('should publish transitions, events and lifecycle changes from the observer', () => {
+    stream.subscribe(message => received.push(message));
+    const observer = stream.createObserver();
+
+    observer.onTransition?.({
+      event: EventBuilder.manualTrigger(),
+      from: 'MONITORING',
+      to: 'CHANGE_DETECTION',
+      timing: { timeInSourceMs: 12, exitMs: 1, enterMs: 1, totalMs: 2 },
+    });
+    observer.onEventUnhandled?.(EventBuilder.syncSuccessful(), 'CHANGE_DETECTION');
+    observer.onPause?.('CHANGE_DETECTION');
+    observer.onError?.(new Error('Browser crashed'), 'CHANGE_DETECTION');
+
+    expect(received.map(message => [message.id, message.type])).toEqual([
+      [1, 'event'],
+      [2, 'transition'],
+      [3, 'event'],
+      [4, 'lifecycle'],
+      [5, 'lifecycle'],
+    ]);
+    expect(received[2].data).toMatchObject({ state: 'CHANGE_DETECTION', handled: false });
+    expect(received[4].data).toEqual({ status: 'error', state: 'CHANGE_DETECTION', error: 'Browser crashed' });
+  });
+
+  it('should replay buffered messages newer than the given id', () => {
+    stream.publishScreenshots([screenshot('home'), screenshot('about'), screenshot('pricing'), screenshot('blog')]);
+
+    stream.subscribe(message => received.push(message), 2);
+
+    // Only the three most recent messages are kept
+    expect(stream.getRecentMessages().map(message => message.id)).toEqual([2, 3, 4]);
+    expect(received.map(message => (message.data as ScreenshotResult).filename)).toEqual(['pricing', 'blog']);
+  });
+
+  it('should keep notifying other listeners when one throws', () => {
+    stream.subscribe(() => {
+      throw new Error('Client went away');
+    });
+    const unsubscribe = stream.subscribe(message => received.push(message));
+
+    stream.publish('lifecycle', { status: 'resumed', state: 'MONITORING' });
+    unsubscribe();
+    stream.publish('lifecycle', { status: 'terminal', state: 'AUDIT_COMPLETE' });
+
+    expect(received).toHaveLength(1);
+    expect(stream.getListenerCount()).toBe(1);
+  });
+});
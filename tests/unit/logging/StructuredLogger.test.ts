@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StreamSink, StructuredLogger } from '../../../src/logging/StructuredLogger.js';
+import { LogRecord, LogSink, withLogContext } from '../../../src/logging/Logger.js';
+
+class MemorySink implements LogSink {
+  records: LogRecord[] = [];
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+  }
+}
+
+const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+  timestamp: new Date('2025-08-03T21:00:00.000Z'),
+  level: 'info',
+  message: 'Entering state: RECIPE_EXECUTION',
+  fields: {},
+  ...overrides,
+});
+
+describe('StructuredLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should drop records below the configured level', () => {
+    const sink = new MemorySink();
+    const logger = new StructuredLogger({ level: 'warn', sink });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(sink.records.map(r => r.level)).toEqual(['warn', 'error']);
+    expect(logger.isLevelEnabled('info')).toBe(false);
+  });
+
+  it('should default to info', () => {
+    const sink = new MemorySink();
+    const logger = new StructuredLogger({ sink });
+
+    logger.debug('hidden');
+    logger.info('shown');
+
+    expect(sink.records.map(r => r.message)).toEqual(['shown']);
+  });
+
+  it('should merge child fields with the fields of each call', () => {
+    const sink = new MemorySink();
+    const logger = new StructuredLogger({ sink, fields: { service: 'screenshots' } }).child({ cycleId: 'a1b2c3d4' });
+
+    logger.info('Captured', { state: 'RECIPE_EXECUTION', cycleId: 'override' });
+
+    expect(sink.records[0].fields).toEqual({ service: 'screenshots', cycleId: 'override', state: 'RECIPE_EXECUTION' });
+  });
+
+  it('should add computed context fields through withLogContext', () => {
+    const sink = new MemorySink();
+    let state = 'MONITORING';
+    const logger = withLogContext(new StructuredLogger({ sink }), () => ({ cycleId: 'a1b2c3d4', state }));
+
+    logger.info('first');
+    state = 'CHANGE_DETECTION';
+    logger.error('second', { state: 'explicit' });
+
+    expect(sink.records.map(r => r.fields)).toEqual([
+      { cycleId: 'a1b2c3d4', state: 'MONITORING' },
+      { cycleId: 'a1b2c3d4', state: 'explicit' },
+    ]);
+  });
+});
+
+describe('StreamSink', () => {
+  it('should format JSON lines with fields at the top level', () => {
+    const line = new StreamSink('json').formatRecord(
+      record({ fields: { cycleId: 'a1b2c3d4', state: 'RECIPE_EXECUTION', skipped: undefined, error: new Error('boom') } })
+    );
+
+    expect(JSON.parse(line)).toEqual({
+      timestamp: '2025-08-03T21:00:00.000Z',
+      level: 'info',
+      message: 'Entering state: RECIPE_EXECUTION',
+      cycleId: 'a1b2c3d4',
+      state: 'RECIPE_EXECUTION',
+      error: { name: 'Error', message: 'boom' },
+    });
+  });
+
+  it('should keep the classic text layout and append fields', () => {
+    const sink = new StreamSink('text');
+
+    expect(sink.formatRecord(record())).toBe('[INFO] 2025-08-03T21:00:00.000Z - Entering state: RECIPE_EXECUTION');
+    expect(sink.formatRecord(record({ level: 'warn', fields: { cycleId: 'a1b2c3d4', errors: ['a', 'b'] } }))).toBe(
+      '[WARN] 2025-08-03T21:00:00.000Z - Entering state: RECIPE_EXECUTION (cycleId=a1b2c3d4 errors=["a","b"])'
+    );
+  });
+
+  it('should write warnings and errors to stderr', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    const sink = new StreamSink('json');
+
+    sink.write(record({ level: 'debug' }));
+    sink.write(record({ level: 'error' }));
+
+    expect(stdout).toHaveBeenCalledTimes(1);
+    expect(stderr).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+});
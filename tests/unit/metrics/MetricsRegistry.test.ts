@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MetricsRegistry } from '../../../src/metrics/MetricsRegistry.js';
+import { MetricsServer } from '../../../src/metrics/MetricsServer.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters and gauges in Prometheus text format', () => {
+    const checks = registry.counter('quality_checks_total', 'Screenshots audited');
+    const ratio = registry.gauge('quality_pass_ratio', 'Share that passed');
+
+    checks.inc({ result: 'passed' }, 3);
+    checks.inc({ result: 'failed' });
+    checks.inc({ result: 'passed' });
+    ratio.set(0.8);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP quality_checks_total Screenshots audited',
+        '# TYPE quality_checks_total counter',
+        'quality_checks_total{result="passed"} 4',
+        'quality_checks_total{result="failed"} 1',
+        '# HELP quality_pass_ratio Share that passed',
+        '# TYPE quality_pass_ratio gauge',
+        'quality_pass_ratio 0.8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const duration = registry.histogram('state_duration_seconds', 'Time in state', [1, 10]);
+
+    duration.observe(0.5, { state: 'MONITORING' });
+    duration.observe(4, { state: 'MONITORING' });
+    duration.observe(30, { state: 'MONITORING' });
+
+    expect(registry.render()).toContain(
+      [
+        'state_duration_seconds_bucket{le="1",state="MONITORING"} 1',
+        'state_duration_seconds_bucket{le="10",state="MONITORING"} 2',
+        'state_duration_seconds_bucket{le="+Inf",state="MONITORING"} 3',
+        'state_duration_seconds_sum{state="MONITORING"} 34.5',
+        'state_duration_seconds_count{state="MONITORING"} 3',
+      ].join('\n')
+    );
+  });
+
+  it('should escape label values', () => {
+    registry.counter('events_total', 'Events').inc({ mode: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain('events_total{mode="say \\"hi\\"\\\\\\n"} 1');
+  });
+
+  it('should reject duplicate and invalid metric names', () => {
+    registry.counter('cycles_total', 'Cycles');
+
+    expect(() => registry.counter('cycles_total', 'Again')).toThrow('Metric cycles_total is already registered');
+    expect(() => registry.gauge('pass-ratio', 'Ratio')).toThrow('Invalid metric name: pass-ratio');
+  });
+
+  it('should not let counters go down', () => {
+    const counter = registry.counter('retries_total', 'Retries');
+
+    expect(() => counter.inc({}, -1)).toThrow('Counter retries_total cannot be decreased');
+  });
+
+  describe('MetricsServer', () => {
+    let server: MetricsServer;
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should serve the registry for scraping', async () => {
+      registry.counter('cycles_total', 'Cycles').inc({ mode: 'monitor' });
+      server = new MetricsServer(registry, { port: 0, host: '127.0.0.1' });
+      await server.start();
+
+      const response = await fetch(`http://127.0.0.1:${server.getPort()}/metrics`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('version=0.0.4');
+      expect(await response.text()).toContain('cycles_total{mode="monitor"} 1');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WorkflowMetrics } from '../../../src/metrics/WorkflowMetrics.js';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+
+class StepState extends BaseState {
+  constructor(
+    name: string,
+    private readonly transitions: Transition[],
+    private readonly onExecute: (context: StateContext) => Event | null
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    return this.onExecute(context);
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+describe('WorkflowMetrics', () => {
+  let metrics: WorkflowMetrics;
+
+  beforeEach(() => {
+    metrics = new WorkflowMetrics();
+  });
+
+  it('should count completed cycles and time each state', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const machine = new StateMachine({
+      initialState: 'RECIPE_EXECUTION',
+      states: new Map<string, State>([
+        [
+          'RECIPE_EXECUTION',
+          new StepState('RECIPE_EXECUTION', [TransitionBuilder.on('SCREENSHOTS_CAPTURED').goTo('TRIGGER_COMPLETE')], () => {
+            now += 2500;
+            return EventBuilder.screenshotsCaptured([]);
+          }),
+        ],
+        ['TRIGGER_COMPLETE', new StepState('TRIGGER_COMPLETE', [], () => null)],
+      ]),
+      context: {
+        config: {},
+        data: {},
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      },
+      observers: [metrics.createObserver('trigger', 'TRIGGER_COMPLETE')],
+    });
+
+    try {
+      await machine.start();
+    } finally {
+      vi.restoreAllMocks();
+    }
+
+    const output = metrics.registry.render();
+    expect(output).toContain('screenshot_workflow_cycles_total{mode="trigger"} 1\n');
+    expect(output).toContain(
+      'screenshot_workflow_state_duration_seconds_bucket{le="2.5",mode="trigger",state="RECIPE_EXECUTION"} 1\n'
+    );
+    expect(output).toContain('screenshot_workflow_state_duration_seconds_sum{mode="trigger",state="RECIPE_EXECUTION"} 2.5\n');
+  });
+
+  it('should not count a cycle when the machine starts in the completion state', async () => {
+    const observer = metrics.createObserver('monitor', 'AUDIT_COMPLETE');
+
+    await observer.onStateEnter?.('AUDIT_COMPLETE', null);
+
+    expect(metrics.registry.render()).not.toContain('screenshot_workflow_cycles_total{');
+  });
+
+  it('should expose the outcomes recorded by states', () => {
+    metrics.recordScreenshotsCaptured(6);
+    metrics.recordChangeDetection(6, 2);
+    metrics.recordQualityAudit(3, 1);
+    metrics.recordSyncFailure();
+    metrics.recordRetry('DISTRIBUTION');
+    metrics.recordRetry('DISTRIBUTION');
+
+    const output = metrics.registry.render();
+    expect(output).toContain('screenshot_workflow_screenshots_captured_total 6\n');
+    expect(output).toContain('screenshot_workflow_images_compared_total 6\n');
+    expect(output).toContain('screenshot_workflow_changed_images_total 2\n');
+    expect(output).toContain('screenshot_workflow_quality_checks_total{result="passed"} 3\n');
+    expect(output).toContain('screenshot_workflow_quality_checks_total{result="failed"} 1\n');
+    expect(output).toContain('screenshot_workflow_quality_pass_ratio 0.75\n');
+    expect(output).toContain('screenshot_workflow_sync_failures_total 1\n');
+    expect(output).toContain('screenshot_workflow_retries_total{state="DISTRIBUTION"} 2\n');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PluginLoader } from '../../../src/plugins/PluginLoader.js';
+import { PLUGIN_API_VERSION } from '../../../src/plugins/PluginApi.js';
+import { StateFactory } from '../../../src/workflows/StateFactory.js';
+import { GuardRegistry } from '../../../src/workflows/GuardRegistry.js';
+import { RecipeEngine } from '../../../src/screenshot/RecipeEngine.js';
+import { ScreenshotService } from '../../../src/screenshot/ScreenshotService.js';
+import { QualityValidator } from '../../../src/screenshot/QualityValidator.js';
+import { DistributionRegistry } from '../../../src/distribution/DistributionRegistry.js';
+
+vi.mock('sharp', () => ({ default: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+vi.mock('pixelmatch', () => ({ default: vi.fn() }));
+
+const COMPANY_PLUGIN = `
+class AcmeNotifyState {
+  name = 'ACME_NOTIFY';
+  async enter() {}
+  async execute() { return null; }
+  async exit() {}
+  getTransitions() { return []; }
+}
+
+export default {
+  name: 'acme',
+  apiVersion: ${PLUGIN_API_VERSION},
+  register(api) {
+    api.registerState('AcmeNotifyState', AcmeNotifyState);
+    api.registerRecipeStep('acme-login', {
+      async execute(step, context) {
+        context.screenshots.push({ filename: step.options.user + '.png' });
+      },
+      validate(step) {
+        return step.options && step.options.user ? [] : ['acme-login step requires options.user'];
+      },
+    });
+    api.registerQualityCheck({
+      name: 'Acme Branding',
+      run: () => ({ name: 'Acme Branding', passed: true, message: 'Logo present' }),
+    });
+    api.registerDistributionTarget({ name: 'acme-cdn', async distribute() {} });
+    api.registerGuard('acmeBusinessHours', { description: 'business hours', create: () => () => true });
+  },
+};
+`;
+
+describe('PluginLoader', () => {
+  let pluginDir: string;
+
+  async function writePlugin(filename: string, source: string): Promise<string> {
+    await fs.writeFile(path.join(pluginDir, filename), source, 'utf8');
+    return `./${filename}`;
+  }
+
+  beforeAll(async () => {
+    pluginDir = await fs.mkdtemp(path.join(os.tmpdir(), 'screenshot-plugins-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(pluginDir, { recursive: true, force: true });
+  });
+
+  it('should let a plugin register states, steps, checks, targets and guards', async () => {
+    const specifier = await writePlugin('acme.mjs', COMPANY_PLUGIN);
+
+    const loaded = await PluginLoader.load([specifier], StateFactory.createPluginApi(), pluginDir);
+
+    expect(loaded).toEqual([{ name: 'acme', specifier }]);
+    expect(StateFactory.createState('AcmeNotifyState').name).toBe('ACME_NOTIFY');
+    expect(RecipeEngine.getRegisteredStepTypes()).toContain('acme-login');
+    expect(QualityValidator.getRegisteredChecks()).toContain('Acme Branding');
+    expect(DistributionRegistry.getTargets().map(target => target.name)).toContain('acme-cdn');
+    expect(GuardRegistry.has('acmeBusinessHours')).toBe(true);
+  });
+
+  it('should run and validate registered recipe steps', async () => {
+    const engine = new RecipeEngine({} as ScreenshotService);
+
+    expect(engine.validateRecipe({ name: 'login', steps: [{ type: 'acme-login' }] })).toEqual([
+      'Step 0: acme-login step requires options.user',
+    ]);
+
+    const result = await engine.executeRecipe(
+      { name: 'login', steps: [{ type: 'acme-login', options: { user: 'admin' } }] },
+      './output/temp'
+    );
+    expect(result.success).toBe(true);
+    expect(result.screenshots).toEqual([{ filename: 'admin.png' }]);
+  });
+
+  it('should not let plugins replace built-in step types', () => {
+    expect(() => RecipeEngine.registerStepType('navigate', { execute: async () => {} })).toThrow(
+      'Cannot replace built-in recipe step type: navigate'
+    );
+  });
+
+  it('should load each module only once', async () => {
+    const api = StateFactory.createPluginApi();
+    const register = vi.spyOn(api, 'registerState');
+
+    await PluginLoader.load(['./acme.mjs', path.join(pluginDir, 'acme.mjs')], api, pluginDir);
+
+    expect(register).not.toHaveBeenCalled();
+    expect(PluginLoader.getLoadedPlugins().filter(plugin => plugin.name === 'acme')).toHaveLength(1);
+  });
+
+  it('should reject plugins written for another API version', async () => {
+    const specifier = await writePlugin(
+      'future.mjs',
+      `export default { name: 'future', apiVersion: 2, register() {} };`
+    );
+
+    await expect(PluginLoader.load([specifier], StateFactory.createPluginApi(), pluginDir)).rejects.toThrow(
+      `Failed to load plugin ./future.mjs: plugin future targets plugin API v2, but v${PLUGIN_API_VERSION} is supported`
+    );
+  });
+
+  it('should reject modules without a plugin default export', async () => {
+    const specifier = await writePlugin('empty.mjs', 'export const helper = 1;');
+
+    await expect(PluginLoader.load([specifier], StateFactory.createPluginApi(), pluginDir)).rejects.toThrow(
+      'Failed to load plugin ./empty.mjs: module has no default export'
+    );
+  });
+
+  it('should reject a second plugin with the same name', async () => {
+    const specifier = await writePlugin('acme-copy.mjs', COMPANY_PLUGIN);
+
+    await expect(PluginLoader.load([specifier], StateFactory.createPluginApi(), pluginDir)).rejects.toThrow(
+      'Plugin name acme from ./acme-copy.mjs is already used by ./acme.mjs'
+    );
+  });
+});
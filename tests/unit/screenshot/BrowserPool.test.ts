@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { Browser, Page } from 'puppeteer';
+import { BrowserPool } from '../../../src/screenshot/BrowserPool.js';
+
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+
+class FakePage {
+  closed = false;
+  isClosed = (): boolean => this.closed;
+  close = vi.fn(async () => {
+    this.closed = true;
+  });
+}
+
+class FakeBrowser extends EventEmitter {
+  pages: FakePage[] = [];
+  newPage = vi.fn(async () => {
+    const page = new FakePage();
+    this.pages.push(page);
+    return page;
+  });
+  close = vi.fn(async () => {
+    this.emit('disconnected');
+  });
+  crash(): void {
+    this.emit('disconnected');
+  }
+}
+
+describe('BrowserPool', () => {
+  const createPool = (options: { concurrency?: number; maxPageUses?: number } = {}) => {
+    const browsers: FakeBrowser[] = [];
+    const launch = vi.fn(async () => {
+      const browser = new FakeBrowser();
+      browsers.push(browser);
+      return browser as unknown as Browser;
+    });
+    return { pool: new BrowserPool({ ...options, launch }), browsers, launch };
+  };
+
+  it('should run at most `concurrency` jobs at once and reuse their pages', async () => {
+    const { pool, browsers } = createPool({ concurrency: 2 });
+    let running = 0;
+    let maxRunning = 0;
+
+    const pages = await Promise.all(
+      Array.from({ length: 6 }, () =>
+        pool.withPage(async page => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          running--;
+          return page;
+        })
+      )
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(browsers).toHaveLength(1);
+    expect(browsers[0].newPage).toHaveBeenCalledTimes(2);
+    expect(new Set(pages).size).toBe(2);
+    expect(pool.getStats()).toEqual({ active: 0, idle: 2, waiting: 0, launches: 1, crashes: 0 });
+  });
+
+  it('should relaunch a crashed browser and retry the job once', async () => {
+    const { pool, browsers } = createPool();
+    let attempts = 0;
+
+    const result = await pool.withPage(async () => {
+      attempts++;
+      if (attempts === 1) {
+        browsers[0].crash();
+        throw new Error('Protocol error: Target closed');
+      }
+      return 'captured';
+    });
+
+    expect(result).toBe('captured');
+    expect(browsers).toHaveLength(2);
+    expect(pool.getStats()).toMatchObject({ launches: 2, crashes: 1, idle: 1 });
+  });
+
+  it('should not retry jobs that fail while the browser is healthy', async () => {
+    const { pool, launch } = createPool();
+    const job = vi.fn(async () => {
+      throw new Error('Navigation timeout of 30000 ms exceeded');
+    });
+
+    await expect(pool.withPage(job)).rejects.toThrow('Navigation timeout');
+
+    expect(job).toHaveBeenCalledTimes(1);
+    expect(launch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace pages after maxPageUses and drop pages closed by their job', async () => {
+    const { pool, browsers } = createPool({ concurrency: 1, maxPageUses: 2 });
+
+    const first = await pool.withPage(async page => page);
+    const second = await pool.withPage(async page => page);
+    const third = await pool.withPage(async page => {
+      await page.close();
+      return page;
+    });
+    const fourth = await pool.withPage(async page => page);
+
+    expect(second).toBe(first);
+    expect((first as unknown as FakePage).close).toHaveBeenCalled();
+    expect(third).not.toBe(first);
+    expect(fourth).not.toBe(third);
+    expect(browsers[0].newPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should close the browser without counting a crash and launch again on next use', async () => {
+    const { pool, browsers } = createPool();
+    await pool.withPage(async () => undefined);
+
+    await pool.close();
+    await pool.withPage(async (page: Page) => page);
+
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(pool.getStats()).toMatchObject({ launches: 2, crashes: 0 });
+  });
+
+  it('should reject a non-positive concurrency', () => {
+    expect(() => new BrowserPool({ concurrency: 0 })).toThrow(
+      'Browser pool concurrency must be a positive integer, got 0'
+    );
+  });
+});
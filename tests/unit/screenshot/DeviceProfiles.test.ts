@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { DEVICE_PROFILES, DeviceProfiles } from '../../../src/screenshot/DeviceProfiles.js';
+
+describe('DeviceProfiles', () => {
+  it('should resolve profile names case-insensitively and pass viewports through', () => {
+    const custom = { width: 1280, height: 720, name: 'laptop' };
+
+    const [phone, laptop] = DeviceProfiles.resolveAll(['iphone 15', custom]);
+
+    expect(phone).toEqual(DEVICE_PROFILES['iPhone 15']);
+    expect(phone).not.toBe(DEVICE_PROFILES['iPhone 15']);
+    expect(laptop).toBe(custom);
+  });
+
+  it('should swap width and height for landscape profiles', () => {
+    expect(DeviceProfiles.get('iPad Pro 11 landscape')).toEqual(
+      expect.objectContaining({
+        name: 'iPad Pro 11 landscape',
+        width: 1194,
+        height: 834,
+        deviceScaleFactor: 2,
+        isLandscape: true,
+      })
+    );
+  });
+
+  it('should name the available profiles when one is unknown', () => {
+    expect(() => DeviceProfiles.resolve('Nokia 3310')).toThrow(/^Unknown device profile: Nokia 3310 \(available: iPhone SE, /);
+  });
+
+  it('should default the scale factor to 1', () => {
+    expect(DeviceProfiles.getScaleFactor({ width: 800, height: 600, name: 'plain' })).toBe(1);
+    expect(DeviceProfiles.getScaleFactor(DEVICE_PROFILES['Pixel 8'])).toBe(2.625);
+  });
+
+  it('should report unknown names and invalid viewports', () => {
+    expect(
+      DeviceProfiles.validate([
+        'Desktop 4K',
+        'Pixel 8 landscape',
+        'Pixel 9',
+        { width: 0, height: 600, name: 'broken' },
+        { width: 800, height: 600, name: 'flat', deviceScaleFactor: 0 },
+      ])
+    ).toEqual([
+      expect.stringMatching(/^Viewport 2: unknown device profile 'Pixel 9' \(available: /),
+      'Viewport 3: width and height must be positive',
+      'Viewport 4: deviceScaleFactor must be positive',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Page } from 'puppeteer';
+import { DEFAULT_FROZEN_TIME, PageStabilizer } from '../../../src/screenshot/PageStabilizer.js';
+
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+
+describe('PageStabilizer', () => {
+  const createPage = () => {
+    const page = {
+      evaluateOnNewDocument: vi.fn().mockResolvedValue({ identifier: 'freeze-1' }),
+      removeScriptToEvaluateOnNewDocument: vi.fn(),
+      addStyleTag: vi.fn(),
+      evaluate: vi.fn(),
+      isClosed: () => false,
+    };
+    return { page, asPage: page as unknown as Page };
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('beforeNavigation', () => {
+    it('should pin Date before page scripts run and remove the script afterwards', async () => {
+      const { page, asPage } = createPage();
+
+      const restore = await PageStabilizer.beforeNavigation(asPage, { freezeTime: '2024-03-01T12:00:00Z' });
+      const [freeze, timestamp] = page.evaluateOnNewDocument.mock.calls[0] as [(timestamp: number) => void, number];
+
+      // Run the injected script against a stand-in window
+      const pageWindow = { Date };
+      vi.stubGlobal('window', pageWindow);
+      freeze(timestamp);
+
+      expect(timestamp).toBe(Date.parse('2024-03-01T12:00:00Z'));
+      expect(pageWindow.Date.now()).toBe(timestamp);
+      expect(new pageWindow.Date().getTime()).toBe(timestamp);
+      expect(new pageWindow.Date(0).getTime()).toBe(0);
+
+      await restore();
+      expect(page.removeScriptToEvaluateOnNewDocument).toHaveBeenCalledWith('freeze-1');
+    });
+
+    it('should freeze at the default instant unless time freezing is off', async () => {
+      const { page, asPage } = createPage();
+
+      await PageStabilizer.beforeNavigation(asPage, {});
+      await PageStabilizer.beforeNavigation(asPage, { freezeTime: false });
+
+      expect(page.evaluateOnNewDocument).toHaveBeenCalledTimes(1);
+      expect(page.evaluateOnNewDocument.mock.calls[0][1]).toBe(Date.parse(DEFAULT_FROZEN_TIME));
+    });
+  });
+
+  it('should only include the settling steps that are not switched off', async () => {
+    const { page, asPage } = createPage();
+
+    await PageStabilizer.stabilize(asPage, { disableAnimations: false, waitForFonts: false });
+
+    const { content } = page.addStyleTag.mock.calls[0][0] as { content: string };
+    expect(content).toContain('caret-color: transparent');
+    expect(content).not.toContain('animation-duration');
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should apply the mask rules for the target with their defaults', async () => {
+    const { page, asPage } = createPage();
+    page.evaluate.mockResolvedValue(3);
+
+    const masked = await PageStabilizer.applyMasks(
+      asPage,
+      [
+        { selectors: ['.timestamp', '.avatar'] },
+        { selectors: ['.carousel'], style: 'blur', targets: ['homepage'] },
+        { selectors: ['.ad'], targets: ['dashboard'] },
+      ],
+      'homepage'
+    );
+
+    expect(masked).toBe(3);
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), [
+      { selectors: ['.timestamp', '.avatar'], style: 'blank', color: '#808080', blurRadius: 16 },
+      { selectors: ['.carousel'], style: 'blur', color: '#808080', blurRadius: 16 },
+    ]);
+    expect(await PageStabilizer.applyMasks(asPage, [{ selectors: ['.ad'], targets: ['dashboard'] }], 'homepage')).toBe(0);
+  });
+
+  it('should report invalid stabilization and mask settings', () => {
+    expect(
+      PageStabilizer.validate({ freezeTime: 'yesterday' }, [
+        { selectors: [] },
+        { selectors: ['.ad'], style: 'pixelate' as 'blur', blurRadius: 0 },
+      ])
+    ).toEqual([
+      'Invalid freezeTime: yesterday',
+      'Mask 0 needs one or more non-empty selectors',
+      "Mask 1 has unknown style 'pixelate' (expected blank or blur)",
+      'Mask 1 needs a positive blurRadius',
+    ]);
+    expect(PageStabilizer.validate(undefined, undefined)).toEqual([]);
+  });
+});
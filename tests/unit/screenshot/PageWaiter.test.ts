@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Page } from 'puppeteer';
+import { PageWaiter, WaitCondition, WaitTimeoutError } from '../../../src/screenshot/PageWaiter.js';
+
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+
+describe('PageWaiter', () => {
+  const createPage = () => {
+    const page = {
+      waitForSelector: vi.fn(),
+      waitForNetworkIdle: vi.fn(),
+      waitForFunction: vi.fn(),
+    };
+    return { page, asPage: page as unknown as Page };
+  };
+
+  const timeoutError = (): Error => {
+    const error = new Error('Waiting failed: 2000ms exceeded');
+    error.name = 'TimeoutError';
+    return error;
+  };
+
+  it('should wait for each condition in order with its own timeout', async () => {
+    const { page, asPage } = createPage();
+
+    await PageWaiter.waitFor(asPage, [
+      { type: 'selector', selector: '.spinner', state: 'hidden', timeout: 2000 },
+      { type: 'networkIdle', idleMs: 750 },
+      { type: 'function', expression: 'window.appReady === true', pollingMs: 50 },
+      { type: 'domStable', stableMs: 300 },
+    ]);
+
+    expect(page.waitForSelector).toHaveBeenCalledWith('.spinner', {
+      visible: false,
+      hidden: true,
+      timeout: 2000,
+      signal: undefined,
+    });
+    expect(page.waitForNetworkIdle).toHaveBeenCalledWith({ idleTime: 750, timeout: 10000 });
+    expect(page.waitForFunction).toHaveBeenNthCalledWith(1, 'window.appReady === true', {
+      polling: 50,
+      timeout: 10000,
+      signal: undefined,
+    });
+    expect(page.waitForFunction).toHaveBeenNthCalledWith(2, expect.any(Function), expect.objectContaining({ polling: 100 }), 300);
+  });
+
+  it('should name the condition that timed out', async () => {
+    const { page, asPage } = createPage();
+    page.waitForSelector.mockRejectedValue(timeoutError());
+
+    const wait = PageWaiter.waitFor(asPage, [{ type: 'selector', selector: '#pricing-table', timeout: 2000 }]);
+
+    await expect(wait).rejects.toBeInstanceOf(WaitTimeoutError);
+    await expect(wait).rejects.toThrow("Timed out after 2000ms waiting for selector '#pricing-table' to be visible");
+  });
+
+  it('should pass on other failures and cancellation unchanged', async () => {
+    const { page, asPage } = createPage();
+    const controller = new AbortController();
+    page.waitForFunction.mockRejectedValueOnce(new Error('Evaluation failed: SyntaxError'));
+    page.waitForFunction.mockImplementationOnce(async () => {
+      controller.abort(new Error('Workflow cancelled'));
+      throw timeoutError();
+    });
+
+    await expect(PageWaiter.waitFor(asPage, [{ type: 'function', expression: 'window.(' }])).rejects.toThrow(
+      'Evaluation failed: SyntaxError'
+    );
+    await expect(PageWaiter.waitFor(asPage, [{ type: 'imagesLoaded' }], controller.signal)).rejects.toThrow(
+      'Workflow cancelled'
+    );
+  });
+
+  it('should treat failed images and lazy images outside the viewport as settled', async () => {
+    const { page, asPage } = createPage();
+    await PageWaiter.waitFor(asPage, [{ type: 'imagesLoaded' }]);
+    const imagesSettled = page.waitForFunction.mock.calls[0][0] as () => boolean;
+    const image = (complete: boolean, loading: string, top: number) => ({
+      complete,
+      loading,
+      getBoundingClientRect: () => ({ top, bottom: top + 100, left: 0, right: 200 }),
+    });
+    const settledWith = (...images: unknown[]): boolean => {
+      vi.stubGlobal('window', { innerWidth: 1280, innerHeight: 720 });
+      vi.stubGlobal('document', { images });
+      try {
+        return imagesSettled();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    };
+
+    // A broken image is complete with a naturalWidth of 0
+    expect(settledWith(image(true, 'eager', 0), image(false, 'lazy', 2000))).toBe(true);
+    expect(settledWith(image(false, 'lazy', 300))).toBe(false);
+    expect(settledWith(image(false, 'eager', 2000))).toBe(false);
+  });
+
+  it('should report invalid conditions', () => {
+    expect(
+      PageWaiter.validate([
+        { type: 'selector', selector: '', state: 'gone' as 'hidden' },
+        { type: 'networkIdle', timeout: 0 },
+        { type: 'delay', ms: -1 },
+        { type: 'scroll' } as unknown as WaitCondition,
+      ])
+    ).toEqual([
+      'Wait condition 0 needs a selector',
+      "Wait condition 0 state must be 'visible' or 'hidden'",
+      'Wait condition 1 needs a positive timeout',
+      'Wait condition 2 needs a non-negative ms',
+      "Wait condition 3 has unknown type 'scroll' (expected one of selector, networkIdle, function, imagesLoaded, domStable, delay)",
+    ]);
+    expect(PageWaiter.validate([{ type: 'imagesLoaded', timeout: 5000 }, { type: 'delay', ms: 250 }])).toEqual([]);
+  });
+});
@@ -192,6 +192,56 @@ describe('QualityValidator', () => {
       expect(viewportCheck?.message).toContain('Viewport mismatch');
     });
 
+    it('should pass a region capture smaller than the viewport', async () => {
+      (fs.stat as any).mockResolvedValue({
+        size: mockScreenshot.size,
+      });
+
+      // A pricing table captured on its own
+      const mockSharp = {
+        metadata: vi.fn().mockResolvedValue({
+          width: 600,
+          height: 200,
+          format: 'png',
+        }),
+      };
+      (sharp as any).mockReturnValue(mockSharp);
+
+      const regionScreenshot = {
+        ...mockScreenshot,
+        viewport: { width: 1280, height: 720, name: 'desktop' },
+        region: true,
+      };
+
+      const report = await validator.validateScreenshot(regionScreenshot, { ...mockConfig, qualityThreshold: 80 });
+
+      expect(report.passed).toBe(true);
+      expect(report.overallScore).toBe(100);
+      expect(report.checks.find(check => check.name === 'Viewport Match')).toBeUndefined();
+      expect(report.checks.find(check => check.name === 'Image Height')?.passed).toBe(true);
+    });
+
+    it('should still hold region captures to the maximum dimensions', async () => {
+      (fs.stat as any).mockResolvedValue({
+        size: mockScreenshot.size,
+      });
+
+      const mockSharp = {
+        metadata: vi.fn().mockResolvedValue({
+          width: 600,
+          height: 5000,
+          format: 'png',
+        }),
+      };
+      (sharp as any).mockReturnValue(mockSharp);
+
+      const report = await validator.validateScreenshot({ ...mockScreenshot, region: true }, mockConfig);
+
+      const heightCheck = report.checks.find(check => check.name === 'Image Height');
+      expect(heightCheck?.passed).toBe(false);
+      expect(heightCheck?.expected).toBe('0-2160px');
+    });
+
     it('should handle file access errors', async () => {
       // Mock file access error
       (fs.stat as any).mockRejectedValue(new Error('File not found'));
@@ -243,4 +293,22 @@ describe('QualityValidator', () => {
     });
   });
 
-});
\ No newline at end of file
+  describe('registered checks', () => {
+    it('should pass registered checks the config merged over the defaults', async () => {
+      (fs.stat as any).mockResolvedValue({ size: mockScreenshot.size });
+      (sharp as any).mockReturnValue({
+        metadata: vi.fn().mockResolvedValue({ width: 1920, height: 1080, format: 'png' }),
+      });
+      const run = vi.fn().mockReturnValue({ name: 'Merged Config', passed: true, message: 'ok' });
+      QualityValidator.registerCheck({ name: 'Merged Config', run });
+
+      await validator.validateScreenshot(mockScreenshot, { minWidth: 800 });
+
+      expect(run).toHaveBeenCalledWith(
+        mockScreenshot,
+        expect.objectContaining({ width: 1920 }),
+        expect.objectContaining({ minWidth: 800, maxWidth: 3840, qualityThreshold: 80 })
+      );
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RecipeEngine } from '../../../src/screenshot/RecipeEngine.js';
+import { ScreenshotService } from '../../../src/screenshot/ScreenshotService.js';
+
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+
+describe('RecipeEngine cancellation', () => {
+  const createEngine = (service: Partial<ScreenshotService> = {}) =>
+    new RecipeEngine(service as ScreenshotService);
+
+  it('should interrupt a wait step when the signal fires', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(new Error('Workflow cancelled')), 20);
+
+    await expect(
+      createEngine().executeRecipe(
+        { name: 'slow', steps: [{ type: 'wait', duration: 60000 }] },
+        './output/temp',
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow('Workflow cancelled');
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  it('should not run the remaining steps or recipes once aborted', async () => {
+    const controller = new AbortController();
+    const isUrlAccessible = vi.fn(async () => {
+      controller.abort(new Error('Workflow cancelled'));
+      return false;
+    });
+    const engine = createEngine({ isUrlAccessible });
+
+    await expect(
+      engine.executeMultipleRecipes(
+        [
+          { name: 'first', steps: [{ type: 'navigate', url: 'http://localhost:3000', filename: 'home' }] },
+          { name: 'second', steps: [{ type: 'navigate', url: 'http://localhost:3000/about', filename: 'about' }] },
+        ],
+        './output/temp',
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow('Workflow cancelled');
+
+    expect(isUrlAccessible).toHaveBeenCalledTimes(1);
+    expect(isUrlAccessible).toHaveBeenCalledWith('http://localhost:3000', controller.signal);
+  });
+
+  it('should keep collecting step errors when not cancelled', async () => {
+    const engine = createEngine({ isUrlAccessible: vi.fn(async () => false) });
+
+    const result = await engine.executeRecipe(
+      { name: 'offline', steps: [{ type: 'navigate', url: 'http://localhost:3000', filename: 'home' }] },
+      './output/temp',
+      { signal: new AbortController().signal }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Failed to execute step navigate: URL http://localhost:3000 is not accessible']);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Page } from 'puppeteer';
+import { ScreenshotService } from '../../../src/screenshot/ScreenshotService.js';
+import { BrowserPool } from '../../../src/screenshot/BrowserPool.js';
+import { WaitTimeoutError } from '../../../src/screenshot/PageWaiter.js';
+
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+
+describe('ScreenshotService', () => {
+  describe('capturing', () => {
+    let outputDir: string;
+    let page: {
+      setViewport: ReturnType<typeof vi.fn>;
+      goto: ReturnType<typeof vi.fn>;
+      evaluate: ReturnType<typeof vi.fn>;
+      waitForSelector: ReturnType<typeof vi.fn>;
+      screenshot: ReturnType<typeof vi.fn>;
+      setUserAgent: ReturnType<typeof vi.fn>;
+      browser: () => { userAgent: () => Promise<string> };
+      isClosed: () => boolean;
+    };
+    let service: ScreenshotService;
+
+    const viewport = { width: 1280, height: 720, name: 'desktop' };
+
+    beforeEach(async () => {
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'screenshots-'));
+      page = {
+        setViewport: vi.fn(),
+        goto: vi.fn(),
+        evaluate: vi.fn(),
+        waitForSelector: vi.fn(),
+        screenshot: vi.fn(async (options: { path: string }) => fs.writeFile(options.path, 'png')),
+        setUserAgent: vi.fn(),
+        browser: () => ({ userAgent: () => Promise.resolve('HeadlessChrome') }),
+        isClosed: () => false,
+      };
+      const pool = { withPage: (fn: (page: Page) => Promise<unknown>) => fn(page as unknown as Page) };
+      service = new ScreenshotService();
+      await service.initialize(pool as unknown as BrowserPool);
+    });
+
+    afterEach(async () => {
+      await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should clip to the padded box around the selected elements and keep the consistent filename', async () => {
+      page.evaluate.mockResolvedValue({ rect: { x: 4, y: 300, width: 600, height: 200 } });
+
+      const [result] = await service.captureScreenshot(
+        'http://localhost:3000/pricing',
+        'pricing-table',
+        outputDir,
+        viewport,
+        { capture: { selectors: ['#plans', '#faq'], padding: 8 } },
+        false
+      );
+
+      expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), ['#plans', '#faq']);
+      expect(page.screenshot).toHaveBeenCalledWith(
+        expect.objectContaining({ clip: { x: 0, y: 292, width: 612, height: 216 } })
+      );
+      expect(page.screenshot.mock.calls[0][0]).not.toHaveProperty('fullPage');
+      expect(result.filename).toBe(ScreenshotService.generateConsistentFilename('pricing-table', viewport, 'png'));
+      expect(result.region).toBe(true);
+    });
+
+    it('should fail the capture when a selector matches nothing', async () => {
+      page.evaluate.mockResolvedValue({ error: 'Element not found: #missing' });
+
+      await expect(
+        service.captureScreenshot('http://localhost:3000', 'home', outputDir, viewport, {
+          capture: { selector: '#missing' },
+        })
+      ).rejects.toThrow('Element not found: #missing');
+      expect(page.screenshot).not.toHaveBeenCalled();
+    });
+
+    it('should wait for the target conditions instead of a fixed second', async () => {
+      const startedAt = Date.now();
+
+      await service.captureMultipleScreenshots(
+        [{ url: 'http://localhost:3000', filename: 'home', waitFor: [{ type: 'selector', selector: '#app' }] }],
+        outputDir,
+        { viewports: [viewport], waitFor: [{ type: 'delay', ms: 5000 }] },
+        false
+      );
+
+      expect(page.waitForSelector).toHaveBeenCalledWith('#app', expect.objectContaining({ visible: true }));
+      expect(page.screenshot).toHaveBeenCalledWith(expect.objectContaining({ fullPage: true }));
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it('should emulate device profiles and restore the browser user agent afterwards', async () => {
+      // One after the other, so the second capture reuses the emulated page
+      const results = [];
+      for (const entry of ['iPhone 15', viewport]) {
+        results.push(
+          ...(await service.captureMultipleScreenshots(
+            [{ url: 'http://localhost:3000', filename: 'home' }],
+            outputDir,
+            { viewports: [entry], waitFor: [] },
+            false
+          ))
+        );
+      }
+
+      expect(page.setViewport).toHaveBeenNthCalledWith(1, {
+        width: 393,
+        height: 852,
+        deviceScaleFactor: 3,
+        isMobile: true,
+        hasTouch: true,
+        isLandscape: false,
+      });
+      expect(page.setUserAgent).toHaveBeenNthCalledWith(1, expect.stringContaining('iPhone'));
+      expect(page.setUserAgent).toHaveBeenNthCalledWith(2, 'HeadlessChrome');
+      expect(results.map(result => result.filename)).toEqual(['home-393x852@3x.png', 'home-1280x720.png']);
+    });
+
+    it('should report each screenshot as soon as its file is written', async () => {
+      const onScreenshot = vi.fn();
+      const reportedBeforeJpeg: number[] = [];
+      page.screenshot.mockImplementation(async (options: { path: string; type: string }) => {
+        if (options.type === 'jpeg') {
+          reportedBeforeJpeg.push(onScreenshot.mock.calls.length);
+        }
+        await fs.writeFile(options.path, 'image');
+      });
+
+      const results = await service.captureScreenshot(
+        'http://localhost:3000',
+        'home',
+        outputDir,
+        viewport,
+        { formats: ['png', 'jpeg'], waitFor: [{ type: 'delay', ms: 0 }], onScreenshot },
+        false
+      );
+
+      expect(reportedBeforeJpeg).toEqual([1]);
+      expect(onScreenshot.mock.calls.map(([result]) => result)).toEqual(results);
+    });
+
+    it('should report the pages it skips after a failed wait', async () => {
+      const timeout = new Error('Waiting failed: 100ms exceeded');
+      timeout.name = 'TimeoutError';
+      page.waitForSelector.mockRejectedValueOnce(timeout);
+      const onCaptureError = vi.fn();
+
+      const results = await service.captureMultipleScreenshots(
+        [{ url: 'http://localhost:3000', filename: 'home' }],
+        outputDir,
+        { viewports: [viewport], waitFor: [{ type: 'selector', selector: '#app', timeout: 100 }], onCaptureError },
+        false
+      );
+
+      expect(results).toEqual([]);
+      expect(onCaptureError).toHaveBeenCalledWith('http://localhost:3000', viewport, expect.any(WaitTimeoutError));
+      expect(onCaptureError.mock.calls[0][2].message).toBe("Timed out after 100ms waiting for selector '#app' to be visible");
+    });
+  });
+
+  describe('validateCaptureRegion', () => {
+    it('should accept a selector or a clip', () => {
+      expect(ScreenshotService.validateCaptureRegion({ selector: '.pricing', padding: 16 })).toEqual([]);
+      expect(ScreenshotService.validateCaptureRegion({ clip: { x: 0, y: 100, width: 800, height: 400 } })).toEqual([]);
+    });
+
+    it('should report empty, conflicting and out-of-range settings', () => {
+      expect(ScreenshotService.validateCaptureRegion({})).toEqual([
+        'Capture region needs a selector, selectors or a clip',
+      ]);
+      expect(
+        ScreenshotService.validateCaptureRegion({
+          selectors: [' '],
+          clip: { x: -1, y: 0, width: 0, height: 10 },
+          padding: -4,
+        })
+      ).toEqual([
+        'Capture selectors must not be empty',
+        'Capture region takes either selectors or a clip, not both',
+        'Capture clip needs finite, non-negative x and y',
+        'Capture clip needs a positive width and height',
+        'Capture padding must be a non-negative number',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { CompositeState } from '../../../src/state-machine/CompositeState.js';
+import { ParallelState } from '../../../src/state-machine/ParallelState.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+
+class StepState extends BaseState {
+  constructor(
+    name: string,
+    private readonly transitions: Transition[],
+    private readonly onExecute: (context: StateContext) => Event | null = () =>
+      EventBuilder.create('NEXT')
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    return this.onExecute(context);
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+const terminal = (name: string): StepState => new StepState(name, [], () => null);
+
+describe('Hierarchical states', () => {
+  let context: StateContext;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: {},
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+  });
+
+  describe('CompositeState', () => {
+    it('should run its sub-machine to completion and then leave the super-state', async () => {
+      const visited: string[] = [];
+      const record = (name: string) => (): Event => {
+        visited.push(name);
+        return EventBuilder.create('NEXT');
+      };
+
+      const capture = new CompositeState('CAPTURE', {
+        initialState: 'CAPTURE_HOME',
+        states: new Map<string, State>([
+          ['CAPTURE_HOME', new StepState('CAPTURE_HOME', [TransitionBuilder.on('NEXT').goTo('CAPTURE_DASHBOARD')], record('home'))],
+          ['CAPTURE_DASHBOARD', new StepState('CAPTURE_DASHBOARD', [TransitionBuilder.on('NEXT').goTo('CAPTURE_DONE')], record('dashboard'))],
+          ['CAPTURE_DONE', terminal('CAPTURE_DONE')],
+        ]),
+        transitions: [TransitionBuilder.on('SUBSTATES_COMPLETE').goTo('AUDIT')],
+      });
+
+      const machine = new StateMachine({
+        initialState: 'CAPTURE',
+        states: new Map<string, State>([
+          ['CAPTURE', capture],
+          ['AUDIT', terminal('AUDIT')],
+        ]),
+        context,
+      });
+
+      await machine.start();
+
+      expect(visited).toEqual(['home', 'dashboard']);
+      expect(machine.getCurrentStateName()).toBe('AUDIT');
+      expect(machine.hasReachedTerminalState()).toBe(true);
+    });
+
+    it('should expose the nested active state path', async () => {
+      let observedPath: string[] = [];
+      let machine: StateMachine;
+
+      const capture = new CompositeState('CAPTURE', {
+        initialState: 'CAPTURE_HOME',
+        states: new Map<string, State>([
+          [
+            'CAPTURE_HOME',
+            new StepState('CAPTURE_HOME', [TransitionBuilder.on('NEXT').goTo('CAPTURE_DONE')], () => {
+              observedPath = machine.getActiveStatePath();
+              return EventBuilder.create('NEXT');
+            }),
+          ],
+          ['CAPTURE_DONE', terminal('CAPTURE_DONE')],
+        ]),
+        transitions: [TransitionBuilder.on('SUBSTATES_COMPLETE').goTo('AUDIT')],
+      });
+
+      machine = new StateMachine({
+        initialState: 'CAPTURE',
+        states: new Map<string, State>([
+          ['CAPTURE', capture],
+          ['AUDIT', terminal('AUDIT')],
+        ]),
+        context,
+      });
+
+      await machine.start();
+
+      expect(observedPath).toEqual(['CAPTURE', 'CAPTURE_HOME']);
+      expect(machine.getActiveStatePath()).toEqual(['AUDIT']);
+    });
+
+    it('should stop its sub-machine when a sub-state throws and leave through SUBSTATES_FAILED', async () => {
+      const crashing = new StepState('CAPTURE_HOME', [TransitionBuilder.on('NEXT').goTo('CAPTURE_DONE')], () => {
+        throw new Error('Browser crashed');
+      });
+      const execute = vi.spyOn(crashing, 'execute');
+
+      const capture = new CompositeState('CAPTURE', {
+        initialState: 'CAPTURE_HOME',
+        states: new Map<string, State>([
+          ['CAPTURE_HOME', crashing],
+          ['CAPTURE_DONE', terminal('CAPTURE_DONE')],
+        ]),
+        transitions: [
+          TransitionBuilder.on('SUBSTATES_COMPLETE').goTo('AUDIT'),
+          TransitionBuilder.on('SUBSTATES_FAILED').goTo('FAILED'),
+        ],
+      });
+
+      const event = await capture.execute(context);
+
+      expect(event?.type).toBe('SUBSTATES_FAILED');
+      expect(event?.payload).toEqual({ state: 'CAPTURE_HOME', error: 'Browser crashed' });
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(capture.getActiveSubstates()).toEqual([]);
+    });
+  });
+
+  describe('ParallelState', () => {
+    const region = (name: string) => ({
+      name,
+      initialState: `${name}_CAPTURE`,
+      states: new Map<string, State>([
+        [
+          `${name}_CAPTURE`,
+          new StepState(`${name}_CAPTURE`, [TransitionBuilder.on('NEXT').goTo(`${name}_DONE`)], ctx => {
+            (ctx.data.captured as string[]).push(name);
+            return EventBuilder.create('NEXT');
+          }),
+        ],
+        [`${name}_DONE`, terminal(`${name}_DONE`)],
+      ]),
+    });
+
+    it('should run all regions and join before transitioning', async () => {
+      context.data.captured = [];
+
+      const capture = new ParallelState('CAPTURE', {
+        regions: [region('desktop'), region('mobile')],
+        transitions: [TransitionBuilder.on('REGIONS_COMPLETE').goTo('AUDIT')],
+      });
+
+      const audit = terminal('AUDIT');
+      const auditEnter = vi.spyOn(audit, 'enter');
+
+      const machine = new StateMachine({
+        initialState: 'CAPTURE',
+        states: new Map<string, State>([
+          ['CAPTURE', capture],
+          ['AUDIT', audit],
+        ]),
+        context,
+      });
+
+      await machine.start();
+
+      expect(context.data.captured).toEqual(expect.arrayContaining(['desktop', 'mobile']));
+      expect(auditEnter).toHaveBeenCalledTimes(1);
+      expect(machine.getCurrentStateName()).toBe('AUDIT');
+    });
+
+    it('should report the final state of every region in the join event', async () => {
+      context.data.captured = [];
+
+      const capture = new ParallelState('CAPTURE', {
+        regions: [region('desktop'), region('mobile')],
+        transitions: [],
+      });
+
+      const event = await capture.execute(context);
+
+      expect(event?.type).toBe('REGIONS_COMPLETE');
+      expect(event?.payload).toEqual({
+        finalStates: { desktop: 'desktop_DONE', mobile: 'mobile_DONE' },
+      });
+    });
+
+    it('should emit REGION_FAILED when a region cannot start', async () => {
+      const capture = new ParallelState('CAPTURE', {
+        regions: [
+          { name: 'broken', initialState: 'MISSING', states: new Map() },
+        ],
+        transitions: [],
+      });
+
+      const event = await capture.execute(context);
+
+      expect(event?.type).toBe('REGION_FAILED');
+      expect(event?.payload).toEqual({
+        errors: { broken: "Initial state 'MISSING' not found" },
+      });
+    });
+
+    it('should stop a region whose state throws and fail the join', async () => {
+      context.data.captured = [];
+      const crashing = new StepState('mobile_CAPTURE', [TransitionBuilder.on('NEXT').goTo('mobile_DONE')], () => {
+        throw new Error('Browser crashed');
+      });
+      const execute = vi.spyOn(crashing, 'execute');
+
+      const capture = new ParallelState('CAPTURE', {
+        regions: [
+          region('desktop'),
+          {
+            name: 'mobile',
+            initialState: 'mobile_CAPTURE',
+            states: new Map<string, State>([
+              ['mobile_CAPTURE', crashing],
+              ['mobile_DONE', terminal('mobile_DONE')],
+            ]),
+          },
+        ],
+        transitions: [],
+      });
+
+      const event = await capture.execute(context);
+
+      expect(event?.type).toBe('REGION_FAILED');
+      expect(event?.payload).toEqual({ errors: { mobile: 'Browser crashed' } });
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(context.data.captured).toEqual(['desktop']);
+    });
+  });
+});
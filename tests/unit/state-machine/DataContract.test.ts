@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { DataContract, DataContractError, DataContractValidator } from '../../../src/state-machine/DataContract.js';
+import { WORKFLOW_DATA_SCHEMA, WorkflowData } from '../../../src/types/WorkflowData.js';
+
+class ContractState extends BaseState<WorkflowData> {
+  constructor(
+    name: string,
+    private readonly transitions: Transition[],
+    private readonly contract: DataContract,
+    private readonly script: (context: StateContext<WorkflowData>) => Event | null
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext<WorkflowData>): Promise<Event | null> {
+    return this.script(context);
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+
+  getDataContract(): DataContract {
+    return this.contract;
+  }
+}
+
+describe('Data contracts', () => {
+  let context: StateContext;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: { cycleStartTime: new Date() },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+  });
+
+  function createMachine(audit: (context: StateContext<WorkflowData>) => Event | null): StateMachine {
+    const states = new Map<string, State>([
+      [
+        'QUALITY_AUDIT',
+        new ContractState(
+          'QUALITY_AUDIT',
+          [TransitionBuilder.on('QUALITY_CHECK_PASSED').goTo('DISTRIBUTION')],
+          { provides: { QUALITY_CHECK_PASSED: ['qualityReports'] } },
+          audit
+        ),
+      ],
+      ['DISTRIBUTION', new ContractState('DISTRIBUTION', [], { requires: ['qualityReports'] }, () => null)],
+    ]);
+
+    return new StateMachine({
+      initialState: 'QUALITY_AUDIT',
+      states,
+      context,
+      dataSchema: WORKFLOW_DATA_SCHEMA,
+    });
+  }
+
+  it('should end the run when a state does not populate promised data', async () => {
+    const audit = vi.fn(() => EventBuilder.qualityCheckPassed());
+    const onError = vi.fn();
+    const machine = createMachine(audit);
+    machine.addObserver({ onError });
+
+    await expect(machine.start()).rejects.toBeInstanceOf(DataContractError);
+
+    expect(audit).toHaveBeenCalledTimes(1);
+    expect(machine.isStateMachineRunning()).toBe(false);
+    expect(machine.getCurrentStateName()).toBe('QUALITY_AUDIT');
+    expect(onError).toHaveBeenCalledWith(expect.any(DataContractError), 'QUALITY_AUDIT');
+    expect(context.logger.error).toHaveBeenCalledWith(
+      "State machine error: State 'QUALITY_AUDIT' did not populate context data: qualityReports"
+    );
+  });
+
+  it('should reject values that do not match the schema', async () => {
+    const machine = createMachine(ctx => {
+      (ctx.data as Record<string, unknown>).qualityReports = 'none';
+      return EventBuilder.qualityCheckPassed();
+    });
+
+    await expect(machine.start()).rejects.toThrow("Invalid context data in state 'QUALITY_AUDIT': qualityReports");
+
+    expect(machine.getCurrentStateName()).toBe('QUALITY_AUDIT');
+  });
+
+  it('should transition once the contract is satisfied', async () => {
+    const machine = createMachine(ctx => {
+      ctx.data.qualityReports = [];
+      return EventBuilder.qualityCheckPassed();
+    });
+
+    await machine.start();
+
+    expect(machine.getCurrentStateName()).toBe('DISTRIBUTION');
+    expect(machine.hasReachedTerminalState()).toBe(true);
+  });
+
+  it('should refuse to start in a state whose requirements are missing', async () => {
+    const machine = new StateMachine({
+      initialState: 'DISTRIBUTION',
+      states: new Map<string, State>([
+        ['DISTRIBUTION', new ContractState('DISTRIBUTION', [], { requires: ['qualityReports'] }, () => null)],
+      ]),
+      context,
+    });
+
+    await expect(machine.start()).rejects.toThrow("State 'DISTRIBUTION' requires context data: qualityReports");
+  });
+
+  it('should expose the offending keys on the error', () => {
+    expect.assertions(3);
+    const validator = new DataContractValidator(WORKFLOW_DATA_SCHEMA);
+
+    try {
+      validator.checkKeys({ workflowMode: 'nightly' }, ['workflowMode', 'capturedScreenshots'], 'QUALITY_AUDIT', 'requires');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DataContractError);
+      expect((error as DataContractError).keys).toEqual(['capturedScreenshots']);
+    }
+
+    expect(() => validator.checkSchema({ workflowMode: '' }, 'MONITORING')).toThrow(
+      "Invalid context data in state 'MONITORING': workflowMode"
+    );
+  });
+});
@@ -2,7 +2,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { StateMachine, StateMachineConfig } from '../../../src/state-machine/StateMachine.js';
 import { BaseState, StateContext } from '../../../src/state-machine/State.js';
 import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
-import { TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { Tracer, traceActive } from '../../../src/tracing/Tracer.js';
+import { InMemorySpanExporter } from '../../../src/tracing/SpanExporters.js';
 
 class TestState extends BaseState {
   constructor(name: string, private executeReturn: Event | null = null) {
@@ -44,6 +46,7 @@ describe('StateMachine', () => {
   beforeEach(() => {
     mockLogger = {
       info: vi.fn(),
+      warn: vi.fn(),
       error: vi.fn(),
       debug: vi.fn(),
     };
@@ -255,4 +258,276 @@ describe('StateMachine', () => {
     await stateMachine.stop();
     await startPromise.catch(() => {});
   });
-});
\ No newline at end of file
+
+  describe('dispatch', () => {
+    it('should handle dispatched events before executing the current state again', async () => {
+      const stateA = states.get('STATE_A');
+      const executeSpy = vi.spyOn(stateA, 'execute').mockResolvedValue(null);
+
+      const stateMachine = new StateMachine(config);
+      const startPromise = stateMachine.start();
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const callsBeforeDispatch = executeSpy.mock.calls.length;
+
+      stateMachine.dispatch(EventBuilder.create('COMPLETE'));
+      await startPromise;
+
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_C');
+      expect(executeSpy.mock.calls.length).toBeLessThanOrEqual(callsBeforeDispatch + 1);
+    });
+
+    it('should process queued events in order', async () => {
+      vi.spyOn(states.get('STATE_A'), 'execute').mockResolvedValue(null);
+      vi.spyOn(states.get('STATE_B'), 'execute').mockResolvedValue(null);
+
+      const stateMachine = new StateMachine(config);
+      stateMachine.dispatch(EventBuilder.create('TEST_EVENT'));
+      stateMachine.dispatch(EventBuilder.create('COMPLETE'));
+
+      expect(stateMachine.getPendingEvents().map(e => e.type)).toEqual(['TEST_EVENT', 'COMPLETE']);
+
+      await stateMachine.start();
+
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_C');
+      expect(stateMachine.getPendingEvents()).toHaveLength(0);
+    });
+
+    it('should drop dispatched events the active state does not handle', async () => {
+      const stateMachine = new StateMachine(config);
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        await stateMachine.stop();
+        return null;
+      });
+
+      stateMachine.dispatch(EventBuilder.create('UNKNOWN_EVENT'));
+      await stateMachine.start();
+
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_A');
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        expect.stringContaining("No transition found for event 'UNKNOWN_EVENT'")
+      );
+    });
+  });
+
+  describe('transition semantics', () => {
+    const singleEventState = (transitions: Transition[]) => {
+      let emitted = false;
+      const state = new TestState('STATE_A');
+      state.getTransitions = () => transitions;
+      vi.spyOn(state, 'execute').mockImplementation(async () => {
+        if (!emitted) {
+          emitted = true;
+          return EventBuilder.create('TEST_EVENT');
+        }
+        return null;
+      });
+      return state;
+    };
+
+    it('should prefer the matching transition with the highest priority', async () => {
+      states.set('STATE_A', singleEventState([
+        TransitionBuilder.on('TEST_EVENT').goTo('STATE_B'),
+        TransitionBuilder.on('TEST_EVENT').priority(5).goTo('STATE_C'),
+      ]));
+
+      const stateMachine = new StateMachine(config);
+      await stateMachine.start();
+
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_C');
+    });
+
+    it('should run the action between exit and enter', async () => {
+      const order: string[] = [];
+      const stateA = singleEventState([
+        TransitionBuilder.on('TEST_EVENT')
+          .withAction((event, data) => {
+            order.push('action');
+            data.handledBy = event.type;
+          })
+          .goTo('STATE_C'),
+      ]);
+      vi.spyOn(stateA, 'exit').mockImplementation(async () => void order.push('exit'));
+      vi.spyOn(states.get('STATE_C'), 'enter').mockImplementation(async () => void order.push('enter'));
+      states.set('STATE_A', stateA);
+
+      const stateMachine = new StateMachine(config);
+      await stateMachine.start();
+
+      expect(order).toEqual(['exit', 'action', 'enter']);
+      expect(context.data.handledBy).toBe('TEST_EVENT');
+    });
+
+    it('should handle internal transitions without exiting the state', async () => {
+      const action = vi.fn();
+      const stateA = singleEventState([
+        TransitionBuilder.on('TEST_EVENT').withAction(action).internal(),
+      ]);
+      const exitSpy = vi.spyOn(stateA, 'exit');
+      const enterSpy = vi.spyOn(stateA, 'enter');
+      states.set('STATE_A', stateA);
+
+      const stateMachine = new StateMachine(config);
+      const startPromise = stateMachine.start();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(action).toHaveBeenCalledTimes(1);
+      expect(enterSpy).toHaveBeenCalledTimes(1);
+      expect(exitSpy).not.toHaveBeenCalled();
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_A');
+
+      await stateMachine.stop();
+      await startPromise;
+    });
+  });
+
+  describe('pause, resume and stop', () => {
+    it('should hold the machine while paused and continue on resume', async () => {
+      const onPause = vi.fn();
+      const onResume = vi.fn();
+      const stateMachine = new StateMachine({ ...config, observers: [{ onPause, onResume }] });
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        stateMachine.pause();
+        return EventBuilder.create('TEST_EVENT');
+      });
+
+      const startPromise = stateMachine.start();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(stateMachine.isPaused()).toBe(true);
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_A');
+      expect(stateMachine.getPendingEvents().map(e => e.type)).toEqual(['TEST_EVENT']);
+      expect(onPause).toHaveBeenCalledWith('STATE_A');
+
+      stateMachine.resume();
+      await startPromise;
+
+      expect(stateMachine.isPaused()).toBe(false);
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_C');
+      expect(onResume).toHaveBeenCalledWith('STATE_A');
+    });
+
+    it('should let stop() end a paused machine', async () => {
+      const stateMachine = new StateMachine(config);
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        stateMachine.pause();
+        return null;
+      });
+
+      const startPromise = stateMachine.start();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await stateMachine.stop();
+      await startPromise;
+
+      expect(stateMachine.isPaused()).toBe(false);
+      expect(stateMachine.isStateMachineRunning()).toBe(false);
+    });
+
+    it('should drop the result of an execute() that finishes after stop()', async () => {
+      const stateMachine = new StateMachine(config);
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        await stateMachine.stop();
+        return EventBuilder.create('TEST_EVENT');
+      });
+
+      await stateMachine.start();
+
+      expect(stateMachine.getCurrentStateName()).toBe('STATE_A');
+      expect(stateMachine.getHistory()).toHaveLength(0);
+    });
+
+    it('should not report errors from an execute() aborted by stop()', async () => {
+      const controller = new AbortController();
+      context.signal = controller.signal;
+      const stateMachine = new StateMachine(config);
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        controller.abort(new Error('Workflow cancelled'));
+        await stateMachine.stop();
+        context.signal?.throwIfAborted();
+        return null;
+      });
+
+      await stateMachine.start();
+
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tracing', () => {
+    let exporter: InMemorySpanExporter;
+
+    beforeEach(() => {
+      exporter = new InMemorySpanExporter();
+      context.tracer = new Tracer(exporter);
+    });
+
+    it('should trace a cycle with a span per state phase', async () => {
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(() =>
+        traceActive('captureScreenshot', { url: 'http://example.com' }, async () => EventBuilder.create('TEST_EVENT'))
+      );
+
+      await new StateMachine(config).start();
+      await context.tracer?.flush();
+
+      const spans = exporter.getFinishedSpans();
+      const cycle = spans.find(span => span.name === 'cycle');
+      const executeA = spans.find(span => span.name === 'STATE_A.execute');
+
+      expect(spans.map(span => span.name)).toEqual([
+        'STATE_A.enter',
+        'captureScreenshot',
+        'STATE_A.execute',
+        'STATE_A.exit',
+        'STATE_B.enter',
+        'STATE_B.execute',
+        'STATE_B.exit',
+        'STATE_C.enter',
+        'cycle',
+      ]);
+      expect(cycle?.attributes).toEqual({ 'workflow.initial_state': 'STATE_A' });
+      expect(new Set(spans.map(span => span.traceId)).size).toBe(1);
+      expect(executeA).toMatchObject({
+        parentSpanId: cycle?.spanId,
+        attributes: { 'state.name': 'STATE_A', 'state.phase': 'execute', 'event.type': 'TEST_EVENT' },
+      });
+      expect(spans.find(span => span.name === 'captureScreenshot')?.parentSpanId).toBe(executeA?.spanId);
+    });
+
+    it('should start a new trace when the machine returns to its initial state', async () => {
+      const stateMachine = new StateMachine(config);
+      let runs = 0;
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        runs++;
+        if (runs === 1) {
+          return EventBuilder.create('TEST_EVENT');
+        }
+        await stateMachine.stop();
+        return null;
+      });
+      vi.spyOn(states.get('STATE_B'), 'getTransitions').mockReturnValue([TransitionBuilder.on('COMPLETE').goTo('STATE_A')]);
+
+      await stateMachine.start();
+      await context.tracer?.flush();
+
+      const cycles = exporter.getFinishedSpans().filter(span => span.name === 'cycle');
+      expect(cycles).toHaveLength(2);
+      expect(cycles[0].traceId).not.toBe(cycles[1].traceId);
+    });
+
+    it('should mark the span of a failing execute() as an error', async () => {
+      const stateMachine = new StateMachine(config);
+      vi.spyOn(states.get('STATE_A'), 'execute').mockImplementation(async () => {
+        await stateMachine.stop();
+        throw new Error('Browser crashed');
+      });
+
+      await stateMachine.start();
+      await context.tracer?.flush();
+
+      expect(exporter.getFinishedSpans().find(span => span.name === 'STATE_A.execute')?.status).toEqual({
+        code: 'error',
+        message: 'Browser crashed',
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { StateMachineObserver, TransitionInfo } from '../../../src/state-machine/StateMachineObserver.js';
+
+class ScriptedState extends BaseState {
+  constructor(name: string, private readonly transitions: Transition[], private readonly script: () => Event | null) {
+    super(name);
+  }
+
+  async execute(): Promise<Event | null> {
+    return this.script();
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+describe('StateMachine observers', () => {
+  let context: StateContext;
+  let states: Map<string, State>;
+  let calls: string[];
+  let observer: StateMachineObserver;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: {},
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+
+    let emittedUnknown = false;
+    states = new Map<string, State>([
+      [
+        'CAPTURE',
+        new ScriptedState('CAPTURE', [TransitionBuilder.on('CAPTURED').goTo('DONE')], () => {
+          if (!emittedUnknown) {
+            emittedUnknown = true;
+            return EventBuilder.create('UNKNOWN');
+          }
+          return EventBuilder.create('CAPTURED');
+        }),
+      ],
+      ['DONE', new ScriptedState('DONE', [], () => null)],
+    ]);
+
+    calls = [];
+    observer = {
+      onStateEnter: (state, event) => {
+        calls.push(`enter:${state}:${event?.type ?? 'none'}`);
+      },
+      onStateExit: (state, event) => {
+        calls.push(`exit:${state}:${event?.type ?? 'none'}`);
+      },
+      onTransition: info => {
+        calls.push(`transition:${info.from}->${info.to}`);
+      },
+      onEventUnhandled: (event, state) => {
+        calls.push(`unhandled:${event.type}@${state}`);
+      },
+      onTerminal: state => {
+        calls.push(`terminal:${state}`);
+      },
+    };
+  });
+
+  it('should call lifecycle hooks in order', async () => {
+    const machine = new StateMachine({ initialState: 'CAPTURE', states, context, observers: [observer] });
+
+    await machine.start();
+
+    expect(calls).toEqual([
+      'enter:CAPTURE:none',
+      'unhandled:UNKNOWN@CAPTURE',
+      'exit:CAPTURE:CAPTURED',
+      'enter:DONE:CAPTURED',
+      'transition:CAPTURE->DONE',
+      'terminal:DONE',
+    ]);
+  });
+
+  it('should pass the event and a timing breakdown to onTransition', async () => {
+    const transitions: TransitionInfo[] = [];
+    const machine = new StateMachine({ initialState: 'CAPTURE', states, context });
+    machine.addObserver({ onTransition: info => void transitions.push(info) });
+
+    await machine.start();
+
+    expect(transitions).toHaveLength(1);
+    const [info] = transitions;
+    expect(info.event.type).toBe('CAPTURED');
+    expect(info.timing.timeInSourceMs).toBeGreaterThanOrEqual(0);
+    expect(info.timing.totalMs).toBeGreaterThanOrEqual(info.timing.exitMs + info.timing.enterMs);
+  });
+
+  it('should report state errors to onError', async () => {
+    const onError = vi.fn();
+    const failing = new ScriptedState('CAPTURE', [], () => {
+      throw new Error('page crashed');
+    });
+    const machine = new StateMachine({
+      initialState: 'CAPTURE',
+      states: new Map([['CAPTURE', failing]]),
+      context,
+      observers: [{ onError: async (error, state) => { onError(error.message, state); await machine.stop(); } }],
+    });
+
+    await machine.start();
+
+    expect(onError).toHaveBeenCalledWith('page crashed', 'CAPTURE');
+  });
+
+  it('should detach observers and isolate observer failures', async () => {
+    const machine = new StateMachine({ initialState: 'CAPTURE', states, context });
+    const detach = machine.addObserver(observer);
+    machine.addObserver({
+      onTransition: () => {
+        throw new Error('metrics backend down');
+      },
+    });
+    detach();
+
+    await machine.start();
+
+    expect(calls).toEqual([]);
+    expect(machine.getCurrentStateName()).toBe('DONE');
+    expect(context.logger.error).toHaveBeenCalledWith('Observer onTransition failed: metrics backend down');
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import {
+  FileSnapshotStore,
+  SNAPSHOT_VERSION,
+  SnapshotSerializer,
+  SnapshotStore,
+  StateMachineSnapshot,
+} from '../../../src/state-machine/StateSnapshot.js';
+
+class RetryingState extends BaseState {
+  retryCount = 0;
+
+  constructor(name: string, private readonly transitions: Transition[], private readonly next: Event | null) {
+    super(name);
+  }
+
+  async execute(): Promise<Event | null> {
+    return this.next;
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+
+  getSnapshotData(): Record<string, unknown> {
+    return { retryCount: this.retryCount };
+  }
+
+  restoreSnapshotData(data: Record<string, unknown>): void {
+    this.retryCount = data.retryCount as number;
+  }
+}
+
+class MemorySnapshotStore implements SnapshotStore {
+  saved: StateMachineSnapshot[] = [];
+  cleared = false;
+
+  async save(snapshot: StateMachineSnapshot): Promise<void> {
+    this.saved.push(snapshot);
+  }
+
+  async load(): Promise<StateMachineSnapshot | null> {
+    return this.saved[this.saved.length - 1] ?? null;
+  }
+
+  async clear(): Promise<void> {
+    this.cleared = true;
+  }
+}
+
+describe('State machine snapshots', () => {
+  let context: StateContext;
+  let states: Map<string, State>;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: { cycleStartTime: new Date('2025-01-01T10:00:00.000Z') },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+
+    states = new Map<string, State>([
+      ['CAPTURE', new RetryingState('CAPTURE', [TransitionBuilder.on('CAPTURED').goTo('AUDIT')], EventBuilder.create('CAPTURED'))],
+      ['AUDIT', new RetryingState('AUDIT', [TransitionBuilder.on('AUDITED').goTo('DONE')], EventBuilder.create('AUDITED'))],
+      ['DONE', new RetryingState('DONE', [], null)],
+    ]);
+  });
+
+  describe('SnapshotSerializer', () => {
+    it('should revive dates when deserializing', () => {
+      const snapshot: StateMachineSnapshot = {
+        version: SNAPSHOT_VERSION,
+        currentState: 'AUDIT',
+        data: { cycleStartTime: new Date('2025-01-01T10:00:00.000Z'), count: 2 },
+        pendingEvents: [EventBuilder.manualTrigger()],
+        states: {},
+        savedAt: new Date(),
+      };
+
+      const restored = SnapshotSerializer.deserialize(SnapshotSerializer.serialize(snapshot));
+
+      expect(restored.data.cycleStartTime).toBeInstanceOf(Date);
+      expect((restored.data.cycleStartTime as Date).toISOString()).toBe('2025-01-01T10:00:00.000Z');
+      expect(restored.pendingEvents[0].timestamp).toBeInstanceOf(Date);
+      expect(restored.data.count).toBe(2);
+    });
+
+    it('should keep strings that only look like timestamps as strings', () => {
+      const snapshot: StateMachineSnapshot = {
+        version: SNAPSHOT_VERSION,
+        currentState: 'AUDIT',
+        data: { freezeTime: '2024-03-01T12:00:00.000Z', runId: '2025-01-01T10:00:00Z' },
+        pendingEvents: [],
+        states: {},
+        savedAt: new Date(),
+      };
+
+      const restored = SnapshotSerializer.deserialize(SnapshotSerializer.serialize(snapshot));
+
+      expect(restored.data).toEqual({ freezeTime: '2024-03-01T12:00:00.000Z', runId: '2025-01-01T10:00:00Z' });
+      expect(restored.savedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject snapshots with an unknown version', () => {
+      expect(() =>
+        SnapshotSerializer.deserialize(JSON.stringify({ version: 99, currentState: 'A' }))
+      ).toThrow('Unsupported snapshot version: 99');
+    });
+  });
+
+  describe('StateMachine', () => {
+    it('should checkpoint after every transition and clear on terminal state', async () => {
+      const store = new MemorySnapshotStore();
+      const machine = new StateMachine({ initialState: 'CAPTURE', states, context, snapshotStore: store });
+
+      await machine.start();
+
+      expect(store.saved.map(s => s.currentState)).toEqual(['CAPTURE', 'AUDIT', 'DONE']);
+      expect(store.cleared).toBe(true);
+    });
+
+    it('should resume from a snapshot in the recorded state with its data and events', async () => {
+      const audit = states.get('AUDIT') as RetryingState;
+      const auditEnter = vi.spyOn(audit, 'enter');
+      const captureEnter = vi.spyOn(states.get('CAPTURE') as RetryingState, 'enter');
+
+      const machine = new StateMachine({ initialState: 'CAPTURE', states, context });
+      machine.restore({
+        version: SNAPSHOT_VERSION,
+        currentState: 'AUDIT',
+        data: { capturedScreenshots: ['home.png'] },
+        pendingEvents: [EventBuilder.create('AUDITED')],
+        states: { AUDIT: { retryCount: 1 } },
+        savedAt: new Date(),
+      });
+
+      expect(machine.getPendingEvents()).toHaveLength(1);
+      expect(audit.retryCount).toBe(1);
+      expect(context.data).toEqual({ capturedScreenshots: ['home.png'] });
+
+      await machine.start();
+
+      expect(captureEnter).not.toHaveBeenCalled();
+      expect(auditEnter).toHaveBeenCalledTimes(1);
+      expect(machine.getCurrentStateName()).toBe('DONE');
+    });
+
+    it('should refuse snapshots for unknown states', () => {
+      const machine = new StateMachine({ initialState: 'CAPTURE', states, context });
+
+      expect(() =>
+        machine.restore({
+          version: SNAPSHOT_VERSION,
+          currentState: 'MISSING',
+          data: {},
+          pendingEvents: [],
+          states: {},
+          savedAt: new Date(),
+        })
+      ).toThrow("Snapshot state 'MISSING' not found in state machine");
+    });
+  });
+
+  describe('FileSnapshotStore', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should save, load and clear snapshots', async () => {
+      const store = new FileSnapshotStore(path.join(tempDir, 'nested', 'monitor.json'));
+
+      expect(await store.load()).toBeNull();
+
+      await store.save({
+        version: SNAPSHOT_VERSION,
+        currentState: 'QUALITY_AUDIT',
+        data: { workflowMode: 'monitor' },
+        pendingEvents: [],
+        states: { QUALITY_AUDIT: { retryCount: 1 } },
+        savedAt: new Date(),
+      });
+
+      const loaded = await store.load();
+      expect(loaded?.currentState).toBe('QUALITY_AUDIT');
+      expect(loaded?.states.QUALITY_AUDIT).toEqual({ retryCount: 1 });
+
+      await store.clear();
+      expect(await store.load()).toBeNull();
+    });
+  });
+});
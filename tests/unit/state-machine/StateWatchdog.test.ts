@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { StateWatchdog, WatchedMachine } from '../../../src/state-machine/StateWatchdog.js';
+
+class ScriptedState extends BaseState {
+  constructor(name: string, private readonly transitions: Transition[], private readonly script: () => Promise<Event | null>) {
+    super(name);
+  }
+
+  async execute(): Promise<Event | null> {
+    return this.script();
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+describe('State timeouts', () => {
+  let context: StateContext;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: {},
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+  });
+
+  it('should emit STATE_TIMEOUT when execute() outlives its timeout', async () => {
+    const hung = new ScriptedState(
+      'RECIPE_EXECUTION',
+      [TransitionBuilder.on('STATE_TIMEOUT').goTo('MONITORING')],
+      () => new Promise<Event | null>(() => undefined)
+    );
+    const monitoring = new ScriptedState('MONITORING', [], async () => null);
+    const events: Event[] = [];
+
+    const machine = new StateMachine({
+      initialState: 'RECIPE_EXECUTION',
+      states: new Map<string, State>([
+        ['RECIPE_EXECUTION', hung],
+        ['MONITORING', monitoring],
+      ]),
+      context,
+      stateTimeouts: { RECIPE_EXECUTION: 20 },
+      observers: [{ onTransition: info => void events.push(info.event) }],
+    });
+
+    await machine.start();
+
+    expect(machine.getCurrentStateName()).toBe('MONITORING');
+    expect(events[0].type).toBe('STATE_TIMEOUT');
+    expect(events[0].payload).toEqual({ state: 'RECIPE_EXECUTION', timeoutMs: 20 });
+    expect(context.logger.error).toHaveBeenCalledWith("State 'RECIPE_EXECUTION' timed out after 20ms");
+  });
+
+  it('should abort a timed-out execute() and discard its late writes', async () => {
+    let stateSignal: AbortSignal | undefined;
+    let settled!: () => void;
+    const finished = new Promise<void>(resolve => (settled = resolve));
+
+    class SlowCaptureState extends BaseState {
+      async execute(ctx: StateContext): Promise<Event | null> {
+        stateSignal = ctx.signal;
+        await new Promise(resolve => ctx.signal?.addEventListener('abort', resolve));
+        ctx.data.capturedScreenshots = ['stale.png'];
+        settled();
+        return null;
+      }
+
+      getTransitions(): Transition[] {
+        return [TransitionBuilder.on('STATE_TIMEOUT').goTo('MONITORING')];
+      }
+    }
+
+    const machine = new StateMachine({
+      initialState: 'RECIPE_EXECUTION',
+      states: new Map<string, State>([
+        ['RECIPE_EXECUTION', new SlowCaptureState('RECIPE_EXECUTION')],
+        ['MONITORING', new ScriptedState('MONITORING', [], async () => null)],
+      ]),
+      context,
+      stateTimeouts: { RECIPE_EXECUTION: 20 },
+    });
+
+    await machine.start();
+    await finished;
+
+    expect(stateSignal?.aborted).toBe(true);
+    expect(context.data).toEqual({});
+    expect(context.logger.debug).toHaveBeenCalledWith("Discarded write to 'capturedScreenshots' from a timed-out execute()");
+  });
+
+  it('should pass through results that arrive in time', async () => {
+    const quick = new ScriptedState('CAPTURE', [TransitionBuilder.on('CAPTURED').goTo('DONE')], async () =>
+      EventBuilder.create('CAPTURED')
+    );
+    const machine = new StateMachine({
+      initialState: 'CAPTURE',
+      states: new Map<string, State>([
+        ['CAPTURE', quick],
+        ['DONE', new ScriptedState('DONE', [], async () => null)],
+      ]),
+      context,
+      stateTimeouts: { CAPTURE: 1000 },
+    });
+
+    await machine.start();
+
+    expect(machine.getCurrentStateName()).toBe('DONE');
+    expect(context.logger.error).not.toHaveBeenCalled();
+  });
+});
+
+describe('StateWatchdog', () => {
+  let machine: WatchedMachine & { state: string; enteredAt: Date };
+  let onStuck: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    machine = {
+      state: 'RECIPE_EXECUTION',
+      enteredAt: new Date('2025-01-01T10:00:00.000Z'),
+      getCurrentStateName() {
+        return this.state;
+      },
+      getActiveStatePath() {
+        return [this.state];
+      },
+      getStateEnteredAt() {
+        return this.enteredAt;
+      },
+    };
+    onStuck = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report a stuck state once per entry', () => {
+    const watchdog = new StateWatchdog(machine, { stuckThresholdMs: 60000 }, onStuck);
+
+    expect(watchdog.check(new Date('2025-01-01T10:00:30.000Z'))).toBeNull();
+
+    const report = watchdog.check(new Date('2025-01-01T10:02:00.000Z'));
+    expect(report).toMatchObject({ state: 'RECIPE_EXECUTION', stuckForMs: 120000, thresholdMs: 60000 });
+    expect(watchdog.check(new Date('2025-01-01T10:03:00.000Z'))).toBeNull();
+    expect(onStuck).toHaveBeenCalledTimes(1);
+
+    machine.enteredAt = new Date('2025-01-01T10:05:00.000Z');
+    watchdog.check(new Date('2025-01-01T10:07:00.000Z'));
+    expect(onStuck).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip ignored states', () => {
+    machine.state = 'MONITORING';
+    const watchdog = new StateWatchdog(machine, { stuckThresholdMs: 1000, ignoreStates: ['MONITORING'] }, onStuck);
+
+    expect(watchdog.check(new Date('2025-01-02T00:00:00.000Z'))).toBeNull();
+    expect(onStuck).not.toHaveBeenCalled();
+  });
+
+  it('should check periodically until stopped', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T10:10:00.000Z'));
+    const watchdog = new StateWatchdog(machine, { stuckThresholdMs: 60000, checkIntervalMs: 1000 }, onStuck);
+
+    watchdog.start();
+    expect(watchdog.isActive()).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(onStuck).toHaveBeenCalledTimes(1);
+
+    watchdog.stop();
+    expect(watchdog.isActive()).toBe(false);
+  });
+});
@@ -59,5 +59,28 @@ describe('Transition', () => {
       
       expect(transition.condition!(eventNoPayload, context)).toBe(false);
     });
+
+    it('should attach action and priority through fluent modifiers', () => {
+      const action = () => {};
+      const transition = TransitionBuilder.on('TEST_EVENT')
+        .withAction(action)
+        .priority(10)
+        .goTo('TARGET_STATE');
+
+      expect(transition.targetState).toBe('TARGET_STATE');
+      expect(transition.action).toBe(action);
+      expect(transition.priority).toBe(10);
+      expect(transition.kind).toBeUndefined();
+    });
+
+    it('should create an internal transition without a target state', () => {
+      const condition = () => true;
+      const transition = TransitionBuilder.on('TEST_EVENT').priority(1).internal(condition);
+
+      expect(transition.kind).toBe('internal');
+      expect(transition.targetState).toBeUndefined();
+      expect(transition.condition).toBe(condition);
+      expect(transition.priority).toBe(1);
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { TransitionHistory, TransitionRecord } from '../../../src/state-machine/TransitionHistory.js';
+import { HistoryReplayer } from '../../../src/state-machine/HistoryReplayer.js';
+
+class ScriptedState extends BaseState {
+  constructor(
+    name: string,
+    private readonly transitions: Transition[],
+    private readonly script: (context: StateContext) => Event | null
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    return this.script(context);
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+/**
+ * DETECTION routes on context data, so replay must restore what the original
+ * run wrote there to take the same path
+ */
+function createStates(): Map<string, State> {
+  return new Map<string, State>([
+    [
+      'DETECTION',
+      new ScriptedState(
+        'DETECTION',
+        [
+          TransitionBuilder.on('CHECKED').goToIf('CAPTURE', (_event, data) => data.changed === true),
+          TransitionBuilder.on('CHECKED').goTo('DONE'),
+        ],
+        context => {
+          context.data.changed = true;
+          context.data.diffs = ['home.png'];
+          return EventBuilder.create('CHECKED');
+        }
+      ),
+    ],
+    [
+      'CAPTURE',
+      new ScriptedState('CAPTURE', [TransitionBuilder.on('CAPTURED').goTo('DONE')], context => {
+        delete context.data.changed;
+        return EventBuilder.create('CAPTURED');
+      }),
+    ],
+    ['DONE', new ScriptedState('DONE', [], () => null)],
+  ]);
+}
+
+describe('Transition history', () => {
+  let context: StateContext;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: { workflowMode: 'trigger' },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+  });
+
+  it('should record each transition with its event and context diff', async () => {
+    const machine = new StateMachine({ initialState: 'DETECTION', states: createStates(), context });
+
+    await machine.start();
+
+    const history = machine.getHistory();
+    expect(history.map(entry => `${entry.from}->${entry.to}`)).toEqual(['DETECTION->CAPTURE', 'CAPTURE->DONE']);
+    expect(history[0].event.type).toBe('CHECKED');
+    expect(history[0].timestamp).toBeInstanceOf(Date);
+    expect(history[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(history[0].contextDiff).toEqual({ added: { changed: true, diffs: ['home.png'] }, removed: [], changed: {} });
+    expect(history[1].contextDiff).toEqual({ added: {}, removed: ['changed'], changed: {} });
+  });
+
+  it('should keep only the most recent entries', () => {
+    const history = new TransitionHistory(2);
+    for (const to of ['A', 'B', 'C']) {
+      history.record({
+        from: 'X',
+        to,
+        event: EventBuilder.create('GO'),
+        timestamp: new Date(),
+        durationMs: 0,
+        contextDiff: { added: {}, removed: [], changed: {} },
+      });
+    }
+
+    expect(history.getEntries().map(entry => entry.to)).toEqual(['B', 'C']);
+  });
+
+  it('should detect in-place mutations', () => {
+    const data: Record<string, unknown> = { screenshots: ['a.png'] };
+    const before = TransitionHistory.fingerprint(data);
+    (data.screenshots as string[]).push('b.png');
+
+    expect(TransitionHistory.diffContext(before, data).changed).toEqual({ screenshots: ['a.png', 'b.png'] });
+  });
+
+  it('should not let later mutations rewrite recorded values', async () => {
+    const machine = new StateMachine({ initialState: 'DETECTION', states: createStates(), context });
+    await machine.start();
+
+    (context.data.diffs as string[]).push('pricing.png');
+
+    expect(machine.getHistory()[0].contextDiff.added.diffs).toEqual(['home.png']);
+  });
+
+  describe('HistoryReplayer', () => {
+    let recorded: TransitionRecord[];
+
+    beforeEach(async () => {
+      const machine = new StateMachine({ initialState: 'DETECTION', states: createStates(), context });
+      await machine.start();
+      recorded = machine.getHistory();
+    });
+
+    it('should reproduce the recorded path without running the real states', async () => {
+      const states = createStates();
+      const execute = vi.spyOn(states.get('DETECTION') as ScriptedState, 'execute');
+
+      const result = await HistoryReplayer.replay(recorded, { states, initialData: { workflowMode: 'trigger' } });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.divergences).toEqual([]);
+      expect(result.steps.map(step => step.to)).toEqual(['CAPTURE', 'DONE']);
+      expect(result.finalState).toBe('DONE');
+      expect(result.finalData).toEqual({ workflowMode: 'trigger', diffs: ['home.png'] });
+    });
+
+    it('should report where a changed transition table diverges', async () => {
+      const states = createStates();
+      states.set('DETECTION', new ScriptedState('DETECTION', [TransitionBuilder.on('CHECKED').goTo('DONE')], () => null));
+
+      const result = await HistoryReplayer.replay(recorded, { states });
+
+      expect(result.divergences[0]).toEqual({
+        index: 0,
+        event: 'CHECKED',
+        expected: { from: 'DETECTION', to: 'CAPTURE' },
+        actual: { from: 'DETECTION', to: 'DONE' },
+      });
+      expect(result.divergences[1].actual).toEqual({ from: 'DONE', to: null });
+    });
+
+    it('should evaluate retry guards against the state data recorded with each step', async () => {
+      class RetryingState extends BaseState {
+        attempts = 0;
+
+        constructor() {
+          super('CAPTURE');
+        }
+
+        async execute(): Promise<Event | null> {
+          this.attempts++;
+          return EventBuilder.create('FAILED');
+        }
+
+        getTransitions(): Transition[] {
+          return [
+            TransitionBuilder.on('FAILED').internal(() => this.attempts < 3),
+            TransitionBuilder.on('FAILED').goToIf('DONE', () => this.attempts >= 3),
+          ];
+        }
+
+        getSnapshotData(): Record<string, unknown> {
+          return { attempts: this.attempts };
+        }
+
+        restoreSnapshotData(data: Record<string, unknown>): void {
+          this.attempts = data.attempts as number;
+        }
+      }
+      const build = () => new Map<string, State>([
+        ['CAPTURE', new RetryingState()],
+        ['DONE', new ScriptedState('DONE', [], () => null)],
+      ]);
+
+      const machine = new StateMachine({ initialState: 'CAPTURE', states: build(), context });
+      await machine.start();
+
+      const result = await HistoryReplayer.replay(machine.getHistory(), { states: build() });
+
+      expect(machine.getHistory()[2].stateData).toEqual({ CAPTURE: { attempts: 3 } });
+      expect(result.divergences).toEqual([]);
+      expect(result.steps.map(step => step.to)).toEqual(['CAPTURE', 'CAPTURE', 'DONE']);
+    });
+  });
+});
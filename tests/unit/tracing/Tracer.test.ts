@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Tracer, getActiveSpan, traceActive } from '../../../src/tracing/Tracer.js';
+import { InMemorySpanExporter, OtlpJsonFileExporter, toOtlpJson } from '../../../src/tracing/SpanExporters.js';
+
+describe('Tracer', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer(exporter);
+  });
+
+  it('should parent spans started inside an active span', async () => {
+    await tracer.trace('cycle', async () => {
+      await traceActive('captureScreenshot', { 'viewport.name': 'mobile' }, async span => {
+        expect(getActiveSpan()).toBe(span);
+        await traceActive('navigate', {}, async () => undefined);
+      });
+    });
+    await tracer.flush();
+
+    const [navigate, capture, cycle] = exporter.getFinishedSpans();
+    expect([navigate.name, capture.name, cycle.name]).toEqual(['navigate', 'captureScreenshot', 'cycle']);
+    expect(navigate.parentSpanId).toBe(capture.spanId);
+    expect(capture.parentSpanId).toBe(cycle.spanId);
+    expect(cycle.parentSpanId).toBeUndefined();
+    expect(capture.attributes).toEqual({ 'viewport.name': 'mobile' });
+    expect(capture.endTime).toBeGreaterThanOrEqual(capture.startTime);
+  });
+
+  it('should run untraced outside of a trace', async () => {
+    const result = await traceActive('compareImages', {}, async span => span);
+
+    expect(result).toBeUndefined();
+    await tracer.flush();
+    expect(exporter.getFinishedSpans()).toEqual([]);
+  });
+
+  it('should hold a trace back until its root span ends', async () => {
+    const root = tracer.startSpan('cycle');
+    tracer.startSpan('MONITORING.enter', { parent: root }).end();
+    await tracer.flush();
+
+    // flush() exports what has ended so far
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['MONITORING.enter']);
+
+    const late = tracer.startSpan('RECIPE_EXECUTION.execute', { parent: root });
+    tracer.startSpan('idle tick', { parent: root }).discard();
+    root.end();
+    late.end();
+    await tracer.flush();
+
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual([
+      'MONITORING.enter',
+      'cycle',
+      'RECIPE_EXECUTION.execute',
+    ]);
+  });
+
+  it('should record errors and rethrow them', async () => {
+    await expect(
+      tracer.trace('compareImages', async () => {
+        throw new Error('Image sizes differ');
+      })
+    ).rejects.toThrow('Image sizes differ');
+    await tracer.flush();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status).toEqual({ code: 'error', message: 'Image sizes differ' });
+    expect(span.events[0]).toMatchObject({
+      name: 'exception',
+      attributes: { 'exception.type': 'Error', 'exception.message': 'Image sizes differ' },
+    });
+  });
+
+  describe('OTLP/JSON export', () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'traces-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should convert spans to an ExportTraceServiceRequest', () => {
+      const request = toOtlpJson([
+        {
+          traceId: '0af7651916cd43dd8448eb211c80319c',
+          spanId: 'b7ad6b7169203331',
+          name: 'screenshot',
+          startTime: 1754254800000.5,
+          endTime: 1754254800250,
+          attributes: { format: 'png', 'file.size': 2048, 'change.percentage': 1.5, 'change.detected': true },
+          events: [],
+          status: { code: 'ok' },
+        },
+      ]);
+
+      expect(request).toEqual({
+        resourceSpans: [
+          {
+            resource: { attributes: [{ key: 'service.name', value: { stringValue: 'screenshot-automation' } }] },
+            scopeSpans: [
+              {
+                scope: { name: 'screenshot-automation' },
+                spans: [
+                  {
+                    traceId: '0af7651916cd43dd8448eb211c80319c',
+                    spanId: 'b7ad6b7169203331',
+                    parentSpanId: '',
+                    name: 'screenshot',
+                    kind: 1,
+                    startTimeUnixNano: '1754254800000500000',
+                    endTimeUnixNano: '1754254800250000000',
+                    attributes: [
+                      { key: 'format', value: { stringValue: 'png' } },
+                      { key: 'file.size', value: { intValue: '2048' } },
+                      { key: 'change.percentage', value: { doubleValue: 1.5 } },
+                      { key: 'change.detected', value: { boolValue: true } },
+                    ],
+                    events: [],
+                    status: { code: 1 },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should append one line per exported trace', async () => {
+      const filePath = path.join(outputDir, 'nested', 'traces.jsonl');
+      const fileTracer = new Tracer(new OtlpJsonFileExporter(filePath));
+
+      await fileTracer.trace('cycle', async () => undefined);
+      await fileTracer.trace('cycle', async () => undefined);
+      await fileTracer.flush();
+
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]).resourceSpans[0].scopeSpans[0].spans[0].name).toBe('cycle');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StateFactory } from '../../../src/workflows/StateFactory.js';
+import { GuardRegistry } from '../../../src/workflows/GuardRegistry.js';
+import { WorkflowBuilder } from '../../../src/workflows/WorkflowBuilder.js';
+import { QualityAuditState } from '../../../src/workflows/states/QualityAuditState.js';
+import { MonitoringState } from '../../../src/workflows/states/MonitoringState.js';
+import { EventBuilder } from '../../../src/state-machine/Event.js';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { WorkflowMode } from '../../../src/types/WorkflowMode.js';
+import { WorkflowEvent } from '../../../src/types/WorkflowEvent.js';
+import { WorkflowState } from '../../../src/types/WorkflowState.js';
+
+vi.mock('sharp', () => ({ default: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+vi.mock('pixelmatch', () => ({ default: vi.fn() }));
+
+describe('StateFactory declarative transitions', () => {
+  it('should wire the transitions declared for a mode', async () => {
+    const states = await StateFactory.createStatesForMode(WorkflowMode.TRIGGER);
+    const changeDetection = states.get(WorkflowState.CHANGE_DETECTION)!;
+
+    const noChange = changeDetection
+      .getTransitions()
+      .filter(t => t.eventType === WorkflowEvent.NO_CHANGE_DETECTED);
+
+    expect(changeDetection.hasConfiguredTransitions()).toBe(true);
+    expect(noChange).toHaveLength(1);
+    expect(noChange[0].targetState).toBe(WorkflowState.TRIGGER_COMPLETE);
+    expect(noChange[0].condition).toBeUndefined();
+  });
+
+  it('should bind named guards to the owning state', () => {
+    const state = new QualityAuditState();
+    const [retry, giveUp] = StateFactory.createTransitions(state, [
+      { event: WorkflowEvent.QUALITY_CHECK_FAILED, target: WorkflowState.RECIPE_EXECUTION, guard: 'retriesRemaining' },
+      { event: WorkflowEvent.QUALITY_CHECK_FAILED, target: WorkflowState.MONITORING, guard: 'retriesExhausted', priority: 1 },
+    ]);
+    const event = EventBuilder.create(WorkflowEvent.QUALITY_CHECK_FAILED);
+
+    expect(retry.description).toBe('retryCount < maxRetries');
+    expect(giveUp.priority).toBe(1);
+    expect(retry.condition!(event, {})).toBe(true);
+    expect(giveUp.condition!(event, {})).toBe(false);
+
+    state.restoreSnapshotData({ retryCount: state.getRetryStatus().max });
+    expect(retry.condition!(event, {})).toBe(false);
+    expect(giveUp.condition!(event, {})).toBe(true);
+  });
+
+  it('should create internal transitions when no target is given', () => {
+    const [transition] = StateFactory.createTransitions(new MonitoringState(), [
+      { event: WorkflowEvent.MANUAL_TRIGGER },
+    ]);
+
+    expect(transition.kind).toBe('internal');
+    expect(transition.targetState).toBeUndefined();
+  });
+
+  it('should reject unknown guards and guards the state cannot support', () => {
+    expect(() =>
+      StateFactory.createTransitions(new MonitoringState(), [
+        { event: WorkflowEvent.MANUAL_TRIGGER, target: WorkflowState.CHANGE_DETECTION, guard: 'missing' },
+      ])
+    ).toThrow('Unknown guard: missing');
+
+    expect(() =>
+      StateFactory.createTransitions(new MonitoringState(), [
+        { event: WorkflowEvent.MANUAL_TRIGGER, target: WorkflowState.CHANGE_DETECTION, guard: 'retriesExhausted' },
+      ])
+    ).toThrow("Guard 'retriesExhausted' requires a state with retry tracking, but MONITORING has none");
+  });
+
+  it('should accept custom guards registered at runtime', () => {
+    GuardRegistry.register('never', { description: 'false', create: () => () => false });
+
+    const [transition] = StateFactory.createTransitions(new MonitoringState(), [
+      { event: WorkflowEvent.MANUAL_TRIGGER, target: WorkflowState.CHANGE_DETECTION, guard: 'never' },
+    ]);
+
+    expect(transition.description).toBe('false');
+    expect(transition.condition!(EventBuilder.create(WorkflowEvent.MANUAL_TRIGGER), {})).toBe(false);
+  });
+
+  it('should validate the bundled configuration', async () => {
+    const result = await StateFactory.validateConfiguration();
+
+    expect(result).toEqual({ isValid: true, errors: [] });
+  });
+});
+
+describe('StateFactory custom modes', () => {
+  it('should list custom modes declared in the configuration', async () => {
+    const modes = await StateFactory.getAvailableModes();
+
+    expect(modes).toEqual(expect.arrayContaining(['monitor', 'baseline-only', 'audit-only', 'diff-report']));
+    expect(await StateFactory.hasMode('audit-only')).toBe(true);
+    expect(await StateFactory.hasMode('nonexistent')).toBe(false);
+    expect(await StateFactory.hasMode('toString')).toBe(false);
+  });
+
+  it('should reject unknown modes with the available ones listed', async () => {
+    await expect(StateFactory.getWorkflowConfig('nonexistent')).rejects.toThrow(
+      'Unknown workflow mode: nonexistent. Available modes: monitor, trigger, schedule'
+    );
+  });
+
+  it('should seed the context with the mode initial data', async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const config = await WorkflowBuilder.buildWorkflow({ mode: 'baseline-only', config: {}, logger });
+
+    expect(config.initialState).toBe(WorkflowState.RECIPE_EXECUTION);
+    expect(config.context.data).toMatchObject({ workflowMode: 'baseline-only', isInitialRun: true });
+  });
+
+  it('should keep diff-report from writing baselines', async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const config = await WorkflowBuilder.buildWorkflow({ mode: 'diff-report', config: {}, logger });
+
+    expect(config.context.data).toMatchObject({ workflowMode: 'diff-report', preserveBaselines: true });
+  });
+
+  it('should let trigger runs create the first baselines', async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const config = await WorkflowBuilder.buildWorkflow({ mode: WorkflowMode.TRIGGER, config: {}, logger });
+
+    expect(config.context.data).not.toHaveProperty('preserveBaselines');
+  });
+
+  it('should finish a mode whose recipes cannot run through its EXECUTION_FAILED route', async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const machine = new StateMachine(
+      await WorkflowBuilder.buildWorkflow({ mode: 'baseline-only', config: { recipes: [] }, logger })
+    );
+
+    await machine.start();
+
+    expect(machine.getCurrentStateName()).toBe(WorkflowState.TRIGGER_COMPLETE);
+    expect(machine.hasReachedTerminalState()).toBe(true);
+    expect(logger.error).toHaveBeenCalledWith('No recipes configured for execution');
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StateMachine } from '../../../src/state-machine/StateMachine.js';
+import { BaseState, State, StateContext } from '../../../src/state-machine/State.js';
+import { Event, EventBuilder } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { SubWorkflowState } from '../../../src/workflows/SubWorkflowState.js';
+import { WorkflowBuilder, WorkflowBuildOptions } from '../../../src/workflows/WorkflowBuilder.js';
+import { StateFactory } from '../../../src/workflows/StateFactory.js';
+import { WorkflowEvent } from '../../../src/types/WorkflowEvent.js';
+
+vi.mock('sharp', () => ({ default: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+vi.mock('pixelmatch', () => ({ default: vi.fn() }));
+
+class StepState extends BaseState {
+  constructor(
+    name: string,
+    private readonly transitions: Transition[],
+    private readonly onExecute: (context: StateContext) => Event | null
+  ) {
+    super(name);
+  }
+
+  async execute(context: StateContext): Promise<Event | null> {
+    return this.onExecute(context);
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+const terminal = (name: string): StepState => new StepState(name, [], () => null);
+
+/**
+ * Stand-in for a "login-and-capture" mode: logs in as data.item and either
+ * captures a screenshot or fails
+ */
+function loginAndCapture(options: WorkflowBuildOptions, failFor: string[] = []) {
+  return {
+    initialState: 'LOGIN',
+    states: new Map<string, State>([
+      [
+        'LOGIN',
+        new StepState(
+          'LOGIN',
+          [
+            TransitionBuilder.on('SCREENSHOTS_CAPTURED').goTo('DONE'),
+            TransitionBuilder.on('EXECUTION_FAILED').goTo('DONE'),
+          ],
+          context => {
+            const tenant = context.data.item as string;
+            if (failFor.includes(tenant)) {
+              return EventBuilder.executionFailed(new Error(`Login failed for ${tenant}`));
+            }
+            context.data.capturedScreenshots = [`${tenant}.png`];
+            return EventBuilder.screenshotsCaptured([]);
+          }
+        ),
+      ],
+      ['DONE', terminal('DONE')],
+    ]),
+    context: { config: options.config, data: { ...options.initialData }, logger: options.logger },
+  };
+}
+
+describe('SubWorkflowState', () => {
+  let context: StateContext;
+
+  beforeEach(() => {
+    context = {
+      config: {},
+      data: { tenants: ['acme', 'globex'] },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should run the child once per item and collect its outputs', async () => {
+    const build = vi
+      .spyOn(WorkflowBuilder, 'buildWorkflow')
+      .mockImplementation(async options => loginAndCapture(options));
+
+    const state = new SubWorkflowState('CAPTURE_TENANTS', {
+      mode: 'login-and-capture',
+      forEach: 'tenants',
+      itemKey: 'item',
+      inputKeys: ['cycleStartTime'],
+      outputKeys: ['capturedScreenshots'],
+    });
+    context.data.cycleStartTime = new Date('2025-08-03T21:00:00.000Z');
+
+    const event = await state.execute(context);
+
+    expect(build).toHaveBeenCalledTimes(2);
+    expect(build.mock.calls[0][0]).toMatchObject({
+      mode: 'login-and-capture',
+      initialData: { cycleStartTime: context.data.cycleStartTime, item: 'acme' },
+    });
+    expect(event?.type).toBe(WorkflowEvent.SUBWORKFLOW_COMPLETE);
+    expect(event?.payload).toEqual({
+      mode: 'login-and-capture',
+      runs: [
+        { item: 'acme', finalState: 'DONE', lastEvent: 'SCREENSHOTS_CAPTURED', result: 'SUBWORKFLOW_COMPLETE' },
+        { item: 'globex', finalState: 'DONE', lastEvent: 'SCREENSHOTS_CAPTURED', result: 'SUBWORKFLOW_COMPLETE' },
+      ],
+    });
+    expect(context.data.capturedScreenshots).toEqual([['acme.png'], ['globex.png']]);
+  });
+
+  it('should map the event that ended the child to a parent event', async () => {
+    vi.spyOn(WorkflowBuilder, 'buildWorkflow').mockImplementation(async options =>
+      loginAndCapture(options, ['globex'])
+    );
+
+    const state = new SubWorkflowState('CAPTURE_TENANTS', {
+      mode: 'login-and-capture',
+      forEach: 'tenants',
+      resultEvents: { EXECUTION_FAILED: 'SUBWORKFLOW_FAILED' },
+    });
+
+    const event = await state.execute(context);
+
+    expect(event?.type).toBe(WorkflowEvent.SUBWORKFLOW_FAILED);
+    expect((event?.payload?.runs as unknown[])[1]).toMatchObject({
+      item: 'globex',
+      lastEvent: 'EXECUTION_FAILED',
+      result: 'SUBWORKFLOW_FAILED',
+    });
+    expect(state.getEmittedEvents()).toEqual(['SUBWORKFLOW_COMPLETE', 'SUBWORKFLOW_FAILED']);
+  });
+
+  it('should fail when the child cannot be built', async () => {
+    vi.spyOn(WorkflowBuilder, 'buildWorkflow').mockRejectedValue(new Error('Unknown workflow mode: missing'));
+
+    const state = new SubWorkflowState('CHILD', { mode: 'missing' });
+    const event = await state.execute(context);
+
+    expect(event?.type).toBe(WorkflowEvent.SUBWORKFLOW_FAILED);
+    expect(event?.payload?.runs).toEqual([
+      { finalState: null, lastEvent: null, result: 'SUBWORKFLOW_FAILED', error: 'Unknown workflow mode: missing' },
+    ]);
+    expect(context.logger.error).toHaveBeenCalledWith('Sub-workflow missing failed: Unknown workflow mode: missing');
+  });
+
+  it('should move the parent on once the child finishes', async () => {
+    vi.spyOn(WorkflowBuilder, 'buildWorkflow').mockImplementation(async options => loginAndCapture(options));
+
+    const parent = new StateMachine({
+      initialState: 'CAPTURE_TENANTS',
+      states: new Map<string, State>([
+        [
+          'CAPTURE_TENANTS',
+          new SubWorkflowState('CAPTURE_TENANTS', {
+            mode: 'login-and-capture',
+            forEach: 'tenants',
+            transitions: [TransitionBuilder.on('SUBWORKFLOW_COMPLETE').goTo('REPORT')],
+          }),
+        ],
+        ['REPORT', terminal('REPORT')],
+      ]),
+      context,
+    });
+
+    await parent.start();
+
+    expect(parent.getCurrentStateName()).toBe('REPORT');
+    expect(context.logger.info).toHaveBeenCalledWith("Terminal state 'DONE' reached - stopping state machine", {
+      subWorkflow: 'login-and-capture#1',
+    });
+  });
+
+  it('should stop the child when the parent leaves the state', async () => {
+    vi.spyOn(WorkflowBuilder, 'buildWorkflow').mockImplementation(async options => ({
+      initialState: 'WAITING',
+      states: new Map<string, State>([['WAITING', new StepState('WAITING', [TransitionBuilder.on('NEVER').goTo('WAITING')], () => null)]]),
+      context: { config: options.config, data: {}, logger: options.logger },
+    }));
+
+    const state = new SubWorkflowState('CHILD', { mode: 'monitor' });
+    const execution = state.execute(context);
+
+    await vi.waitFor(() => expect(state.getActiveSubstates()).toEqual(['WAITING']));
+    await state.exit(context);
+
+    await expect(execution).resolves.toBeNull();
+    expect(state.getActiveSubstates()).toEqual([]);
+  });
+
+  it('should require the forEach key in the parent context', () => {
+    expect(new SubWorkflowState('CHILD', { mode: 'trigger', forEach: 'tenants' }).getDataContract()).toEqual({
+      requires: ['tenants'],
+    });
+  });
+
+  describe('configuration', () => {
+    it('should create sub-workflow states declared in workflow-config.json', async () => {
+      const config = await StateFactory.loadConfiguration();
+      config.workflows['tenant-audit'] = {
+        initialState: 'CAPTURE_TENANTS',
+        completionState: 'TRIGGER_COMPLETE',
+        states: ['CAPTURE_TENANTS', 'TRIGGER_COMPLETE'],
+        subWorkflows: { CAPTURE_TENANTS: { mode: 'trigger', forEach: 'tenants' } },
+        transitions: { CAPTURE_TENANTS: [{ event: 'SUBWORKFLOW_COMPLETE', target: 'TRIGGER_COMPLETE' }] },
+      };
+
+      try {
+        const states = await StateFactory.createStatesForMode('tenant-audit');
+
+        expect(states.get('CAPTURE_TENANTS')).toBeInstanceOf(SubWorkflowState);
+        expect((await StateFactory.validateConfiguration()).errors).toEqual([]);
+      } finally {
+        delete config.workflows['tenant-audit'];
+      }
+    });
+
+    it('should reject sub-workflows that invoke unknown modes or themselves', async () => {
+      const config = await StateFactory.loadConfiguration();
+      config.workflows['tenant-audit'] = {
+        initialState: 'CAPTURE_TENANTS',
+        completionState: 'TRIGGER_COMPLETE',
+        states: ['CAPTURE_TENANTS', 'NESTED', 'TRIGGER_COMPLETE'],
+        subWorkflows: {
+          CAPTURE_TENANTS: { mode: 'tenant-audit' },
+          NESTED: { mode: 'nightly' },
+        },
+      };
+
+      try {
+        const { errors } = await StateFactory.validateConfiguration();
+
+        expect(errors).toContain('Sub-workflow NESTED in tenant-audit workflow invokes unknown mode nightly');
+        expect(errors).toContain('Sub-workflows of tenant-audit workflow end up invoking tenant-audit');
+      } finally {
+        delete config.workflows['tenant-audit'];
+      }
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { WorkflowBuilder } from '../../../src/workflows/WorkflowBuilder.js';
+import { WorkflowDiagram } from '../../../src/workflows/WorkflowDiagram.js';
+import { WorkflowGraph } from '../../../src/workflows/WorkflowGraph.js';
+import { WorkflowMode } from '../../../src/types/WorkflowMode.js';
+
+vi.mock('sharp', () => ({ default: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+vi.mock('pixelmatch', () => ({ default: vi.fn() }));
+
+describe('WorkflowDiagram', () => {
+  let trigger: WorkflowGraph;
+  let monitor: WorkflowGraph;
+
+  beforeAll(async () => {
+    trigger = await WorkflowBuilder.buildGraph(WorkflowMode.TRIGGER);
+    monitor = await WorkflowBuilder.buildGraph(WorkflowMode.MONITOR);
+  });
+
+  it('should render a Mermaid state diagram with guard labels', () => {
+    const diagram = WorkflowDiagram.render(trigger, 'mermaid', 'trigger');
+
+    expect(diagram.startsWith('stateDiagram-v2\n  [*] --> CHANGE_DETECTION\n')).toBe(true);
+    expect(diagram).toContain('  CHANGE_DETECTION --> TRIGGER_COMPLETE: NO_CHANGE_DETECTED\n');
+    expect(diagram).toContain(
+      '  QUALITY_AUDIT --> RECIPE_EXECUTION: QUALITY_CHECK_FAILED [retryCount < maxRetries]'
+    );
+    expect(diagram).toContain('  TRIGGER_COMPLETE --> [*]');
+    // Edges to states outside trigger mode are never taken there
+    expect(diagram).not.toContain('MONITORING');
+  });
+
+  it('should not mark a looping completion state as final', () => {
+    const diagram = WorkflowDiagram.render(monitor, 'mermaid', 'monitor');
+
+    expect(diagram).toContain('  AUDIT_COMPLETE --> MONITORING: CYCLE_COMPLETE');
+    expect(diagram).not.toContain('--> [*]');
+  });
+
+  it('should render Graphviz DOT with dashed guarded edges', () => {
+    const diagram = WorkflowDiagram.render(trigger, 'dot', 'trigger');
+
+    expect(diagram).toContain('digraph "trigger" {');
+    expect(diagram).toContain('  __start -> "CHANGE_DETECTION";');
+    expect(diagram).toContain('  "TRIGGER_COMPLETE" [peripheries=2];');
+    expect(diagram).toContain(
+      '  "DISTRIBUTION" -> "DISTRIBUTION" [label="SYNC_FAILED\\n[retryCount < maxRetries]", style=dashed];'
+    );
+  });
+
+  it('should render SCXML with guard descriptions as conditions', () => {
+    const diagram = WorkflowDiagram.render(trigger, 'scxml', 'trigger');
+
+    expect(diagram).toContain('initial="CHANGE_DETECTION"');
+    expect(diagram).toContain('  <final id="TRIGGER_COMPLETE"/>');
+    expect(diagram).toContain(
+      '    <transition event="SYNC_FAILED" cond="retryCount &lt; maxRetries" target="DISTRIBUTION"/>'
+    );
+    expect(diagram).toContain('    <transition event="SCREENSHOTS_CAPTURED" target="QUALITY_AUDIT"/>');
+  });
+});
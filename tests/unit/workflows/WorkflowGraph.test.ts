@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BaseState, State } from '../../../src/state-machine/State.js';
+import { Event } from '../../../src/state-machine/Event.js';
+import { Transition, TransitionBuilder } from '../../../src/state-machine/Transition.js';
+import { WorkflowGraph } from '../../../src/workflows/WorkflowGraph.js';
+import { WorkflowBuilder } from '../../../src/workflows/WorkflowBuilder.js';
+import { WorkflowMode } from '../../../src/types/WorkflowMode.js';
+
+vi.mock('sharp', () => ({ default: vi.fn() }));
+vi.mock('puppeteer', () => ({ default: { launch: vi.fn() } }));
+vi.mock('pixelmatch', () => ({ default: vi.fn() }));
+
+class StaticState extends BaseState {
+  getEmittedEvents?: () => string[];
+
+  constructor(name: string, private readonly transitions: Transition[], emits?: string[]) {
+    super(name);
+    if (emits) {
+      this.getEmittedEvents = () => emits;
+    }
+  }
+
+  async execute(): Promise<Event | null> {
+    return null;
+  }
+
+  getTransitions(): Transition[] {
+    return this.transitions;
+  }
+}
+
+function graphOf(states: State[], stateTimeouts?: Record<string, number>): WorkflowGraph {
+  return WorkflowGraph.fromStates(new Map(states.map(state => [state.name, state])), {
+    initialState: 'DETECT',
+    completionState: 'DONE',
+    stateTimeouts,
+  });
+}
+
+describe('WorkflowGraph', () => {
+  it('should accept a well-formed workflow', () => {
+    const analysis = graphOf([
+      new StaticState('DETECT', [TransitionBuilder.on('CHANGED').goTo('CAPTURE')], ['CHANGED']),
+      new StaticState('CAPTURE', [TransitionBuilder.on('CAPTURED').goTo('DONE')], ['CAPTURED']),
+      new StaticState('DONE', [], []),
+    ]).analyze();
+
+    expect(analysis).toMatchObject({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('should report unreachable and dead-end states', () => {
+    const analysis = graphOf([
+      new StaticState('DETECT', [TransitionBuilder.on('CHANGED').goTo('DONE')]),
+      new StaticState('ORPHAN', [TransitionBuilder.on('CHANGED').goTo('DONE')]),
+      new StaticState('STUCK', [TransitionBuilder.on('RETRY').goTo('STUCK')]),
+      new StaticState('DONE', []),
+    ]).analyze();
+
+    expect(analysis.unreachableStates).toEqual(['ORPHAN', 'STUCK']);
+    expect(analysis.deadEndStates).toEqual(['STUCK']);
+    expect(analysis.isValid).toBe(false);
+  });
+
+  it('should treat missing targets as errors unless the transition is guarded', () => {
+    const analysis = graphOf([
+      new StaticState('DETECT', [
+        TransitionBuilder.on('CHANGED').goTo('DONE'),
+        TransitionBuilder.on('FAILED').goTo('MONITORING'),
+        TransitionBuilder.on('UNCHANGED').goToIf('TRIGGER_COMPLETE', () => true),
+      ]),
+      new StaticState('DONE', []),
+    ]).analyze();
+
+    expect(analysis.missingTargets.map(edge => edge.to)).toEqual(['MONITORING', 'TRIGGER_COMPLETE']);
+    expect(analysis.errors).toEqual([
+      'DETECT transitions to MONITORING on FAILED, but MONITORING is not part of this workflow',
+    ]);
+    expect(analysis.warnings).toEqual([
+      'DETECT transitions to TRIGGER_COMPLETE on UNCHANGED, but TRIGGER_COMPLETE is not part of this workflow (guarded)',
+    ]);
+  });
+
+  it('should report emitted events without a transition, including timeouts', () => {
+    const analysis = graphOf(
+      [
+        new StaticState('DETECT', [TransitionBuilder.on('CHANGED').goTo('DONE')], ['CHANGED', 'UNCHANGED']),
+        new StaticState('DONE', []),
+      ],
+      { DETECT: 1000 }
+    ).analyze();
+
+    expect(analysis.unhandledEvents).toEqual([
+      { state: 'DETECT', event: 'UNCHANGED' },
+      { state: 'DETECT', event: 'STATE_TIMEOUT' },
+    ]);
+  });
+
+  it.each([...Object.values(WorkflowMode), 'baseline-only', 'audit-only', 'diff-report'])('should find no errors in the %s workflow', async mode => {
+    const graph = await WorkflowBuilder.buildGraph(mode);
+
+    expect(graph.analyze().errors).toEqual([]);
+  });
+});
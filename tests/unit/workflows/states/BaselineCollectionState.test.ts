@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BaselineCollectionState } from '../../../../src/workflows/states/BaselineCollectionState.js';
+import { StateContext } from '../../../../src/state-machine/State.js';
+import { WorkflowData } from '../../../../src/types/WorkflowData.js';
+import { WorkflowEvent } from '../../../../src/types/WorkflowEvent.js';
+import { WorkflowState } from '../../../../src/types/WorkflowState.js';
+import { promises as fs } from 'fs';
+
+// Mock fs module
+vi.mock('fs', () => ({
+  promises: {
+    readdir: vi.fn(),
+    stat: vi.fn(),
+  },
+}));
+
+describe('BaselineCollectionState', () => {
+  let state: BaselineCollectionState;
+  let mockContext: StateContext<WorkflowData>;
+  let mockLogger: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    state = new BaselineCollectionState();
+
+    mockContext = {
+      config: {
+        recipes: [{ steps: [{ url: 'http://localhost:3000', filename: 'homepage' }] }],
+        screenshots: { viewports: [{ width: 1920, height: 1080, name: 'desktop' }] },
+      },
+      data: {},
+      logger: mockLogger,
+    };
+  });
+
+  it('should have the correct state name', () => {
+    expect(state.name).toBe(WorkflowState.BASELINE_COLLECTION);
+  });
+
+  it('should collect baselines named <filename>-<width>x<height>.<format>', async () => {
+    vi.mocked(fs.readdir).mockResolvedValue(['homepage-390x844.png', 'homepage-1920x1080.png', 'notes.txt'] as any);
+    vi.mocked(fs.stat).mockResolvedValue({ size: 2048, mtime: new Date('2025-08-03T21:00:00.000Z') } as any);
+
+    const event = await state.execute(mockContext);
+
+    expect(event?.type).toBe(WorkflowEvent.SCREENSHOTS_CAPTURED);
+    expect(mockContext.data.capturedScreenshots).toEqual([
+      {
+        url: 'http://localhost:3000',
+        filename: 'homepage-1920x1080.png',
+        viewport: { width: 1920, height: 1080, name: 'desktop' },
+        format: 'png',
+        path: 'output/final/homepage-1920x1080.png',
+        timestamp: new Date('2025-08-03T21:00:00.000Z'),
+        size: 2048,
+      },
+      expect.objectContaining({
+        filename: 'homepage-390x844.png',
+        viewport: { width: 390, height: 844, name: '390x844' },
+      }),
+    ]);
+  });
+
+  it('should fail when there are no baselines', async () => {
+    vi.mocked(fs.readdir).mockRejectedValue(new Error('ENOENT'));
+
+    const event = await state.execute(mockContext);
+
+    expect(event?.type).toBe(WorkflowEvent.EXECUTION_FAILED);
+    expect(mockContext.data.capturedScreenshots).toBeUndefined();
+    expect(mockLogger.error).toHaveBeenCalledWith('No baseline screenshots found in ./output/final');
+  });
+
+  it('should hand the baselines to the quality audit by default', () => {
+    const transitions = state.getTransitions();
+
+    expect(transitions).toHaveLength(2);
+    expect(transitions[0]).toMatchObject({
+      eventType: WorkflowEvent.SCREENSHOTS_CAPTURED,
+      targetState: WorkflowState.QUALITY_AUDIT,
+    });
+  });
+});
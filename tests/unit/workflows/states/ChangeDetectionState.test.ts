@@ -40,6 +40,7 @@ describe('ChangeDetectionState', () => {
   beforeEach(() => {
     mockLogger = {
       info: vi.fn(),
+      warn: vi.fn(),
       error: vi.fn(),
       debug: vi.fn(),
     };
@@ -305,4 +306,85 @@ describe('ChangeDetectionState', () => {
       expect(monitorTransition?.targetState).toBe('AUDIT_COMPLETE');
     });
   });
-});
\ No newline at end of file
+
+  describe('Baseline handling', () => {
+    it('should capture to temp and report every screenshot as new when baselines must be preserved', async () => {
+      const { promises: fs } = await import('fs');
+      vi.mocked(fs.readdir).mockResolvedValue([]);
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+      const service = {
+        isUrlAccessible: vi.fn().mockResolvedValue(true),
+        captureMultipleScreenshots: vi.fn().mockResolvedValue([
+          {
+            filename: 'test-page-1920x1080-2025-01-01T10-00-00-000Z.png',
+            format: 'png',
+            path: './output/temp/test-page-1920x1080-2025-01-01T10-00-00-000Z.png',
+          },
+        ]),
+      };
+      (state as any).screenshotService = service;
+      mockContext.data = { workflowMode: 'diff-report', preserveBaselines: true };
+
+      const event = await state.execute(mockContext as any);
+
+      expect(service.captureMultipleScreenshots).toHaveBeenCalledWith(expect.any(Array), './output/temp', expect.any(Object), true);
+      expect(mockContext.data.isInitialRun).toBeUndefined();
+      expect(event?.type).toBe(WorkflowEvent.VISUAL_CHANGE_DETECTED);
+      expect((mockContext.data as any).changeDetectionSummary.results[0]).toMatchObject({
+        filename: 'test-page-1920x1080.png',
+        hasChanged: true,
+      });
+    });
+
+    it('should publish each baseline as it is captured', async () => {
+      const { promises: fs } = await import('fs');
+      vi.mocked(fs.readdir).mockResolvedValue([]);
+      const screenshot = { filename: 'test-page-1920x1080.png', format: 'png', path: './output/final/test-page-1920x1080.png' };
+      const publishedDuringCapture: unknown[] = [];
+      const eventStream = { publishScreenshots: vi.fn() };
+      (state as any).screenshotService = {
+        isUrlAccessible: vi.fn().mockResolvedValue(true),
+        captureMultipleScreenshots: vi.fn((_targets, _outputDir, options) => {
+          options.onScreenshot(screenshot);
+          publishedDuringCapture.push(...eventStream.publishScreenshots.mock.calls);
+          return Promise.resolve([screenshot]);
+        }),
+      };
+      mockContext.data = { workflowMode: 'monitor' };
+
+      await state.execute({ ...mockContext, eventStream } as any);
+
+      expect(publishedDuringCapture).toEqual([[[screenshot]]]);
+      expect(eventStream.publishScreenshots).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Capture targets', () => {
+    it('should check every URL at once and capture only the accessible ones', async () => {
+      const { promises: fs } = await import('fs');
+      vi.mocked(fs.readdir).mockResolvedValue([]);
+      const pending: Array<() => void> = [];
+      const service = {
+        isUrlAccessible: vi.fn(
+          (url: string) =>
+            new Promise<boolean>(resolve => pending.push(() => resolve(!url.includes('offline'))))
+        ),
+        captureMultipleScreenshots: vi.fn().mockResolvedValue([]),
+      };
+      (state as any).screenshotService = service;
+      mockContext.config.recipes = [
+        { steps: [{ url: 'http://example.com/a', filename: 'a' }, { url: 'http://example.com/offline', filename: 'offline' }] },
+        { steps: [{ url: 'http://example.com/b', filename: 'b' }, { type: 'wait', duration: 100 }] },
+      ];
+      mockContext.data = { workflowMode: 'monitor' };
+
+      const execution = state.execute(mockContext as any);
+      await vi.waitFor(() => expect(service.isUrlAccessible).toHaveBeenCalledTimes(3));
+      pending.forEach(resolve => resolve());
+      await execution;
+
+      const [targets] = service.captureMultipleScreenshots.mock.calls[0];
+      expect(targets.map((target: { filename: string }) => target.filename)).toEqual(['a', 'b']);
+    });
+  });
+});
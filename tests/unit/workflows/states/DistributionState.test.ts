@@ -6,6 +6,8 @@ import { WorkflowState } from '../../../../src/types/WorkflowState.js';
 import { WorkflowEvent } from '../../../../src/types/WorkflowEvent.js';
 import { TransitionBuilder } from '../../../../src/state-machine/Transition.js';
 import { EventBuilder } from '../../../../src/state-machine/Event.js';
+import { DistributionRegistry } from '../../../../src/distribution/DistributionRegistry.js';
+import { WorkflowMetrics } from '../../../../src/metrics/WorkflowMetrics.js';
 
 // Mock external dependencies
 vi.mock('../../../../src/monitoring/ChangeDetector.js', () => ({
@@ -29,6 +31,7 @@ describe('DistributionState', () => {
   beforeEach(() => {
     mockLogger = {
       info: vi.fn(),
+      warn: vi.fn(),
       error: vi.fn(),
       debug: vi.fn(),
     };
@@ -389,4 +392,40 @@ describe('DistributionState', () => {
       expect(giveUpTransition?.condition).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('Distribution Targets', () => {
+    beforeEach(() => {
+      mockContext.data.isInitialRun = true;
+    });
+
+    it('should publish captured screenshots to registered targets', async () => {
+      const distribute = vi.fn().mockResolvedValue(undefined);
+      DistributionRegistry.register({ name: 'test-target', distribute });
+
+      const event = await state.execute(mockContext);
+
+      expect(event?.type).toBe(WorkflowEvent.SYNC_SUCCESSFUL);
+      expect(distribute).toHaveBeenCalledWith(mockContext.data.capturedScreenshots, {
+        config: mockContext.config,
+        logger: mockLogger,
+      });
+      expect(mockLogger.info).toHaveBeenCalledWith('Distributed 2 screenshots to test-target');
+    });
+
+    it('should fail the sync when a target fails', async () => {
+      DistributionRegistry.register({
+        name: 'test-target',
+        distribute: vi.fn().mockRejectedValue(new Error('upload rejected')),
+      });
+      state.restoreSnapshotData({ retryCount: 2 });
+      mockContext.metrics = new WorkflowMetrics();
+
+      const event = await state.execute(mockContext);
+
+      expect(event?.type).toBe(WorkflowEvent.SYNC_FAILED);
+      expect(event?.payload?.error).toBe('Distribution to test-target failed: upload rejected');
+      expect(mockLogger.error).toHaveBeenCalledWith('Distribution to test-target failed: upload rejected');
+      expect(mockContext.metrics.registry.render()).toContain('screenshot_workflow_sync_failures_total 1\n');
+    });
+  });
+});